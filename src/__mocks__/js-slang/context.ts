@@ -0,0 +1,15 @@
+/**
+ * Jest uses this mock of the context that js-slang gives to the modules in
+ * all tests, as bundles that keep their state in it cannot be loaded without
+ * it. The context of each module is made when it is first used.
+ */
+const moduleContexts = new Proxy<Record<string | symbol, { state: any }>>({}, {
+  get(contexts, name) {
+    if (!(name in contexts)) {
+      contexts[name] = { state: {} };
+    }
+    return contexts[name];
+  },
+});
+
+export default { moduleContexts };
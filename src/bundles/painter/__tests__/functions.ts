@@ -0,0 +1,118 @@
+import { list, pair } from 'js-slang/dist/stdlib/list';
+import {
+  below,
+  beside,
+  corner_split,
+  display_painter,
+  draw_line,
+  flip_horiz,
+  flip_vert,
+  frame_coord_map,
+  image_painter,
+  make_frame,
+  right_split,
+  rotate90,
+  segments_to_painter,
+} from '../functions';
+
+jest.mock('plotly.js-dist', () => ({
+  __esModule: true,
+  default: { newPlot: jest.fn() },
+}));
+
+const unit_frame = make_frame(pair(0, 0), pair(1, 0), pair(0, 1));
+
+// a line from the bottom left corner to the middle of the right edge
+const line_painter = segments_to_painter(list(pair(pair(0, 0), pair(1, 0.5))));
+
+// The lines drawn by the painter, as pairs of start and end points
+function lines_of(painter: any): number[][][] {
+  const { data } = display_painter(painter)(unit_frame) as any;
+  const lines: number[][][] = [];
+  for (let i = 0; i < data.x.length; i += 3) {
+    lines.push([[data.x[i], data.y[i]], [data.x[i + 1], data.y[i + 1]]]);
+  }
+  return lines;
+}
+
+test('frame_coord_map maps the unit square into the frame', () => {
+  const frame = make_frame(pair(1, 1), pair(2, 0), pair(0, 2));
+  expect(frame_coord_map(frame)(pair(0.5, 0.5))).toEqual(pair(2, 2));
+  expect(() => make_frame(pair(0, 0), pair(1, 0), 5 as any)).toThrow(
+    'make_frame is expecting edge2 to be a vector made with pair(x, y), but encountered 5',
+  );
+});
+
+test('every displayed painter only has its own lines', () => {
+  expect(lines_of(line_painter)).toEqual([[[0, 0], [1, 0.5]]]);
+  expect(lines_of(line_painter)).toEqual([[[0, 0], [1, 0.5]]]);
+  expect(() => draw_line(pair(0, 0), pair(1, 1))).toThrow(
+    'draw_line can only draw lines in a painter that is displayed with display_painter',
+  );
+});
+
+test('painters can be flipped and rotated', () => {
+  expect(lines_of(flip_vert(line_painter))).toEqual([[[0, 1], [1, 0.5]]]);
+  expect(lines_of(flip_horiz(line_painter))).toEqual([[[1, 0], [0, 0.5]]]);
+  expect(lines_of(rotate90(line_painter))).toEqual([[[1, 0], [0.5, 1]]]);
+});
+
+test('beside and below divide the frame into halves', () => {
+  expect(lines_of(beside(line_painter, line_painter))).toEqual([
+    [[0, 0], [0.5, 0.5]],
+    [[0.5, 0], [1, 0.5]],
+  ]);
+  expect(lines_of(below(line_painter, flip_vert(line_painter)))).toEqual([
+    [[0, 0], [1, 0.25]],
+    [[0, 1], [1, 0.75]],
+  ]);
+});
+
+test('splits draw more and smaller copies of the painter', () => {
+  expect(lines_of(right_split(line_painter, 0))).toHaveLength(1);
+  expect(lines_of(right_split(line_painter, 2))).toHaveLength(7);
+  // 1 + 2 * up_split(1) + 2 * right_split(1) + corner_split(1) = 1 + 6 + 6 + 6
+  expect(lines_of(corner_split(line_painter, 2))).toHaveLength(19);
+  expect(() => right_split(line_painter, -1)).toThrow(
+    'right_split is expecting a non-negative integer, but encountered -1',
+  );
+});
+
+describe('image_painter', () => {
+  const pixels = list(list(list(255, 0, 0), list(0, 255, 0, 128)));
+
+  test('paints its image into the frame it is given', () => {
+    const drawing = display_painter(beside(image_painter(pixels), rotate90(line_painter)))(unit_frame) as any;
+    expect(drawing.toReplString()).toBe('<ImageDrawing>');
+    expect(drawing.lines).toHaveLength(1);
+    expect(drawing.images).toHaveLength(1);
+    const [image] = drawing.images;
+    expect(image.source).toMatchObject({
+      width: 2,
+      height: 1,
+    });
+    expect(Array.from(image.source.pixels)).toEqual([255, 0, 0, 255, 0, 255, 0, 128]);
+    expect(image.origin).toEqual(pair(0, 0));
+    expect(image.edge1).toEqual(pair(0.5, 0));
+    expect(image.edge2).toEqual(pair(0, 1));
+  });
+
+  test('keeps the frames of transformed images', () => {
+    const drawing = display_painter(flip_horiz(image_painter('rogers.png')))(unit_frame) as any;
+    expect(drawing.images[0]).toEqual({
+      source: { url: 'rogers.png' },
+      origin: pair(1, 0),
+      edge1: pair(-1, 0),
+      edge2: pair(0, 1),
+    });
+  });
+
+  test('checks the pixels eagerly', () => {
+    expect(() => image_painter(list(list(list(0, 0, 0)), list()))).toThrow(
+      'image_painter is expecting a URL or a list of rows of pixels of the same length',
+    );
+    expect(() => image_painter(list(list(list(0, 0, 300))))).toThrow(
+      'image_painter is expecting pixels with 3 or 4 components from 0 to 255, but the pixel at row 0 and column 0 is 0,0,300',
+    );
+  });
+});
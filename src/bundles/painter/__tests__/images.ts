@@ -0,0 +1,31 @@
+import { canvas_mapping, image_transform } from '../images';
+import { ImageDrawing, type Vector } from '../painter';
+
+const unit_frame: any = [[0, 0], [[1, 0], [[0, 1], null]]];
+
+// Applies the transformation of the canvas to a point of the image
+function apply([a, b, c, d, e, f]: number[], [x, y]: Vector): Vector {
+  return [a * x + c * y + e, b * x + d * y + f];
+}
+
+test('image_transform maps the corners of the image to the corners of the frame', () => {
+  const painted: any = {
+    source: { url: 'image.png' },
+    origin: [1, 1],
+    edge1: [2, 1],
+    edge2: [0, 3],
+  };
+  const transform = image_transform(painted, 200, 100, (x, y) => [x, y]);
+  // the top left corner of the image is at the end of the second edge
+  expect(apply(transform, [0, 0])).toEqual([1, 4]);
+  expect(apply(transform, [200, 0])).toEqual([3, 5]);
+  expect(apply(transform, [0, 100])).toEqual([1, 1]);
+  expect(apply(transform, [200, 100])).toEqual([3, 2]);
+});
+
+test('canvas_mapping fits the drawing into the canvas with the y axis up', () => {
+  const drawing = new ImageDrawing(() => Promise.resolve(), unit_frame, [[[0, 0], [2, 1]]], []);
+  const to_canvas = canvas_mapping(drawing, 220, 120);
+  expect(to_canvas(0, 0)).toEqual([10, 110]);
+  expect(to_canvas(2, 1)).toEqual([210, 10]);
+});
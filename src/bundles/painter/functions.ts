@@ -1,23 +1,110 @@
 /**
  * The module `painter` provides functions for visualizing painters in SICP JS 2.2.4 plots using the plotly.js library.
+ *
+ * A *vector* is a pair of x and y coordinates, made with `pair(x, y)`, and
+ * a *segment* is a pair of a start vector and an end vector. A *frame* is
+ * made of an origin vector and two edge vectors, and a *painter* is a
+ * function that draws lines and images in the frame it is given.
  * @module painter
  */
 
+/* eslint-disable @typescript-eslint/naming-convention */
 import context from 'js-slang/context';
+import {
+  head,
+  is_list,
+  is_pair,
+  list,
+  list_to_vector,
+  pair,
+  tail,
+} from 'js-slang/dist/stdlib/list';
 import Plotly, { type Data, type Layout } from 'plotly.js-dist';
-import { type Frame, LinePlot } from './painter';
+import { export_figure } from '../plotly/export';
+import { draw_image_drawing, to_image_source } from './images';
+import {
+  type Frame,
+  ImageDrawing,
+  LinePlot,
+  type PaintedImage,
+  type Painter,
+  type Segment,
+  type Vector,
+} from './painter';
 
-const drawnPainters: LinePlot[] = [];
+const drawnPainters: (LinePlot | ImageDrawing)[] = [];
 context.moduleContexts.painter.state = {
   drawnPainters,
+  exportFigure: export_figure,
 };
 
-let data: Data = {};
-const x_s: (number | null)[] = [];
-const y_s: (number | null)[] = [];
+// Lines and images drawn by a painter
+type Drawing = {
+  lines: Segment[];
+  images: PaintedImage[];
+};
+
+// Drawing of the painter that is being displayed, if any
+let current_drawing: Drawing | null = null;
+
+function is_vector(v: any): v is Vector {
+  return is_pair(v) && typeof head(v) === 'number' && typeof tail(v) === 'number';
+}
+
+function check_vector(func_name: string, name: string, v: any): void {
+  if (!is_vector(v)) {
+    throw new Error(
+      `${func_name} is expecting ${name} to be a vector made with pair(x, y), but encountered ${v}`,
+    );
+  }
+}
+
+function check_frame(func_name: string, frame: any): void {
+  if (
+    !is_list(frame)
+    || !is_vector(head(frame))
+    || !is_pair(tail(frame))
+    || !is_vector(head(tail(frame)))
+    || !is_pair(tail(tail(frame)))
+    || !is_vector(head(tail(tail(frame))))
+  ) {
+    throw new Error(`${func_name} is expecting a frame made with make_frame, but encountered ${frame}`);
+  }
+}
+
+function check_painter(func_name: string, painter: any): void {
+  if (typeof painter !== 'function') {
+    throw new Error(`${func_name} is expecting a painter, but encountered ${painter}`);
+  }
+}
+
+function check_count(func_name: string, n: any): void {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`${func_name} is expecting a non-negative integer, but encountered ${n}`);
+  }
+}
+
+const origin_frame = (frame: Frame): Vector => head(frame);
+const edge1_frame = (frame: Frame): Vector => head(tail(frame));
+const edge2_frame = (frame: Frame): Vector => head(tail(tail(frame)));
+
+function add_vect(v1: Vector, v2: Vector): Vector {
+  return pair(head(v1) + head(v2), tail(v1) + tail(v2)) as Vector;
+}
+
+function sub_vect(v1: Vector, v2: Vector): Vector {
+  return pair(head(v1) - head(v2), tail(v1) - tail(v2)) as Vector;
+}
+
+function scale_vect(s: number, v: Vector): Vector {
+  return pair(s * head(v), s * tail(v)) as Vector;
+}
+
+const vect = (x: number, y: number): Vector => pair(x, y) as Vector;
 
 /**
- * Draw a line from v_start to v_end
+ * Draw a line from v_start to v_end. Lines can only be drawn by a painter
+ * while it is being displayed with `display_painter`.
  * @param v_start vector of the first point
  * @param v_end vector of the second point
  * @example
@@ -27,45 +114,362 @@ const y_s: (number | null)[] = [];
  * draw_line(v1, v2);
  * ```
  */
-export function draw_line(v_start: number[], v_end: number[]) {
-  console.log(x_s, y_s, v_start, v_end);
-  x_s.push(v_start[0]);
-  x_s.push(v_end[0]);
-  y_s.push(v_start[1]);
-  y_s.push(v_end[1]);
-  x_s.push(null);
-  y_s.push(null);
+export function draw_line(v_start: Vector, v_end: Vector) {
+  check_vector('draw_line', 'v_start', v_start);
+  check_vector('draw_line', 'v_end', v_end);
+  if (current_drawing === null) {
+    throw new Error('draw_line can only draw lines in a painter that is displayed with display_painter');
+  }
+  current_drawing.lines.push([v_start, v_end]);
+}
+
+/**
+ * Returns the frame with the given origin and edges. A point (x, y) of
+ * the unit square is mapped to origin + x * edge1 + y * edge2 in the frame.
+ * @param origin vector of the origin of the frame
+ * @param edge1 vector of the first edge of the frame
+ * @param edge2 vector of the second edge of the frame
+ * @returns the frame
+ * @example
+ * ```
+ * const unit_frame = make_frame(pair(0, 0), pair(1, 0), pair(0, 1));
+ * ```
+ */
+export function make_frame(origin: Vector, edge1: Vector, edge2: Vector): Frame {
+  check_vector('make_frame', 'origin', origin);
+  check_vector('make_frame', 'edge1', edge1);
+  check_vector('make_frame', 'edge2', edge2);
+  return list(origin, edge1, edge2) as Frame;
+}
+
+/**
+ * Returns a function that maps a vector of the unit square into the frame,
+ * so that (0, 0) is mapped to the origin of the frame, and (1, 0) and (0, 1)
+ * to the ends of its edges.
+ * @param frame the frame
+ * @returns function of type Vector → Vector
+ * @example
+ * ```
+ * const frame = make_frame(pair(1, 1), pair(2, 0), pair(0, 2));
+ * frame_coord_map(frame)(pair(0.5, 0.5)); // Returns pair(2, 2)
+ * ```
+ */
+export function frame_coord_map(frame: Frame): (v: Vector) => Vector {
+  check_frame('frame_coord_map', frame);
+  return (v: Vector) => {
+    check_vector('frame_coord_map', 'the vector', v);
+    return add_vect(
+      origin_frame(frame),
+      add_vect(
+        scale_vect(head(v), edge1_frame(frame)),
+        scale_vect(tail(v), edge2_frame(frame)),
+      ),
+    );
+  };
+}
+
+/**
+ * Returns a painter that draws the segments, given in the coordinates of
+ * the unit square, in the frame it is given.
+ * @param segment_list list of segments, each a pair of a start and an end vector
+ * @returns the painter
+ * @example
+ * ```
+ * const x_painter = segments_to_painter(list(
+ *   pair(pair(0, 0), pair(1, 1)),
+ *   pair(pair(0, 1), pair(1, 0))));
+ * ```
+ */
+export function segments_to_painter(segment_list: any): Painter {
+  if (!is_list(segment_list)) {
+    throw new Error(
+      `segments_to_painter is expecting a list of segments, but encountered ${segment_list}`,
+    );
+  }
+  const segments: Segment[] = list_to_vector(segment_list);
+  const index = segments.findIndex(
+    (segment) => !is_pair(segment) || !is_vector(head(segment)) || !is_vector(tail(segment)),
+  );
+  if (index !== -1) {
+    throw new Error(
+      `segments_to_painter is expecting segments made with pair(start, end) of two vectors, but segment ${index} is ${segments[index]}`,
+    );
+  }
+  return (frame: Frame) => {
+    const m = frame_coord_map(frame);
+    segments.forEach((segment) => {
+      draw_line(m(head(segment)), m(tail(segment)));
+    });
+  };
+}
+
+/**
+ * Returns a painter that draws the painter in a new frame inside the frame
+ * it is given. The origin and the ends of the two edges of the new frame
+ * are given in the coordinates of the unit square.
+ * @param painter the painter
+ * @param origin vector of the new origin
+ * @param corner1 vector of the end of the new first edge
+ * @param corner2 vector of the end of the new second edge
+ * @returns the transformed painter
+ * @example
+ * ```
+ * const shrunk = transform_painter(painter, pair(0.5, 0.5), pair(1, 0.5), pair(0.5, 1));
+ * ```
+ */
+export function transform_painter(
+  painter: Painter,
+  origin: Vector,
+  corner1: Vector,
+  corner2: Vector,
+): Painter {
+  check_painter('transform_painter', painter);
+  check_vector('transform_painter', 'origin', origin);
+  check_vector('transform_painter', 'corner1', corner1);
+  check_vector('transform_painter', 'corner2', corner2);
+  return (frame: Frame) => {
+    const m = frame_coord_map(frame);
+    const new_origin = m(origin);
+    painter(make_frame(
+      new_origin,
+      sub_vect(m(corner1), new_origin),
+      sub_vect(m(corner2), new_origin),
+    ));
+  };
+}
+
+/**
+ * Returns a painter that draws the painter upside down.
+ * @param painter the painter
+ * @returns the flipped painter
+ * @example
+ * ```
+ * const upside_down = flip_vert(painter);
+ * ```
+ */
+export function flip_vert(painter: Painter): Painter {
+  check_painter('flip_vert', painter);
+  return transform_painter(painter, vect(0, 1), vect(1, 1), vect(0, 0));
+}
+
+/**
+ * Returns a painter that draws the painter mirrored from left to right.
+ * @param painter the painter
+ * @returns the flipped painter
+ * @example
+ * ```
+ * const mirrored = flip_horiz(painter);
+ * ```
+ */
+export function flip_horiz(painter: Painter): Painter {
+  check_painter('flip_horiz', painter);
+  return transform_painter(painter, vect(1, 0), vect(0, 0), vect(1, 1));
+}
+
+/**
+ * Returns a painter that draws the painter rotated by 90 degrees
+ * counterclockwise.
+ * @param painter the painter
+ * @returns the rotated painter
+ * @example
+ * ```
+ * const rotated = rotate90(painter);
+ * ```
+ */
+export function rotate90(painter: Painter): Painter {
+  check_painter('rotate90', painter);
+  return transform_painter(painter, vect(1, 0), vect(1, 1), vect(0, 0));
+}
+
+/**
+ * Returns a painter that draws painter1 in the left half of the frame and
+ * painter2 in the right half.
+ * @param painter1 the painter on the left
+ * @param painter2 the painter on the right
+ * @returns the combined painter
+ * @example
+ * ```
+ * const pair_of_painters = beside(painter, flip_vert(painter));
+ * ```
+ */
+export function beside(painter1: Painter, painter2: Painter): Painter {
+  check_painter('beside', painter1);
+  check_painter('beside', painter2);
+  const paint_left = transform_painter(painter1, vect(0, 0), vect(0.5, 0), vect(0, 1));
+  const paint_right = transform_painter(painter2, vect(0.5, 0), vect(1, 0), vect(0.5, 1));
+  return (frame: Frame) => {
+    paint_left(frame);
+    paint_right(frame);
+  };
+}
+
+/**
+ * Returns a painter that draws painter1 in the bottom half of the frame
+ * and painter2 in the top half.
+ * @param painter1 the painter at the bottom
+ * @param painter2 the painter at the top
+ * @returns the combined painter
+ * @example
+ * ```
+ * const stacked = below(painter, flip_horiz(painter));
+ * ```
+ */
+export function below(painter1: Painter, painter2: Painter): Painter {
+  check_painter('below', painter1);
+  check_painter('below', painter2);
+  const paint_bottom = transform_painter(painter1, vect(0, 0), vect(1, 0), vect(0, 0.5));
+  const paint_top = transform_painter(painter2, vect(0, 0.5), vect(1, 0.5), vect(0, 1));
+  return (frame: Frame) => {
+    paint_bottom(frame);
+    paint_top(frame);
+  };
+}
+
+/**
+ * Returns a painter that draws the painter on the left, and to its right
+ * two copies of right_split(painter, n - 1) above each other.
+ * @param painter the painter
+ * @param n the number of splits
+ * @returns the split painter
+ * @example
+ * ```
+ * display_painter(right_split(painter, 4))(unit_frame);
+ * ```
+ */
+export function right_split(painter: Painter, n: number): Painter {
+  check_painter('right_split', painter);
+  check_count('right_split', n);
+  if (n === 0) {
+    return painter;
+  }
+  const smaller = right_split(painter, n - 1);
+  return beside(painter, below(smaller, smaller));
+}
+
+// The painter at the bottom, and two copies of up_split(painter, n - 1) above
+function up_split(painter: Painter, n: number): Painter {
+  if (n === 0) {
+    return painter;
+  }
+  const smaller = up_split(painter, n - 1);
+  return below(painter, beside(smaller, smaller));
+}
+
+/**
+ * Returns a painter that draws the painter in the bottom left corner,
+ * splits of it upwards and to the right, and corner_split(painter, n - 1)
+ * in the top right corner.
+ * @param painter the painter
+ * @param n the number of splits
+ * @returns the split painter
+ * @example
+ * ```
+ * display_painter(corner_split(painter, 4))(unit_frame);
+ * ```
+ */
+export function corner_split(painter: Painter, n: number): Painter {
+  check_painter('corner_split', painter);
+  check_count('corner_split', n);
+  if (n === 0) {
+    return painter;
+  }
+  const up = up_split(painter, n - 1);
+  const right = right_split(painter, n - 1);
+  const top_left = beside(up, up);
+  const bottom_right = below(right, right);
+  const corner = corner_split(painter, n - 1);
+  return beside(below(painter, top_left), below(bottom_right, corner));
+}
+
+/**
+ * Returns a painter that draws the image into the frame it is given, with
+ * the bottom left corner of the image at the origin of the frame, and the
+ * bottom and left edges of the image along the two edges of the frame.
+ * The image is stretched and sheared to fill the frame, so all painter
+ * combinators can be used with it. The image is given by its URL, or by
+ * a list of rows of pixels from the top row to the bottom row, where every
+ * pixel is a list of its red, green and blue components, and optionally
+ * its alpha component, from 0 to 255.
+ * @param url_or_pixels URL of the image, or list of rows of pixels
+ * @returns the painter
+ * @example
+ * ```
+ * const rogers = image_painter("https://example.com/rogers.png");
+ * display_painter(corner_split(rogers, 4))(unit_frame);
+ * const checker = image_painter(list(
+ *   list(list(0, 0, 0), list(255, 255, 255)),
+ *   list(list(255, 255, 255), list(0, 0, 0))));
+ * ```
+ */
+export function image_painter(url_or_pixels: any): Painter {
+  const source = to_image_source(url_or_pixels);
+  return (frame: Frame) => {
+    check_frame('image_painter', frame);
+    if (current_drawing === null) {
+      throw new Error(
+        'image_painter can only draw images in a painter that is displayed with display_painter',
+      );
+    }
+    current_drawing.images.push({
+      source,
+      origin: origin_frame(frame),
+      edge1: edge1_frame(frame),
+      edge2: edge2_frame(frame),
+    });
+  };
 }
 
 /**
  * Returns a function that turns a given Frame into a Drawing, given the
- * painter
+ * painter. Every Drawing only has the lines and images drawn by its painter.
+ * Drawings with images are drawn on a canvas in the Painter tab.
  * @param painter the painter to transform the frame
  * @returns function of type Frame → Drawing
- *  * @example
+ * @example
  * ```
  * display_painter(flipped_outline_painter)(unit_frame);
  * ```
  */
-export function display_painter(painter: (frame: Frame) => void) {
+export function display_painter(painter: Painter) {
+  check_painter('display_painter', painter);
   return (frame: Frame) => {
-    painter(frame);
-    data = {
-      x: x_s,
-      y: y_s,
+    check_frame('display_painter', frame);
+    const drawing: Drawing = {
+      lines: [],
+      images: [],
     };
-    drawnPainters.push(
-      new LinePlot(draw_new_painter, {
-        ...data,
-        mode: 'lines',
-      } as Data, {
-        xaxis: { visible: true },
-        yaxis: {
-          visible: true,
-          scaleanchor: 'x',
-        },
-      }),
-    );
+    // Painters displayed by the painter draw their own lines
+    const outer_drawing = current_drawing;
+    current_drawing = drawing;
+    try {
+      painter(frame);
+    } finally {
+      current_drawing = outer_drawing;
+    }
+    if (drawing.images.length > 0) {
+      const image_drawing = new ImageDrawing(
+        draw_image_drawing,
+        frame,
+        drawing.lines,
+        drawing.images,
+      );
+      drawnPainters.push(image_drawing);
+      return image_drawing;
+    }
+    // Lines are separated by null, so that they are not connected to each other
+    const plot = new LinePlot(draw_new_painter, {
+      x: drawing.lines.flatMap(([start, end]) => [head(start), head(end), null]),
+      y: drawing.lines.flatMap(([start, end]) => [tail(start), tail(end), null]),
+      mode: 'lines',
+    } as Data, {
+      xaxis: { visible: true },
+      yaxis: {
+        visible: true,
+        scaleanchor: 'x',
+      },
+    });
+    drawnPainters.push(plot);
+    return plot;
   };
 }
 
@@ -0,0 +1,217 @@
+/**
+ * Images of image painters, and drawing them on a canvas. Every image is
+ * mapped into its frame with an affine transformation, so that its bottom
+ * left corner is at the origin of the frame, and its bottom and left edges
+ * lie along the two edges of the frame.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import { is_list, list_to_vector } from 'js-slang/dist/stdlib/list';
+import type {
+  ImageDrawing,
+  ImageSource,
+  PaintedImage,
+  Vector,
+} from './painter';
+
+// Empty space around the drawing on the canvas, in pixels
+const canvas_padding = 10;
+
+/** Affine transformation of the canvas, as given to `setTransform` */
+export type Transform = [a: number, b: number, c: number, d: number, e: number, f: number];
+
+// Images that are loaded or being loaded, by their source
+const loaded_images = new WeakMap<ImageSource, Promise<CanvasImageSource>>();
+
+// The elements of a list or an array, or null if x is neither
+function to_array(x: any): any[] | null {
+  if (is_list(x)) {
+    return list_to_vector(x);
+  }
+  return Array.isArray(x) ? x : null;
+}
+
+function is_component(x: any): boolean {
+  return typeof x === 'number' && x >= 0 && x <= 255;
+}
+
+/**
+ * Returns the image given to `image_painter`, which is a URL or a list
+ * of rows of pixels. Every pixel is a list of its red, green and blue
+ * components, and optionally its alpha component, from 0 to 255.
+ */
+export function to_image_source(url_or_pixels: any): ImageSource {
+  if (typeof url_or_pixels === 'string') {
+    return { url: url_or_pixels };
+  }
+  const rows = to_array(url_or_pixels)
+    ?.map(to_array);
+  if (
+    !rows
+    || rows.length === 0
+    || rows.some((row) => row === null || row.length === 0 || row.length !== rows[0]!.length)
+  ) {
+    throw new Error(
+      `image_painter is expecting a URL or a list of rows of pixels of the same length, but encountered ${url_or_pixels}`,
+    );
+  }
+  const height = rows.length;
+  const width = rows[0]!.length;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  rows.forEach((row, y) => {
+    row!.forEach((pixel, x) => {
+      const components = to_array(pixel);
+      if (
+        components === null
+        || (components.length !== 3 && components.length !== 4)
+        || !components.every(is_component)
+      ) {
+        throw new Error(
+          `image_painter is expecting pixels with 3 or 4 components from 0 to 255, but the pixel at row ${y} and column ${x} is ${pixel}`,
+        );
+      }
+      pixels.set(components.length === 3 ? [...components, 255] : components, (y * width + x) * 4);
+    });
+  });
+  return {
+    width,
+    height,
+    pixels,
+  };
+}
+
+function load_image(source: ImageSource): Promise<CanvasImageSource> {
+  let image = loaded_images.get(source);
+  if (image === undefined) {
+    if ('url' in source) {
+      image = new Promise((resolve, reject) => {
+        const element = new Image();
+        element.onload = () => resolve(element);
+        element.onerror = () => reject(new Error(`Could not load the image at ${source.url}`));
+        element.src = source.url;
+      });
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = source.width;
+      canvas.height = source.height;
+      canvas.getContext('2d')!
+        .putImageData(new ImageData(source.pixels, source.width, source.height), 0, 0);
+      image = Promise.resolve(canvas);
+    }
+    loaded_images.set(source, image);
+  }
+  return image;
+}
+
+/**
+ * Returns the transformation of the canvas that draws an image of the given
+ * width and height in pixels into the frame of the painted image, where
+ * to_canvas maps the coordinates of the drawing to the canvas
+ */
+export function image_transform(
+  { origin, edge1, edge2 }: PaintedImage,
+  width: number,
+  height: number,
+  to_canvas: (x: number, y: number) => Vector,
+): Transform {
+  // The top left corner of the image is at the end of the second edge
+  const [top_left_x, top_left_y] = to_canvas(origin[0] + edge2[0], origin[1] + edge2[1]);
+  const [top_right_x, top_right_y] = to_canvas(
+    origin[0] + edge1[0] + edge2[0],
+    origin[1] + edge1[1] + edge2[1],
+  );
+  const [bottom_left_x, bottom_left_y] = to_canvas(origin[0], origin[1]);
+  return [
+    (top_right_x - top_left_x) / width,
+    (top_right_y - top_left_y) / width,
+    (bottom_left_x - top_left_x) / height,
+    (bottom_left_y - top_left_y) / height,
+    top_left_x,
+    top_left_y,
+  ];
+}
+
+// The points that the drawing has to show: its frame, lines and images
+function drawing_points({ frame, lines, images }: ImageDrawing): Vector[] {
+  const parallelogram = (origin: Vector, edge1: Vector, edge2: Vector): Vector[] => [
+    origin,
+    [origin[0] + edge1[0], origin[1] + edge1[1]],
+    [origin[0] + edge2[0], origin[1] + edge2[1]],
+    [origin[0] + edge1[0] + edge2[0], origin[1] + edge1[1] + edge2[1]],
+  ];
+  const [origin, [edge1, [edge2]]] = frame;
+  return [
+    ...parallelogram(origin, edge1, edge2),
+    ...lines.flat(),
+    ...images.flatMap((image) => parallelogram(image.origin, image.edge1, image.edge2)),
+  ];
+}
+
+/**
+ * Returns the function that maps coordinates of the drawing to the canvas,
+ * which shows all of the drawing as large as it fits, with the y axis
+ * pointing up
+ */
+export function canvas_mapping(
+  drawing: ImageDrawing,
+  canvas_width: number,
+  canvas_height: number,
+): (x: number, y: number) => Vector {
+  const points = drawing_points(drawing);
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const min_x = Math.min(...xs);
+  const min_y = Math.min(...ys);
+  const width = Math.max(...xs) - min_x || 1;
+  const height = Math.max(...ys) - min_y || 1;
+  const scale = Math.min(
+    (canvas_width - 2 * canvas_padding) / width,
+    (canvas_height - 2 * canvas_padding) / height,
+  );
+  const offset_x = (canvas_width - scale * width) / 2;
+  const offset_y = (canvas_height - scale * height) / 2;
+  return (x, y) => [
+    offset_x + scale * (x - min_x),
+    canvas_height - offset_y - scale * (y - min_y),
+  ];
+}
+
+/**
+ * Draws the images and lines of the drawing on the canvas, once all of
+ * its images have been loaded
+ */
+export async function draw_image_drawing(
+  canvas: HTMLCanvasElement,
+  drawing: ImageDrawing,
+): Promise<void> {
+  const images = await Promise.all(drawing.images.map(({ source }) => load_image(source)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return;
+  }
+  const to_canvas = canvas_mapping(drawing, canvas.width, canvas.height);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  drawing.images.forEach((painted, i) => {
+    const image = images[i];
+    const { source } = painted;
+    const [width, height] = 'url' in source
+      ? [(image as HTMLImageElement).naturalWidth, (image as HTMLImageElement).naturalHeight]
+      : [source.width, source.height];
+    // Pixels given by the program are drawn as sharp squares
+    ctx.imageSmoothingEnabled = 'url' in source;
+    ctx.setTransform(...image_transform(painted, width, height, to_canvas));
+    ctx.drawImage(image, 0, 0);
+  });
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.strokeStyle = '#1f77b4';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  drawing.lines.forEach(([start, end]) => {
+    ctx.moveTo(...to_canvas(...start));
+    ctx.lineTo(...to_canvas(...end));
+  });
+  ctx.stroke();
+}
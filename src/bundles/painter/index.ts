@@ -3,4 +3,22 @@
  * @author Sourabh Raj Jaiswal
  */
 
-export { draw_line, display_painter } from './functions';
+export {
+  // Drawing
+  draw_line,
+  display_painter,
+  // Frames
+  make_frame,
+  frame_coord_map,
+  // Painters
+  segments_to_painter,
+  image_painter,
+  transform_painter,
+  flip_vert,
+  flip_horiz,
+  rotate90,
+  beside,
+  below,
+  right_split,
+  corner_split,
+} from './functions';
@@ -17,5 +17,54 @@ export class LinePlot implements ReplResult {
   };
 }
 
-type Vector = number[];
-export type Frame = Vector[];
+/**
+ * Drawing of a painter that paints images, which is drawn on a canvas
+ * instead of a Plotly plot
+ */
+export class ImageDrawing implements ReplResult {
+  constructor(
+    private readonly drawFn: (canvas: HTMLCanvasElement, drawing: ImageDrawing) => Promise<void>,
+    public readonly frame: Frame,
+    public readonly lines: Segment[],
+    public readonly images: PaintedImage[],
+  ) {}
+
+  public static isImageDrawing = (obj: any): obj is ImageDrawing => obj.images !== undefined;
+
+  public toReplString = () => '<ImageDrawing>';
+
+  public draw = (canvas: HTMLCanvasElement) => this.drawFn(canvas, this);
+}
+
+/** Vector from the origin to the point (x, y), made with `pair(x, y)` */
+export type Vector = [x: number, y: number];
+
+/** Line segment from the start to the end vector, made with `pair(start, end)` */
+export type Segment = [start: Vector, end: Vector];
+
+/** Frame with an origin and two edges, made with `make_frame` */
+export type Frame = [origin: Vector, rest: [edge1: Vector, rest: [edge2: Vector, rest: null]]];
+
+/** Function that draws an image in the given frame */
+export type Painter = (frame: Frame) => void;
+
+/**
+ * Image of an image painter, given by the URL of the image or by the
+ * colours of its pixels from the top row to the bottom row
+ */
+export type ImageSource = {
+  url: string;
+} | {
+  width: number;
+  height: number;
+  // RGBA components of the pixels, row by row
+  pixels: Uint8ClampedArray;
+};
+
+/** Image that has been painted into the frame with the given origin and edges */
+export type PaintedImage = {
+  source: ImageSource;
+  origin: Vector;
+  edge1: Vector;
+  edge2: Vector;
+};
@@ -0,0 +1,260 @@
+import { list, pair } from 'js-slang/dist/stdlib/list';
+import { Point } from '../../curve/curves_webgl';
+import {
+  animate_plot,
+  bar_chart,
+  box_plot,
+  draw_plot,
+  heatmap,
+  histogram,
+  implicit_plot,
+  parametric_surface,
+  polar_plot,
+  scatter_plot,
+  slider_plot,
+  surface,
+  with_axis_labels,
+  with_log_scale,
+  with_title,
+} from '../builders';
+import { drawnPlots } from '../functions';
+
+jest.mock('plotly.js-dist', () => ({
+  __esModule: true,
+  default: {
+    newPlot: jest.fn(),
+    react: jest.fn(),
+  },
+}));
+
+describe('plot builders', () => {
+  test('scatter_plot accepts lists and arrays', () => {
+    const plot = scatter_plot(list(1, 2, 3), [4, 5, 6]);
+    expect(plot.data).toEqual([{
+      type: 'scatter',
+      mode: 'markers',
+      x: [1, 2, 3],
+      y: [4, 5, 6],
+    }]);
+    expect(plot.toReplString()).toBe('<Plot>');
+  });
+
+  test('scatter_plot checks its data eagerly', () => {
+    expect(() => scatter_plot(list(1, 2), list(1, 'two'))).toThrow(
+      'scatter_plot is expecting ys to be a list of numbers, but element 1 is two',
+    );
+    expect(() => scatter_plot(list(1, 2), list(1))).toThrow(
+      'scatter_plot is expecting xs and ys to have the same length, but they have 2 and 1 elements',
+    );
+    expect(() => scatter_plot(5, list(1))).toThrow(
+      'scatter_plot is expecting xs to be a list of numbers, but encountered 5',
+    );
+  });
+
+  test('bar_chart takes labels and values', () => {
+    expect(bar_chart(list('a', 'b'), list(1, 2)).data).toEqual([{
+      type: 'bar',
+      x: ['a', 'b'],
+      y: [1, 2],
+    }]);
+    expect(() => bar_chart(list('a', null), list(1, 2))).toThrow(
+      'bar_chart is expecting labels to be a list of strings or numbers, but element 1 is null',
+    );
+  });
+
+  test('histogram divides the range of values into bins', () => {
+    const [trace] = histogram(list(0, 1, 2, 10), 5).data as any[];
+    expect(trace.xbins.start).toBe(0);
+    expect(trace.xbins.size).toBe(2);
+    expect(trace.xbins.end).toBeGreaterThan(10);
+    expect(() => histogram(list(1, 2), 0)).toThrow(
+      'histogram is expecting the number of bins to be a positive integer, but encountered 0',
+    );
+    expect(() => histogram(list(), 3)).toThrow('histogram is expecting at least one value');
+  });
+
+  test('histogram takes lists too long to spread as arguments', () => {
+    let values: any = null;
+    for (let i = 0; i < 200000; i += 1) {
+      values = pair(i % 1000, values);
+    }
+    const [trace] = histogram(values, 10).data as any[];
+    expect(trace.xbins.start).toBe(0);
+    expect(trace.xbins.size).toBeCloseTo(99.9);
+  });
+
+  test('heatmap needs rows of the same length', () => {
+    expect(heatmap(list(list(1, 2), list(3, 4))).data).toEqual([{
+      type: 'heatmap',
+      z: [[1, 2], [3, 4]],
+    }]);
+    expect(() => heatmap(list(list(1, 2), list(3)))).toThrow(
+      'heatmap is expecting matrix to have at least one row, and rows of the same length',
+    );
+    expect(() => heatmap(list(list(1, 2), list(3, 'x')))).toThrow(
+      'heatmap is expecting row 1 to be a list of numbers, but element 1 is x',
+    );
+  });
+
+  test('box_plot makes one box per group', () => {
+    const plot = box_plot(list(pair('A', list(1, 2)), pair('B', list(3))));
+    expect(plot.data).toEqual([
+      {
+        type: 'box',
+        name: 'A',
+        y: [1, 2],
+      },
+      {
+        type: 'box',
+        name: 'B',
+        y: [3],
+      },
+    ]);
+    expect(() => box_plot(list(pair('A', list(1, true))))).toThrow(
+      'box_plot is expecting the numbers of A to be a list of numbers, but element 1 is true',
+    );
+  });
+
+  test('surface samples the function over the ranges', () => {
+    const [trace] = surface((x, y) => x + 10 * y, pair(0, 1), list(-1, 1)).data as any[];
+    expect(trace.x).toHaveLength(50);
+    expect(trace.z[0][0]).toBe(-10);
+    expect(trace.z[49][49]).toBe(11);
+    expect(() => surface((x, y) => x + y, pair(1, 0), pair(0, 1))).toThrow(
+      'surface is expecting x_range to be a pair of a minimum and a larger maximum',
+    );
+    expect(() => surface(() => NaN, pair(0, 1), pair(0, 1))).toThrow(
+      'surface is expecting f to return numbers, but f(0, 0) is NaN',
+    );
+  });
+});
+
+describe('curves and functions', () => {
+  test('polar_plot samples the radius over the angles', () => {
+    const [trace] = polar_plot((theta) => 2 * theta, pair(0, Math.PI)).data as any[];
+    expect(trace.type).toBe('scatterpolar');
+    expect(trace.r).toHaveLength(500);
+    expect(trace.r[499]).toBeCloseTo(2 * Math.PI);
+    expect(trace.theta[499]).toBeCloseTo(180);
+    expect(() => polar_plot(() => 'far' as any, pair(0, 1))).toThrow(
+      'polar_plot is expecting r to return numbers, but r(0) is far',
+    );
+  });
+
+  test('parametric_surface takes points of the curve module', () => {
+    const plane = (u: number, v: number) => new Point(u, v, u + v, [0, 0, 0, 1]);
+    const [trace] = parametric_surface(plane).data as any[];
+    expect(trace.type).toBe('surface');
+    expect(trace.z[0][0]).toBe(0);
+    expect(trace.z[49][49]).toBe(2);
+    expect(trace.x[0][49]).toBe(1);
+    expect(() => parametric_surface((u, v) => (u + v) as any)).toThrow(
+      'parametric_surface is expecting f to return points, but f(0, 0) is 0',
+    );
+  });
+
+  test('implicit_plot draws the curve where f is 0 with equal axes', () => {
+    const plot = implicit_plot((x, y) => x * x + y * y - 1, pair(-2, 2), pair(-1, 1));
+    const [trace] = plot.data as any[];
+    expect(trace.type).toBe('contour');
+    expect(trace.contours).toMatchObject({
+      start: 0,
+      end: 0,
+    });
+    expect(trace.z[0][0]).toBeCloseTo(4);
+    expect(plot.layout.yaxis).toMatchObject({ scaleanchor: 'x' });
+    expect(() => implicit_plot((x, y) => x - y, pair(0, 1), 2)).toThrow(
+      'implicit_plot is expecting y_range to be a pair of a minimum and a larger maximum, but encountered 2',
+    );
+  });
+});
+
+describe('layout helpers', () => {
+  const plot = scatter_plot(list(1, 10), list(2, 20));
+
+  test('return new plots with titles, labels and scales', () => {
+    const labelled = with_log_scale(
+      with_axis_labels(with_title(plot, 'Growth'), 'x', 'y'),
+      true,
+      false,
+    );
+    expect(labelled.layout).toEqual({
+      title: { text: 'Growth' },
+      xaxis: {
+        title: { text: 'x' },
+        type: 'log',
+      },
+      yaxis: {
+        title: { text: 'y' },
+        type: 'linear',
+      },
+    });
+    expect(plot.layout).toEqual({});
+  });
+
+  test('label the scene axes of 3D plots', () => {
+    const labelled = with_axis_labels(surface((x, y) => x * y, pair(0, 1), pair(0, 1)), 'a', 'b');
+    expect((labelled.layout.scene as any).xaxis.title.text).toBe('a');
+    expect(labelled.layout.xaxis).toBeUndefined();
+  });
+
+  test('check their arguments', () => {
+    expect(() => with_title(5 as any, 'title')).toThrow(
+      'with_title is expecting a plot, but encountered 5',
+    );
+    expect(() => with_title(plot, 3 as any)).toThrow(
+      'with_title is expecting title to be a string, but encountered 3',
+    );
+    expect(() => with_log_scale(plot, 'yes' as any, false)).toThrow(
+      'with_log_scale is expecting log_x and log_y to be booleans, but encountered yes and false',
+    );
+  });
+
+  test('draw_plot adds the plot to the tab', () => {
+    expect(draw_plot(plot)).toBe(plot);
+    expect(drawnPlots).toContain(plot);
+  });
+});
+
+describe('animations and sliders', () => {
+  const frame = (t: number) => scatter_plot(list(0, 1), list(0, t));
+
+  test('animate_plot computes each frame once', () => {
+    const frame_fn = jest.fn(frame);
+    const animation = animate_plot(frame_fn, 2, 10);
+    expect(drawnPlots).toContain(animation);
+    expect(animation.getFrame(0.55).data[0]).toMatchObject({ y: [0, 0.5] });
+    animation.getFrame(0.58);
+    // frames at 0 and 0.5 seconds
+    expect(frame_fn).toHaveBeenCalledTimes(2);
+    // the last frame is at the end of the animation
+    expect(animation.getFrame(5).data[0]).toMatchObject({ y: [0, 2] });
+  });
+
+  test('animate_plot checks its arguments and the first frame', () => {
+    expect(() => animate_plot((t) => t as any, 2, 10)).toThrow(
+      'animate_plot is expecting frame_fn to return a plot, but frame_fn(0) is 0',
+    );
+    expect(() => animate_plot(frame, 0, 10)).toThrow(
+      'animate_plot is expecting duration to be a positive number, but encountered 0',
+    );
+    expect(() => animate_plot(frame, 1, 100)).toThrow(
+      'animate_plot is expecting fps to be an integer from 1 to 60, but encountered 100',
+    );
+  });
+
+  test('slider_plot checks its arguments and the initial plot', () => {
+    const plot = slider_plot(frame, 1, 3, 0.5);
+    expect(drawnPlots).toContain(plot);
+    expect(plot.toReplString()).toBe('<SliderPlot>');
+    expect(() => slider_plot(() => null as any, 1, 3, 0.5)).toThrow(
+      'slider_plot is expecting plot_fn to return a plot, but plot_fn(1) is null',
+    );
+    expect(() => slider_plot(frame, 3, 1, 0.5)).toThrow(
+      'slider_plot is expecting min to be a number smaller than max, but encountered 3 and 1',
+    );
+    expect(() => slider_plot(frame, 1, 3, 0)).toThrow(
+      'slider_plot is expecting step to be a positive number, but encountered 0',
+    );
+  });
+});
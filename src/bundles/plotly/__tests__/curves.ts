@@ -0,0 +1,46 @@
+import { Point } from '../../curve/curves_webgl';
+import {
+  draw_3D_points,
+  draw_connected_2d,
+  draw_connected_2d_full_view,
+  drawnPlots,
+} from '../functions';
+
+jest.mock('plotly.js-dist', () => ({
+  __esModule: true,
+  default: { newPlot: jest.fn() },
+}));
+
+const red_line = (t: number) => new Point(t, 2 * t, 0, [1, 0, 0, 1]);
+
+test('curves of the curve module are sampled with their colours', () => {
+  const plot = draw_connected_2d(4)(red_line);
+  expect(drawnPlots).toContain(plot);
+  expect(plot.data).toMatchObject({
+    type: 'scatter',
+    mode: 'lines',
+    x: [0, 0.25, 0.5, 0.75, 1],
+    y: [0, 0.5, 1, 1.5, 2],
+  });
+  expect((plot.data as any).marker.color[0]).toBe('rgb(255,0,0)');
+  expect(draw_3D_points(2)(red_line).data).toMatchObject({ z: [0, 0, 0] });
+});
+
+test('the drawers show a proportional full view or a stretched full view', () => {
+  const proportional = draw_connected_2d(4)(red_line).layout;
+  expect(proportional.xaxis?.range).toBeUndefined();
+  expect(proportional.yaxis?.scaleanchor).toBe('x');
+
+  const full_view = draw_connected_2d_full_view(4)(red_line).layout;
+  expect(full_view.xaxis?.range).toBeUndefined();
+  expect(full_view.yaxis?.scaleanchor).toBeUndefined();
+});
+
+test('the drawers check the number of points and the curve', () => {
+  expect(() => draw_connected_2d(0)).toThrow(
+    'draw_connected_2d is expecting a positive whole number of points, but encountered 0',
+  );
+  expect(() => draw_connected_2d_full_view(10)((t) => t as any)).toThrow(
+    'draw_connected_2d_full_view is expecting a curve that returns points, but the curve at 0 is 0',
+  );
+});
@@ -0,0 +1,45 @@
+import Plotly from 'plotly.js-dist';
+import { list } from 'js-slang/dist/stdlib/list';
+import { scatter_plot, with_title } from '../builders';
+import { export_plot_json } from '../export';
+import { drawnPlots, new_plot_json } from '../functions';
+
+jest.mock('plotly.js-dist', () => ({
+  __esModule: true,
+  default: { newPlot: jest.fn() },
+}));
+
+test('export_plot_json returns the data and layout of the plot', () => {
+  const plot = with_title(scatter_plot(list(1, 2), list(3, 4)), 'Points');
+  expect(JSON.parse(export_plot_json(plot))).toEqual({
+    data: [{
+      type: 'scatter',
+      mode: 'markers',
+      x: [1, 2],
+      y: [3, 4],
+    }],
+    layout: { title: { text: 'Points' } },
+  });
+  expect(() => export_plot_json(42 as any)).toThrow(
+    'export_plot_json is expecting a plot, but encountered 42',
+  );
+});
+
+test('new_plot_json draws exported plots and arrays of traces', () => {
+  const plot = with_title(scatter_plot(list(1, 2), list(3, 4)), 'Points');
+  new_plot_json(export_plot_json(plot));
+  drawnPlots[drawnPlots.length - 1].draw('plotDiv0');
+  expect(Plotly.newPlot).toHaveBeenLastCalledWith('plotDiv0', plot.data, plot.layout);
+
+  const traces = [{
+    z: [[1, 2], [3, 4]],
+    type: 'surface',
+  }];
+  new_plot_json(traces);
+  drawnPlots[drawnPlots.length - 1].draw('plotDiv1');
+  expect(Plotly.newPlot).toHaveBeenLastCalledWith('plotDiv1', traces, {});
+
+  expect(() => new_plot_json('{"data": [')).toThrow(
+    'new_plot_json is expecting the JSON of a plot, but encountered {"data": [',
+  );
+});
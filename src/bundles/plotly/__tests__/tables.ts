@@ -0,0 +1,141 @@
+import { list } from 'js-slang/dist/stdlib/list';
+import { drawnPlots } from '../functions';
+import {
+  csv_to_table,
+  draw_table,
+  list_to_table,
+  table_column,
+  table_columns,
+  table_filter,
+  table_group_by,
+  table_sort,
+  table_to_list,
+  table_to_plot,
+} from '../tables';
+
+jest.mock('plotly.js-dist', () => ({
+  __esModule: true,
+  default: { newPlot: jest.fn() },
+}));
+
+const scores = csv_to_table('name,class,score\nAda,A,90\nAlan,B,70\nGrace,A,80\nEdsger,B,85\n');
+
+describe('csv_to_table', () => {
+  test('reads the header and turns numbers into numbers', () => {
+    expect(scores.columns).toEqual(['name', 'class', 'score']);
+    expect(scores.rows[0]).toEqual(['Ada', 'A', 90]);
+    expect(scores.toReplString()).toBe('<Table with 4 rows and columns name, class, score>');
+  });
+
+  test('handles quoted fields', () => {
+    const table = csv_to_table(
+      'title,"year, first published"\r\n"Structure and Interpretation of ""Programs""",1985\r\n'
+      + '"Two\nlines","1996"\r\n',
+    );
+    expect(table.columns).toEqual(['title', 'year, first published']);
+    expect(table.rows).toEqual([
+      ['Structure and Interpretation of "Programs"', 1985],
+      // a quoted number stays a string
+      ['Two\nlines', '1996'],
+    ]);
+  });
+
+  test('skips empty lines and keeps empty fields', () => {
+    const table = csv_to_table('a,b\n\n1,\n\n,x');
+    expect(table.rows).toEqual([[1, ''], ['', 'x']]);
+  });
+
+  test('reports text that is not CSV', () => {
+    expect(() => csv_to_table('a,b\n1,2\n3')).toThrow(
+      'csv_to_table is expecting every row to have 2 values like the first line, but line 3 has 1',
+    );
+    expect(() => csv_to_table('a,b\n"1,2')).toThrow(
+      'csv_to_table is expecting text in CSV format, but the quoted field on line 2 is not closed',
+    );
+    expect(() => csv_to_table('a,b\n"1"2,3')).toThrow(
+      'csv_to_table is expecting text in CSV format, but line 2 has 2 after a closing quote',
+    );
+    expect(() => csv_to_table('a,a\n1,2')).toThrow(
+      'csv_to_table is expecting the column names to be different, but a appears more than once',
+    );
+    expect(() => csv_to_table('\n')).toThrow(
+      'csv_to_table is expecting a line with the names of the columns',
+    );
+  });
+});
+
+describe('lists', () => {
+  test('list_to_table and table_to_list convert to and from lists', () => {
+    const rows = list(list('Ada', 90), list('Alan', 85));
+    const table = list_to_table(list('name', 'score'), rows);
+    expect(table_to_list(table)).toEqual(rows);
+    expect(table_columns(table)).toEqual(list('name', 'score'));
+    expect(() => list_to_table(list('name', 'score'), list(list('Ada')))).toThrow(
+      'list_to_table is expecting every row to be a list of 2 numbers or strings, but row 0 is Ada',
+    );
+  });
+
+  test('table_column returns the values of a column', () => {
+    expect(table_column(scores, 'score')).toEqual(list(90, 70, 80, 85));
+    expect(() => table_column(scores, 'age')).toThrow(
+      'table_column is expecting a column of the table, which are name, class, score, but encountered age',
+    );
+  });
+});
+
+describe('queries', () => {
+  test('table_filter keeps the rows that satisfy the predicate', () => {
+    const passed = table_filter(scores, (row) => row('score') >= 80);
+    expect(table_column(passed, 'name')).toEqual(list('Ada', 'Grace', 'Edsger'));
+    expect(scores.rows).toHaveLength(4);
+    expect(() => table_filter(scores, (row) => row('age'))).toThrow(
+      'table_filter is expecting a column of the table',
+    );
+  });
+
+  test('table_sort sorts stably in either order', () => {
+    expect(table_column(table_sort(scores, 'score', true), 'score')).toEqual(list(70, 80, 85, 90));
+    expect(table_column(table_sort(scores, 'class', false), 'name')).toEqual(
+      list('Alan', 'Edsger', 'Ada', 'Grace'),
+    );
+    const mixed = csv_to_table('x\nb\n2\na\n1');
+    expect(table_column(table_sort(mixed, 'x', true), 'x')).toEqual(list(1, 2, 'a', 'b'));
+  });
+
+  test('table_group_by combines the values of every group', () => {
+    expect(table_group_by(scores, 'class', 'score', 'mean').rows).toEqual([['A', 85], ['B', 77.5]]);
+    expect(table_group_by(scores, 'class', 'score', 'sum').columns).toEqual(['class', 'sum_score']);
+    expect(table_group_by(scores, 'class', 'name', 'count').rows).toEqual([['A', 2], ['B', 2]]);
+    expect(() => table_group_by(scores, 'class', 'name', 'sum')).toThrow(
+      'table_group_by is expecting column name to contain numbers, but row 0 has Ada',
+    );
+    expect(() => table_group_by(scores, 'class', 'score', 'median')).toThrow(
+      'table_group_by is expecting one of sum, mean, count, but encountered median',
+    );
+  });
+});
+
+describe('plotting', () => {
+  test('table_to_plot plots two columns with labelled axes', () => {
+    const plot = table_to_plot(scores, 'name', 'score', 'bar');
+    expect(plot.data).toEqual([{
+      type: 'bar',
+      x: ['Ada', 'Alan', 'Grace', 'Edsger'],
+      y: [90, 70, 80, 85],
+    }]);
+    expect(plot.layout.xaxis).toEqual({ title: { text: 'name' } });
+    expect(() => table_to_plot(scores, 'name', 'score', 'line')).toThrow(
+      'table_to_plot is expecting column name to contain numbers, but row 0 has Ada',
+    );
+  });
+
+  test('draw_table draws a table trace with the cells by column', () => {
+    const plot = draw_table(list_to_table(list('a', 'b'), list(list(1, 'x'), list(2, 'y'))));
+    expect(drawnPlots).toContain(plot);
+    expect(plot.data).toEqual([{
+      type: 'table',
+      header: { values: ['a', 'b'] },
+      cells: { values: [[1, 2], ['x', 'y']] },
+    }]);
+  });
+});
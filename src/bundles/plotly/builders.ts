@@ -0,0 +1,633 @@
+/**
+ * Plot builders of the plotly module. Each builder checks its input and
+ * returns a Plot, which can be given titles, axis labels and log scales
+ * before it is drawn in the Plotly tab with `draw_plot`. Animated plots and
+ * plots with sliders are made of such Plots, and are drawn right away.
+ *
+ * Data can be given as lists or as arrays.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import {
+  head,
+  is_list,
+  is_pair,
+  list_to_vector,
+  tail,
+} from 'js-slang/dist/stdlib/list';
+import Plotly, { type Data, type Layout } from 'plotly.js-dist';
+import { is_point } from './curve_functions';
+import { drawnPlots } from './functions';
+import {
+  AnimatedPlot,
+  Plot,
+  type Point,
+  SliderPlot,
+} from './plotly';
+
+// Number of samples along each axis of a surface
+const surface_samples = 50;
+
+// Number of samples of the angle of a polar plot
+const polar_samples = 500;
+
+// Number of samples along each axis of an implicit plot
+const implicit_samples = 100;
+
+function draw_new_plot(divId: string, data: Data[], layout: Partial<Layout>) {
+  Plotly.newPlot(divId, data, layout);
+}
+
+// Updates a plot that has been drawn before, for the frames of animations
+function redraw_plot(divId: string, data: Data[], layout: Partial<Layout>) {
+  Plotly.react(divId, data, layout);
+}
+
+export function make_plot(data: Data[], layout: Partial<Layout>): Plot {
+  return new Plot(draw_new_plot, data, layout);
+}
+
+// The elements of a list or an array, or null if x is neither
+export function to_array(x: any): any[] | null {
+  if (is_list(x)) {
+    return list_to_vector(x);
+  }
+  return Array.isArray(x) ? x : null;
+}
+
+function check_array(
+  func_name: string,
+  name: string,
+  x: any,
+  element_name: string,
+  is_element: (element: any) => boolean,
+): any[] {
+  const elements = to_array(x);
+  if (elements === null) {
+    throw new Error(
+      `${func_name} is expecting ${name} to be a list of ${element_name}, but encountered ${x}`,
+    );
+  }
+  const index = elements.findIndex((element) => !is_element(element));
+  if (index !== -1) {
+    throw new Error(
+      `${func_name} is expecting ${name} to be a list of ${element_name}, but element ${index} is ${elements[index]}`,
+    );
+  }
+  return elements;
+}
+
+function is_number(x: any): boolean {
+  return typeof x === 'number' && Number.isFinite(x);
+}
+
+function check_numbers(func_name: string, name: string, x: any): number[] {
+  return check_array(func_name, name, x, 'numbers', is_number);
+}
+
+function check_same_length(
+  func_name: string,
+  names: [string, string],
+  xs: any[],
+  ys: any[],
+): void {
+  if (xs.length !== ys.length) {
+    throw new Error(
+      `${func_name} is expecting ${names[0]} and ${names[1]} to have the same length, but they have ${xs.length} and ${ys.length} elements`,
+    );
+  }
+}
+
+function check_plot(func_name: string, plot: any): void {
+  if (!(plot instanceof Plot)) {
+    throw new Error(`${func_name} is expecting a plot, but encountered ${plot}`);
+  }
+}
+
+// A function to Plots that checks every Plot it returns
+function checked_plot_fn(
+  func_name: string,
+  fn_name: string,
+  fn: any,
+): (x: number) => Plot {
+  if (typeof fn !== 'function') {
+    throw new Error(`${func_name} is expecting ${fn_name} to be a function, but encountered ${fn}`);
+  }
+  return (x) => {
+    const plot = fn(x);
+    if (!(plot instanceof Plot)) {
+      throw new Error(
+        `${func_name} is expecting ${fn_name} to return a plot, but ${fn_name}(${x}) is ${plot}`,
+      );
+    }
+    return plot;
+  };
+}
+
+function check_string(func_name: string, name: string, x: any): void {
+  if (typeof x !== 'string') {
+    throw new Error(`${func_name} is expecting ${name} to be a string, but encountered ${x}`);
+  }
+}
+
+// The minimum and maximum of a range given as a pair or a list of two numbers
+function check_range(func_name: string, name: string, range: any): [number, number] {
+  if (is_pair(range)) {
+    const min = head(range);
+    const max = is_pair(tail(range)) ? head(tail(range)) : tail(range);
+    if (is_number(min) && is_number(max) && min < max) {
+      return [min, max];
+    }
+  }
+  throw new Error(
+    `${func_name} is expecting ${name} to be a pair of a minimum and a larger maximum, but encountered ${range}`,
+  );
+}
+
+// Evenly spaced numbers from min to max, including both
+function sample(min: number, max: number, count: number): number[] {
+  return Array.from(
+    { length: count },
+    (_, i) => min + ((max - min) * i) / (count - 1),
+  );
+}
+
+// Whether the plot is drawn in 3D, where axes belong to the scene
+function is_3d(plot: Plot): boolean {
+  return plot.data.some((trace) => trace.type === 'surface' || trace.type === 'scatter3d');
+}
+
+// The plot with the given changes to the layout of its x and y axes
+function with_axes(
+  plot: Plot,
+  x_axis: Record<string, any>,
+  y_axis: Record<string, any>,
+): Plot {
+  const { layout } = plot;
+  if (is_3d(plot)) {
+    const scene: Record<string, any> = layout.scene ?? {};
+    return make_plot(plot.data, {
+      ...layout,
+      scene: {
+        ...scene,
+        xaxis: {
+          ...scene.xaxis,
+          ...x_axis,
+        },
+        yaxis: {
+          ...scene.yaxis,
+          ...y_axis,
+        },
+      },
+    });
+  }
+  return make_plot(plot.data, {
+    ...layout,
+    xaxis: {
+      ...layout.xaxis,
+      ...x_axis,
+    },
+    yaxis: {
+      ...layout.yaxis,
+      ...y_axis,
+    },
+  });
+}
+
+/**
+ * Returns a scatter plot of points, where the i-th point has the i-th
+ * element of xs as its x coordinate and the i-th element of ys as its
+ * y coordinate.
+ *
+ * @param xs list of x coordinates
+ * @param ys list of y coordinates, as many as x coordinates
+ * @return a scatter plot
+ * @example draw_plot(scatter_plot(list(1, 2, 3, 4), list(1, 4, 9, 16)));
+ */
+export function scatter_plot(xs: any, ys: any): Plot {
+  const x = check_numbers('scatter_plot', 'xs', xs);
+  const y = check_numbers('scatter_plot', 'ys', ys);
+  check_same_length('scatter_plot', ['xs', 'ys'], x, y);
+  return make_plot([{
+    type: 'scatter',
+    mode: 'markers',
+    x,
+    y,
+  }], {});
+}
+
+/**
+ * Returns a bar chart with one bar for every label, as high as the value
+ * at the same position.
+ *
+ * @param labels list of labels of the bars, strings or numbers
+ * @param values list of heights of the bars, as many as labels
+ * @return a bar chart
+ * @example draw_plot(bar_chart(list("apples", "pears"), list(5, 3)));
+ */
+export function bar_chart(labels: any, values: any): Plot {
+  const x = check_array(
+    'bar_chart',
+    'labels',
+    labels,
+    'strings or numbers',
+    (label) => typeof label === 'string' || is_number(label),
+  );
+  const y = check_numbers('bar_chart', 'values', values);
+  check_same_length('bar_chart', ['labels', 'values'], x, y);
+  return make_plot([{
+    type: 'bar',
+    x,
+    y,
+  }], {});
+}
+
+/**
+ * Returns a histogram of the values, which divides the range from the
+ * smallest to the largest value into the given number of equally wide bins,
+ * and shows how many values fall into each bin.
+ *
+ * @param values list of numbers
+ * @param bins number of bins, a positive integer
+ * @return a histogram
+ * @example draw_plot(histogram(list(1, 2, 2, 3, 3, 3, 4), 4));
+ */
+export function histogram(values: any, bins: number): Plot {
+  const x = check_numbers('histogram', 'values', values);
+  if (x.length === 0) {
+    throw new Error('histogram is expecting at least one value');
+  }
+  if (!Number.isInteger(bins) || bins < 1) {
+    throw new Error(
+      `histogram is expecting the number of bins to be a positive integer, but encountered ${bins}`,
+    );
+  }
+  // Not Math.min(...x), which overflows the stack for long lists
+  const min = x.reduce((a, b) => Math.min(a, b));
+  const max = x.reduce((a, b) => Math.max(a, b));
+  // A single value still gets a bin of width 1
+  const size = max > min ? (max - min) / bins : 1;
+  return make_plot([{
+    type: 'histogram',
+    x,
+    xbins: {
+      start: min,
+      // Slightly beyond the largest value, which belongs to the last bin
+      end: max + size / 1e6,
+      size,
+    },
+  }], { bargap: 0.05 });
+}
+
+/**
+ * Returns a heatmap of a matrix of numbers, given as a list of rows from
+ * the bottom row to the top row. Each number is shown as a coloured square,
+ * where larger numbers have brighter colours.
+ *
+ * @param matrix list of rows, each a list of numbers of the same length
+ * @return a heatmap
+ * @example draw_plot(heatmap(list(list(1, 2, 3), list(4, 5, 6))));
+ */
+export function heatmap(matrix: any): Plot {
+  const rows = check_array('heatmap', 'matrix', matrix, 'rows', (row) => to_array(row) !== null)
+    .map((row, i) => check_numbers('heatmap', `row ${i}`, row));
+  if (rows.length === 0 || rows.some((row) => row.length !== rows[0].length)) {
+    throw new Error(
+      'heatmap is expecting matrix to have at least one row, and rows of the same length',
+    );
+  }
+  return make_plot([{
+    type: 'heatmap',
+    z: rows,
+  }], {});
+}
+
+/**
+ * Returns a box plot with one box for every group of numbers. Each box
+ * spans the middle half of its group, with a line at the median, and
+ * whiskers that reach the smallest and largest values that are not outliers.
+ *
+ * @param groups list of pairs of a label and a list of numbers
+ * @return a box plot
+ * @example draw_plot(box_plot(list(pair("A", list(1, 2, 3, 9)), pair("B", list(2, 4, 4, 5)))));
+ */
+export function box_plot(groups: any): Plot {
+  const entries = check_array(
+    'box_plot',
+    'groups',
+    groups,
+    'pairs of a label and a list of numbers',
+    (group) => is_pair(group) && (typeof head(group) === 'string' || is_number(head(group))),
+  );
+  const data = entries.map((group): Data => ({
+    type: 'box',
+    name: `${head(group)}`,
+    y: check_numbers('box_plot', `the numbers of ${head(group)}`, tail(group)),
+  }));
+  return make_plot(data, { showlegend: false });
+}
+
+/**
+ * Returns a surface plot of the function f of two variables, where the
+ * height of the surface above the point (x, y) is f(x, y). The function
+ * is sampled on a grid of 50 by 50 points over the x and y ranges.
+ *
+ * @param f function from x and y coordinates to a number
+ * @param x_range pair of the smallest and largest x coordinate
+ * @param y_range pair of the smallest and largest y coordinate
+ * @return a surface plot
+ * @example draw_plot(surface((x, y) => x * x - y * y, pair(-1, 1), pair(-1, 1)));
+ */
+export function surface(f: (x: number, y: number) => number, x_range: any, y_range: any): Plot {
+  if (typeof f !== 'function') {
+    throw new Error(`surface is expecting a function of x and y, but encountered ${f}`);
+  }
+  const [x_min, x_max] = check_range('surface', 'x_range', x_range);
+  const [y_min, y_max] = check_range('surface', 'y_range', y_range);
+  const x = sample(x_min, x_max, surface_samples);
+  const y = sample(y_min, y_max, surface_samples);
+  const z = y.map((y_value) => x.map((x_value) => {
+    const value = f(x_value, y_value);
+    if (!is_number(value)) {
+      throw new Error(
+        `surface is expecting f to return numbers, but f(${x_value}, ${y_value}) is ${value}`,
+      );
+    }
+    return value;
+  }));
+  return make_plot([{
+    type: 'surface',
+    x,
+    y,
+    z,
+  }], {});
+}
+
+/**
+ * Returns a polar plot of the function r, which gives the distance from
+ * the origin of the curve at every angle in radians. The function is
+ * sampled at 500 angles over the angle range.
+ *
+ * @param r function from an angle in radians to a distance
+ * @param theta_range pair of the smallest and largest angle
+ * @return a polar plot
+ * @example draw_plot(polar_plot(theta => theta, pair(0, 6 * math_PI)));
+ */
+export function polar_plot(r: (theta: number) => number, theta_range: any): Plot {
+  if (typeof r !== 'function') {
+    throw new Error(`polar_plot is expecting a function of the angle, but encountered ${r}`);
+  }
+  const [theta_min, theta_max] = check_range('polar_plot', 'theta_range', theta_range);
+  const theta = sample(theta_min, theta_max, polar_samples);
+  const radii = theta.map((angle) => {
+    const value = r(angle);
+    if (!is_number(value)) {
+      throw new Error(`polar_plot is expecting r to return numbers, but r(${angle}) is ${value}`);
+    }
+    return value;
+  });
+  return make_plot([{
+    type: 'scatterpolar',
+    mode: 'lines',
+    r: radii,
+    // Plotly draws angles in degrees
+    theta: theta.map((angle) => (angle * 180) / Math.PI),
+  }], {});
+}
+
+/**
+ * Returns a plot of the parametric surface f, which gives the point of the
+ * surface at every u and v from 0 to 1. Points are made with `make_3D_point`
+ * of the curve module. The function is sampled on a grid of 50 by 50 points.
+ *
+ * @param f function from u and v to a 3D point
+ * @return a plot of the surface
+ * @example
+ * ```
+ * // a sphere
+ * draw_plot(parametric_surface((u, v) => make_3D_point(
+ *   math_sin(math_PI * u) * math_cos(2 * math_PI * v),
+ *   math_sin(math_PI * u) * math_sin(2 * math_PI * v),
+ *   math_cos(math_PI * u))));
+ * ```
+ */
+export function parametric_surface(f: (u: number, v: number) => Point): Plot {
+  if (typeof f !== 'function') {
+    throw new Error(`parametric_surface is expecting a function of u and v, but encountered ${f}`);
+  }
+  const steps = sample(0, 1, surface_samples);
+  const points = steps.map((v) => steps.map((u) => {
+    const point = f(u, v);
+    if (!is_point(point)) {
+      throw new Error(
+        `parametric_surface is expecting f to return points, but f(${u}, ${v}) is ${point}`,
+      );
+    }
+    return point;
+  }));
+  return make_plot([{
+    type: 'surface',
+    x: points.map((row) => row.map((point) => point.x)),
+    y: points.map((row) => row.map((point) => point.y)),
+    z: points.map((row) => row.map((point) => point.z)),
+    showscale: false,
+  }], {});
+}
+
+/**
+ * Returns a plot of the curve where the function f of two variables is 0,
+ * such as the circle where x * x + y * y - 1 is 0. The function is sampled
+ * on a grid of 100 by 100 points over the x and y ranges, and the axes
+ * have the same scale.
+ *
+ * @param f function from x and y coordinates to a number
+ * @param x_range pair of the smallest and largest x coordinate
+ * @param y_range pair of the smallest and largest y coordinate
+ * @return a plot of the curve
+ * @example draw_plot(implicit_plot((x, y) => x * x + y * y - 1, pair(-2, 2), pair(-2, 2)));
+ */
+export function implicit_plot(
+  f: (x: number, y: number) => number,
+  x_range: any,
+  y_range: any,
+): Plot {
+  if (typeof f !== 'function') {
+    throw new Error(`implicit_plot is expecting a function of x and y, but encountered ${f}`);
+  }
+  const [x_min, x_max] = check_range('implicit_plot', 'x_range', x_range);
+  const [y_min, y_max] = check_range('implicit_plot', 'y_range', y_range);
+  const x = sample(x_min, x_max, implicit_samples);
+  const y = sample(y_min, y_max, implicit_samples);
+  const z = y.map((y_value) => x.map((x_value) => {
+    const value = f(x_value, y_value);
+    if (!is_number(value)) {
+      throw new Error(
+        `implicit_plot is expecting f to return numbers, but f(${x_value}, ${y_value}) is ${value}`,
+      );
+    }
+    return value;
+  }));
+  return make_plot([{
+    type: 'contour',
+    x,
+    y,
+    z,
+    // A single contour line where f is 0
+    contours: {
+      coloring: 'lines',
+      start: 0,
+      end: 0,
+      size: 1,
+    },
+    line: { width: 2 },
+    showscale: false,
+  }], {
+    xaxis: { range: [x_min, x_max] },
+    yaxis: {
+      range: [y_min, y_max],
+      scaleanchor: 'x',
+    },
+  });
+}
+
+/**
+ * Returns the plot with the given title above it.
+ *
+ * @param plot the plot
+ * @param title the title
+ * @return the plot with the title
+ * @example draw_plot(with_title(bar_chart(list("a", "b"), list(1, 2)), "Votes"));
+ */
+export function with_title(plot: Plot, title: string): Plot {
+  check_plot('with_title', plot);
+  check_string('with_title', 'title', title);
+  return make_plot(plot.data, {
+    ...plot.layout,
+    title: { text: title },
+  });
+}
+
+/**
+ * Returns the plot with the given labels on its x and y axes.
+ *
+ * @param plot the plot
+ * @param x_label label of the x axis
+ * @param y_label label of the y axis
+ * @return the plot with the axis labels
+ * @example draw_plot(with_axis_labels(scatter_plot(list(1, 2), list(3, 4)), "time (s)", "distance (m)"));
+ */
+export function with_axis_labels(plot: Plot, x_label: string, y_label: string): Plot {
+  check_plot('with_axis_labels', plot);
+  check_string('with_axis_labels', 'x_label', x_label);
+  check_string('with_axis_labels', 'y_label', y_label);
+  return with_axes(plot, { title: { text: x_label } }, { title: { text: y_label } });
+}
+
+/**
+ * Returns the plot with logarithmic scales on the chosen axes, where every
+ * step along the axis multiplies the value instead of adding to it.
+ * Only positive values can be shown on a logarithmic scale.
+ *
+ * @param plot the plot
+ * @param log_x whether the x axis has a logarithmic scale
+ * @param log_y whether the y axis has a logarithmic scale
+ * @return the plot with the chosen scales
+ * @example draw_plot(with_log_scale(scatter_plot(list(1, 10, 100), list(1, 2, 3)), true, false));
+ */
+export function with_log_scale(plot: Plot, log_x: boolean, log_y: boolean): Plot {
+  check_plot('with_log_scale', plot);
+  if (typeof log_x !== 'boolean' || typeof log_y !== 'boolean') {
+    throw new Error(
+      `with_log_scale is expecting log_x and log_y to be booleans, but encountered ${log_x} and ${log_y}`,
+    );
+  }
+  return with_axes(
+    plot,
+    { type: log_x ? 'log' : 'linear' },
+    { type: log_y ? 'log' : 'linear' },
+  );
+}
+
+/**
+ * Draws the plot in the Plotly tab.
+ *
+ * @param plot the plot
+ * @return the plot
+ * @example draw_plot(scatter_plot(list(1, 2, 3), list(2, 4, 6)));
+ */
+export function draw_plot(plot: Plot): Plot {
+  check_plot('draw_plot', plot);
+  drawnPlots.push(plot);
+  return plot;
+}
+
+/**
+ * Draws an animated plot in the Plotly tab, whose frames are the plots
+ * returned by frame_fn. At every frame, frame_fn is applied to the time
+ * in seconds since the start of the animation, from 0 up to the duration.
+ * The Plotly tab has controls to play, pause and scrub through the animation.
+ *
+ * @param frame_fn function from time in seconds to the plot at that time
+ * @param duration duration of the animation in seconds
+ * @param fps number of frames per second, from 1 to 60
+ * @return the animated plot
+ * @example animate_plot(t => scatter_plot(list(0, 1, 2), list(0, t, 2 * t)), 5, 10);
+ */
+export function animate_plot(
+  frame_fn: (t: number) => Plot,
+  duration: number,
+  fps: number,
+): AnimatedPlot {
+  const checked_frame_fn = checked_plot_fn('animate_plot', 'frame_fn', frame_fn);
+  if (!is_number(duration) || duration <= 0) {
+    throw new Error(
+      `animate_plot is expecting duration to be a positive number, but encountered ${duration}`,
+    );
+  }
+  if (!Number.isInteger(fps) || fps < 1 || fps > 60) {
+    throw new Error(
+      `animate_plot is expecting fps to be an integer from 1 to 60, but encountered ${fps}`,
+    );
+  }
+  const animation = new AnimatedPlot(redraw_plot, checked_frame_fn, duration, fps);
+  // Errors in the first frame are reported right away
+  animation.getFrame(0);
+  drawnPlots.push(animation);
+  return animation;
+}
+
+/**
+ * Draws a plot in the Plotly tab with a slider for a parameter. Whenever
+ * the slider is moved, plot_fn is applied to its value, and the plot it
+ * returns is shown. The slider goes from min to max in steps of step.
+ *
+ * @param plot_fn function from the value of the parameter to a plot
+ * @param min smallest value of the parameter
+ * @param max largest value of the parameter
+ * @param step difference between consecutive values of the parameter
+ * @return the plot with a slider
+ * @example slider_plot(a => surface((x, y) => a * x * y, pair(-1, 1), pair(-1, 1)), 0, 5, 0.5);
+ */
+export function slider_plot(
+  plot_fn: (value: number) => Plot,
+  min: number,
+  max: number,
+  step: number,
+): SliderPlot {
+  const checked_plot = checked_plot_fn('slider_plot', 'plot_fn', plot_fn);
+  if (!is_number(min) || !is_number(max) || min >= max) {
+    throw new Error(
+      `slider_plot is expecting min to be a number smaller than max, but encountered ${min} and ${max}`,
+    );
+  }
+  if (!is_number(step) || step <= 0) {
+    throw new Error(
+      `slider_plot is expecting step to be a positive number, but encountered ${step}`,
+    );
+  }
+  // Errors for the initial value are reported right away
+  checked_plot(min);
+  const plot = new SliderPlot(redraw_plot, checked_plot, min, max, step);
+  drawnPlots.push(plot);
+  return plot;
+}
@@ -1,85 +1,25 @@
 import Plotly, { type Data, type Layout } from 'plotly.js-dist';
-import { type Curve, CurvePlot, type Point } from './plotly';
+import type { Curve, Point } from '../curve/curves_webgl';
+import { CurvePlot } from './plotly';
 
-export function x_of(pt: Point): number {
-  return pt.x;
+// Whether x is a Point made by the curve module
+export function is_point(x: any): x is Point {
+  return x !== null
+    && typeof x === 'object'
+    && typeof x.x === 'number'
+    && typeof x.y === 'number'
+    && typeof x.z === 'number'
+    && Array.isArray(x.color);
 }
 
-/**
- * Retrieves the y-coordinate of a given Point.
- *
- * @param p given point
- * @returns y-coordinate of the Point
- * @example
- * ```
- * const point = make_color_point(1, 2, 3, 50, 100, 150);
- * y_of(point); // Returns 2
- * ```
- */
-export function y_of(pt: Point): number {
-  return pt.y;
+// The color of a Point, whose components are from 0 to 1, in CSS
+export function point_color(point: Point): string {
+  const [r, g, b] = point.color;
+  return `rgb(${Math.round(r * 255)},${Math.round(g * 255)},${Math.round(b * 255)})`;
 }
 
-/**
- * Retrieves the z-coordinate of a given Point.
- *
- * @param p given point
- * @returns z-coordinate of the Point
- * @example
- * ```
- * const point = make_color_point(1, 2, 3, 50, 100, 150);
- * z_of(point); // Returns 3
- * ```
- */
-export function z_of(pt: Point): number {
-  return pt.z;
-}
-
-/**
- * Retrieves the red component of a given Point.
- *
- * @param p given point
- * @returns Red component of the Point
- * @example
- * ```
- * const point = make_color_point(1, 2, 3, 50, 100, 150);
- * r_of(point); // Returns 50
- * ```
- */
-export function r_of(pt: Point): number {
-  return pt.color.r * 255;
-}
-
-/**
- * Retrieves the green component of a given Point.
- *
- * @param p given point
- * @returns Green component of the Point
- * @example
- * ```
- * const point = make_color_point(1, 2, 3, 50, 100, 150);
- * g_of(point); // Returns 100
- * ```
- */
-export function g_of(pt: Point): number {
-  return pt.color.g * 255;
-}
-
-/**
- * Retrieves the blue component of a given Point.
- *
- * @param p given point
- * @returns Blue component of the Point
- * @example
- * ```
- * const point = make_color_point(1, 2, 3, 50, 100, 150);
- * b_of(point); // Returns 150
- * ```
- */
-export function b_of(pt: Point): number {
-  return pt.color.b * 255;
-}
 export function generatePlot(
+  func_name: string,
   type: string,
   numPoints: number,
   config: Data,
@@ -92,11 +32,17 @@ export function generatePlot(
   let z_s: number[] = [];
   let color_s: string[] = [];
   for (let i = 0; i <= numPoints; i += 1) {
-    const point = func(i / numPoints);
-    x_s.push(x_of(point));
-    y_s.push(y_of(point));
-    z_s.push(z_of(point));
-    color_s.push(`rgb(${r_of(point)},${g_of(point)},${b_of(point)})`);
+    const t = i / numPoints;
+    const point = func(t);
+    if (!is_point(point)) {
+      throw new Error(
+        `${func_name} is expecting a curve that returns points, but the curve at ${t} is ${point}`,
+      );
+    }
+    x_s.push(point.x);
+    y_s.push(point.y);
+    z_s.push(point.z);
+    color_s.push(point_color(point));
   }
   const plotlyData: Data = {
     x: x_s,
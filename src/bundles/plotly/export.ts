@@ -0,0 +1,110 @@
+/**
+ * Saving figures of the plotly module. A figure is the data and layout of
+ * a plot, which can be saved as JSON and drawn again with `new_plot_json`.
+ * The tabs of the plotly and painter modules save drawn plots as images
+ * and JSON with `export_figure`, which they find in the module state.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import Plotly, { type Data, type Layout } from 'plotly.js-dist';
+import { CurvePlot, Plot } from './plotly';
+
+export type Figure = {
+  data: Data[];
+  layout: Partial<Layout>;
+};
+
+export type ExportFormat = 'png' | 'svg' | 'json';
+
+/**
+ * Saves the figure drawn in the div with the given id as a file, with
+ * the given name and the format as its extension
+ */
+export type FigureExporter = (divId: string, format: ExportFormat, filename: string) => Promise<void>;
+
+export function figure_to_json(figure: Figure): string {
+  return JSON.stringify(figure);
+}
+
+/**
+ * Returns the figure in the data given to `new_plot_json`, which is the
+ * array of traces, a figure, or the JSON of a figure
+ */
+export function to_figure(func_name: string, x: any): Figure {
+  let value = x;
+  if (typeof x === 'string') {
+    try {
+      value = JSON.parse(x);
+    } catch {
+      throw new Error(`${func_name} is expecting the JSON of a plot, but encountered ${x}`);
+    }
+  }
+  if (value !== null && typeof value === 'object' && Array.isArray(value.data)) {
+    return {
+      data: value.data,
+      layout: value.layout ?? {},
+    };
+  }
+  return {
+    data: value,
+    layout: {},
+  };
+}
+
+function download_text(text: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export const export_figure: FigureExporter = async (divId, format, filename) => {
+  // Plotly keeps the data and layout of the figure in its div
+  const div = document.getElementById(divId) as any;
+  if (!div || !div.data) {
+    throw new Error('The plot has not been drawn yet');
+  }
+  if (format === 'json') {
+    download_text(figure_to_json({
+      data: div.data,
+      layout: div.layout,
+    }), `${filename}.json`);
+    return;
+  }
+  await Plotly.downloadImage(div, {
+    format,
+    filename,
+    width: div.offsetWidth || 700,
+    height: div.offsetHeight || 450,
+  });
+};
+
+/**
+ * Returns the data and layout of the plot as a string of JSON, which can
+ * be saved, put into reports, and drawn again with `new_plot_json`.
+ *
+ * @param plot the plot
+ * @return the JSON of the plot
+ * @example
+ * ```
+ * const json = export_plot_json(scatter_plot(list(1, 2), list(3, 4)));
+ * new_plot_json(json); // draws the same plot
+ * ```
+ */
+export function export_plot_json(plot: Plot | CurvePlot): string {
+  if (plot instanceof Plot) {
+    return figure_to_json({
+      data: plot.data,
+      layout: plot.layout,
+    });
+  }
+  if (plot instanceof CurvePlot) {
+    return figure_to_json({
+      data: [plot.data],
+      layout: plot.layout,
+    });
+  }
+  throw new Error(`export_plot_json is expecting a plot, but encountered ${plot}`);
+}
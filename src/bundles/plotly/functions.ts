@@ -6,17 +6,22 @@
 import context from 'js-slang/context';
 import Plotly, { type Data, type Layout } from 'plotly.js-dist';
 import {
+  type AnimatedPlot,
   type Curve,
   type CurvePlot,
   type CurvePlotFunction,
   DrawnPlot,
   type ListOfPairs,
+  type Plot,
+  type SliderPlot,
 } from './plotly';
 import { generatePlot } from './curve_functions';
+import { export_figure, type Figure, to_figure } from './export';
 
-const drawnPlots: (DrawnPlot | CurvePlot)[] = [];
+export const drawnPlots: (DrawnPlot | CurvePlot | Plot | AnimatedPlot | SliderPlot)[] = [];
 context.moduleContexts.plotly.state = {
   drawnPlots,
+  exportFigure: export_figure,
 };
 
 /**
@@ -230,10 +235,11 @@ export function new_plot(data: ListOfPairs): void {
  *  | 'waterfall';
  *
  * ```
- * @param data The data as an array of json objects having some or all of the given fields
+ * @param data The data as an array of json objects having some or all of the given fields,
+ *             or a plot saved with `export_plot_json`
  */
 export function new_plot_json(data: any): void {
-  drawnPlots.push(new DrawnPlot(draw_new_plot_json, data));
+  drawnPlots.push(new DrawnPlot(draw_new_plot_json, to_figure('new_plot_json', data)));
 }
 
 
@@ -248,11 +254,11 @@ function draw_new_plot(data: ListOfPairs, divId: string) {
 
 /**
  *
- * @param data The data object in json to be used by plotly
+ * @param figure The data and layout in json to be used by plotly
  * @param divId The id of the div element on which the plot will be displayed
  */
-function draw_new_plot_json(data: any, divId: string) {
-  Plotly.newPlot(divId, data);
+function draw_new_plot_json(figure: Figure, divId: string) {
+  Plotly.newPlot(divId, figure.data, figure.layout);
 }
 
 /**
@@ -282,14 +288,24 @@ function add_fields_to_data(convertedData: Data, data: ListOfPairs) {
 }
 
 function createPlotFunction(
+  func_name: string,
   type: string,
   config: Data,
   layout: Partial<Layout>,
   is_colored: boolean = false,
 ): (numPoints: number) => CurvePlotFunction {
   return (numPoints: number) => {
+    if (!Number.isInteger(numPoints) || numPoints <= 0) {
+      throw new Error(
+        `${func_name} is expecting a positive whole number of points, but encountered ${numPoints}`,
+      );
+    }
     const func = (curveFunction: Curve) => {
+      if (typeof curveFunction !== 'function') {
+        throw new Error(`${func_name} is expecting a curve, but encountered ${curveFunction}`);
+      }
       const plotDrawn = generatePlot(
+        func_name,
         type,
         numPoints,
         config,
@@ -309,17 +325,19 @@ function createPlotFunction(
 /**
  * Returns a function that turns a given Curve into a Drawing, by sampling the
  * Curve at `num` sample points and connecting each pair with a line.
- * The parts between (0,0) and (1,1) of the resulting Drawing are shown in the window.
+ * The Drawing shows the full curve, scaled proportionally so that circles
+ * stay round, like `draw_connected_full_view_proportional` of the curve module.
  *
  * @param num determines the number of points, lower than 65535, to be sampled.
  * Including 0 and 1, there are `num + 1` evenly spaced sample points
  * @return function of type Curve → Drawing
  * @example
  * ```
- * draw_connected(100)(t => make_point(t, t));
+ * draw_connected_2d(100)(t => make_point(t, t));
  * ```
  */
 export const draw_connected_2d = createPlotFunction(
+  'draw_connected_2d',
   'scatter',
   { mode: 'lines' },
   {
@@ -332,7 +350,31 @@ export const draw_connected_2d = createPlotFunction(
 
 );
 
+/**
+ * Returns a function that turns a given Curve into a Drawing, by sampling the
+ * Curve at `num` sample points and connecting each pair with a line. The Drawing
+ * is stretched to show the full curve and fill the width and height of the plot.
+ *
+ * @param num determines the number of points, lower than 65535, to be sampled.
+ * Including 0 and 1, there are `num + 1` evenly spaced sample points
+ * @return function of type Curve → Drawing
+ * @example
+ * ```
+ * draw_connected_2d_full_view(100)(t => make_point(t, 10 * t));
+ * ```
+ */
+export const draw_connected_2d_full_view = createPlotFunction(
+  'draw_connected_2d_full_view',
+  'scatter',
+  { mode: 'lines' },
+  {
+    xaxis: { visible: false },
+    yaxis: { visible: false },
+  },
+);
+
 export const draw_3D_points = createPlotFunction(
+  'draw_3D_points',
   'scatter3d',
   { mode: 'markers' },
   {
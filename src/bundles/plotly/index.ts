@@ -7,7 +7,48 @@ export {
   new_plot,
   new_plot_json,
   draw_connected_2d,
+  draw_connected_2d_full_view,
   draw_3D_points,
 } from './functions';
 
 export { draw_sound_2d } from './sound_functions';
+
+export { export_plot_json } from './export';
+
+export {
+  // Plot builders
+  bar_chart,
+  box_plot,
+  heatmap,
+  histogram,
+  scatter_plot,
+  surface,
+  // Curves and functions
+  implicit_plot,
+  parametric_surface,
+  polar_plot,
+  // Layout
+  with_axis_labels,
+  with_log_scale,
+  with_title,
+  draw_plot,
+  // Animation and interaction
+  animate_plot,
+  slider_plot,
+} from './builders';
+
+export {
+  // Making tables
+  csv_to_table,
+  list_to_table,
+  // Using tables
+  table_column,
+  table_columns,
+  table_filter,
+  table_group_by,
+  table_sort,
+  table_to_list,
+  // Plotting tables
+  draw_table,
+  table_to_plot,
+} from './tables';
@@ -1,14 +1,18 @@
 
 import { type Data, type Layout } from 'plotly.js-dist';
 import { type ReplResult } from '../../typings/type_helpers';
+import type { Curve } from '../curve/curves_webgl';
+import type { Figure } from './export';
+
+export type { Curve, Point } from '../curve/curves_webgl';
 
 /**
  * Represents plots with a draw method attached
  */
 export class DrawnPlot implements ReplResult {
   drawFn: any;
-  data: ListOfPairs;
-  constructor(drawFn: any, data: ListOfPairs) {
+  data: ListOfPairs | Figure;
+  constructor(drawFn: any, data: ListOfPairs | Figure) {
     this.drawFn = drawFn;
     this.data = data;
   }
@@ -36,25 +40,106 @@ export class CurvePlot implements ReplResult {
   };
 }
 
-export type ListOfPairs = (ListOfPairs | any)[] | null;
-export type Data2d = number[];
-export type Color = { r: number, g: number, b: number };
+/**
+ * Plot made by the plot builders, with its traces and layout
+ */
+export class Plot implements ReplResult {
+  constructor(
+    private readonly plotlyDrawFn: any,
+    public readonly data: Data[],
+    public readonly layout: Partial<Layout>,
+  ) {}
 
-export type DataTransformer = (c: Data2d[]) => Data2d[];
-export type CurvePlotFunction = ((func: Curve) => CurvePlot);
+  public toReplString = () => '<Plot>';
 
-export type Curve = ((n: number) => Point);
-export type CurveTransformer = (c: Curve) => Curve;
+  public draw = (divId: string) => {
+    this.plotlyDrawFn(divId, this.data, this.layout);
+  };
+}
 
+/**
+ * Plot whose data changes over time, made by `animate_plot`
+ */
+export class AnimatedPlot implements ReplResult {
+  // Frames that have been computed, by their index
+  private readonly frames = new Map<number, Plot>();
 
-/** Encapsulates 3D point with RGB values. */
-export class Point implements ReplResult {
   constructor(
-    public readonly x: number,
-    public readonly y: number,
-    public readonly z: number,
-    public readonly color: Color,
+    private readonly plotlyDrawFn: any,
+    private readonly frameFn: (t: number) => Plot,
+    public readonly duration: number,
+    public readonly fps: number,
   ) {}
 
-  public toReplString = () => `(${this.x}, ${this.y}, ${this.z}, Color: ${this.color})`;
+  public static isAnimatedPlot = (obj: any): obj is AnimatedPlot => obj.fps !== undefined;
+
+  public toReplString = () => '<AnimatedPlot>';
+
+  /**
+   * Returns the frame shown at the given time in seconds
+   */
+  public getFrame = (t: number): Plot => {
+    const index = Math.min(Math.floor(t * this.fps), Math.ceil(this.duration * this.fps));
+    let frame = this.frames.get(index);
+    if (frame === undefined) {
+      frame = this.frameFn(index / this.fps);
+      this.frames.set(index, frame);
+    }
+    return frame;
+  };
+
+  public drawFrame = (divId: string, t: number) => {
+    const frame = this.getFrame(t);
+    this.plotlyDrawFn(divId, frame.data, frame.layout);
+  };
+
+  public draw = (divId: string) => {
+    this.drawFrame(divId, 0);
+  };
 }
+
+/**
+ * Plot with a slider for a parameter, made by `slider_plot`
+ */
+export class SliderPlot implements ReplResult {
+  constructor(
+    private readonly plotlyDrawFn: any,
+    private readonly plotFn: (value: number) => Plot,
+    public readonly min: number,
+    public readonly max: number,
+    public readonly step: number,
+  ) {}
+
+  public static isSliderPlot = (obj: any): obj is SliderPlot => obj.step !== undefined;
+
+  public toReplString = () => '<SliderPlot>';
+
+  public drawValue = (divId: string, value: number) => {
+    const plot = this.plotFn(value);
+    this.plotlyDrawFn(divId, plot.data, plot.layout);
+  };
+
+  public draw = (divId: string) => {
+    this.drawValue(divId, this.min);
+  };
+}
+
+/**
+ * Table of named columns, made by `csv_to_table` and `list_to_table`
+ */
+export class Table implements ReplResult {
+  constructor(
+    public readonly columns: string[],
+    public readonly rows: any[][],
+  ) {}
+
+  public toReplString = () => `<Table with ${this.rows.length} rows and columns ${this.columns.join(', ')}>`;
+}
+
+export type ListOfPairs = (ListOfPairs | any)[] | null;
+export type Data2d = number[];
+
+export type DataTransformer = (c: Data2d[]) => Data2d[];
+export type CurvePlotFunction = ((func: Curve) => CurvePlot);
+
+export type CurveTransformer = (c: Curve) => Curve;
@@ -1,16 +1,11 @@
-import context  from 'js-slang/context';
 import Plotly, { type Data, type Layout } from 'plotly.js-dist';
 import { get_duration, get_wave, is_sound } from '../sound';
 import { type Sound } from '../sound/types';
-import { CurvePlot, type DrawnPlot } from './plotly';
+import { drawnPlots } from './functions';
+import { CurvePlot } from './plotly';
 
 const FS: number = 44100; // Output sample rate
 
-const drawnPlots: (DrawnPlot | CurvePlot)[] = [];
-context.moduleContexts.plotly.state = {
-  drawnPlots,
-};
-
 /**
  * Visualizes the sound on a 2d line graph
  * @param sound the sound which is to be visualized on plotly
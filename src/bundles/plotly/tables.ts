@@ -0,0 +1,484 @@
+/**
+ * Tables of the plotly module. A table has named columns and rows of
+ * numbers and strings, and is made from CSV text with `csv_to_table` or
+ * from Source lists with `list_to_table`. Tables can be filtered, sorted
+ * and grouped, turned back into lists, plotted, and drawn in the Plotly tab.
+ *
+ * Tables never change: every function returns a new table.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import { vector_to_list } from 'js-slang/dist/stdlib/list';
+import { type Data } from 'plotly.js-dist';
+import { make_plot, to_array } from './builders';
+import { drawnPlots } from './functions';
+import { type Plot, Table } from './plotly';
+
+type Field = {
+  text: string;
+  quoted: boolean;
+};
+
+type CsvRow = {
+  fields: Field[];
+  // Line of the text on which the row starts, counting from 1
+  line: number;
+};
+
+const aggregates = ['sum', 'mean', 'count'];
+
+const plot_kinds = ['scatter', 'line', 'bar'];
+
+/**
+ * Reads the field in double quotes that starts at the given index of the
+ * text, and returns its text, the index after its closing quote, and the
+ * line of the closing quote.
+ */
+function read_quoted(text: string, start: number, start_line: number) {
+  let field = '';
+  let line = start_line;
+  let i = start + 1;
+  for (;;) {
+    if (i >= text.length) {
+      throw new Error(
+        `csv_to_table is expecting text in CSV format, but the quoted field on line ${start_line} is not closed`,
+      );
+    }
+    if (text[i] === '"' && text[i + 1] === '"') {
+      field += '"';
+      i += 2;
+    } else if (text[i] === '"') {
+      return {
+        text: field,
+        end: i + 1,
+        line,
+      };
+    } else {
+      if (text[i] === '\n') {
+        line += 1;
+      }
+      field += text[i];
+      i += 1;
+    }
+  }
+}
+
+/**
+ * Splits CSV text into rows of fields. Fields are separated by commas and
+ * rows by line breaks. Fields in double quotes can contain commas, line
+ * breaks and double quotes, which are written twice. Empty lines are skipped.
+ */
+function parse_csv(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let fields: Field[] = [];
+  let field: Field = {
+    text: '',
+    quoted: false,
+  };
+  let line = 1;
+  let row_line = 1;
+  let i = 0;
+
+  const end_field = () => {
+    fields.push(field);
+    field = {
+      text: '',
+      quoted: false,
+    };
+  };
+  const end_row = () => {
+    end_field();
+    // A line without any text is not a row
+    if (fields.length > 1 || fields[0].quoted || fields[0].text.trim() !== '') {
+      rows.push({
+        fields,
+        line: row_line,
+      });
+    }
+    fields = [];
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    if (c === '"' && field.text === '' && !field.quoted) {
+      const quoted = read_quoted(text, i, line);
+      field = {
+        text: quoted.text,
+        quoted: true,
+      };
+      i = quoted.end;
+      line = quoted.line;
+      if (i < text.length && text[i] !== ',' && text[i] !== '\n' && text[i] !== '\r') {
+        throw new Error(
+          `csv_to_table is expecting text in CSV format, but line ${line} has ${text[i]} after a closing quote`,
+        );
+      }
+    } else if (c === ',') {
+      end_field();
+      i += 1;
+    } else if (c === '\n' || c === '\r') {
+      end_row();
+      i += c === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      line += 1;
+      row_line = line;
+    } else {
+      field.text += c;
+      i += 1;
+    }
+  }
+  if (fields.length > 0 || field.quoted || field.text !== '') {
+    end_row();
+  }
+  return rows;
+}
+
+// Unquoted fields that look like numbers are numbers, other fields are strings
+function field_value({ text, quoted }: Field): number | string {
+  if (quoted) {
+    return text;
+  }
+  const trimmed = text.trim();
+  const number = Number(trimmed);
+  return trimmed !== '' && Number.isFinite(number) ? number : trimmed;
+}
+
+function is_value(x: any): boolean {
+  return typeof x === 'string' || (typeof x === 'number' && Number.isFinite(x));
+}
+
+function check_columns(func_name: string, columns: any[]): string[] {
+  const index = columns.findIndex((column) => typeof column !== 'string' || column === '');
+  if (index !== -1) {
+    throw new Error(
+      `${func_name} is expecting the column names to be strings, but column ${index} is ${columns[index]}`,
+    );
+  }
+  const duplicate = columns.find((column, i) => columns.indexOf(column) !== i);
+  if (duplicate !== undefined) {
+    throw new Error(
+      `${func_name} is expecting the column names to be different, but ${duplicate} appears more than once`,
+    );
+  }
+  return columns;
+}
+
+function check_table(func_name: string, table: any): void {
+  if (!(table instanceof Table)) {
+    throw new Error(`${func_name} is expecting a table, but encountered ${table}`);
+  }
+}
+
+// The index of the column with the given name
+function column_index(func_name: string, table: Table, name: any): number {
+  const index = table.columns.indexOf(name);
+  if (index === -1) {
+    throw new Error(
+      `${func_name} is expecting a column of the table, which are ${table.columns.join(', ')}, but encountered ${name}`,
+    );
+  }
+  return index;
+}
+
+function column_values(table: Table, index: number): any[] {
+  return table.rows.map((row) => row[index]);
+}
+
+function check_number_column(func_name: string, table: Table, name: string): number[] {
+  const values = column_values(table, column_index(func_name, table, name));
+  const row = values.findIndex((value) => typeof value !== 'number');
+  if (row !== -1) {
+    throw new Error(
+      `${func_name} is expecting column ${name} to contain numbers, but row ${row} has ${values[row]}`,
+    );
+  }
+  return values;
+}
+
+// Numbers come before strings, and each are in increasing order
+function compare_values(a: number | string, b: number | string): number {
+  if (typeof a !== typeof b) {
+    return typeof a === 'number' ? -1 : 1;
+  }
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Returns the table in the CSV text. The first line of the text has the
+ * names of the columns, and every other line has the values of a row,
+ * separated by commas. Values that are numbers become numbers, and other
+ * values, as well as every value in double quotes, become strings.
+ * Values in double quotes can contain commas and line breaks, and a double
+ * quote in such a value is written twice.
+ *
+ * @param text the CSV text
+ * @return the table
+ * @example
+ * ```
+ * const table = csv_to_table("name,score\nAda,90\n\"Lovelace, Ada\",95");
+ * table_column(table, "score"); // Returns list(90, 95)
+ * ```
+ */
+export function csv_to_table(text: string): Table {
+  if (typeof text !== 'string') {
+    throw new Error(`csv_to_table is expecting a string, but encountered ${text}`);
+  }
+  const [header, ...rows] = parse_csv(text);
+  if (header === undefined) {
+    throw new Error('csv_to_table is expecting a line with the names of the columns');
+  }
+  const columns = check_columns(
+    'csv_to_table',
+    header.fields.map(({ text: name }) => name.trim()),
+  );
+  return new Table(columns, rows.map(({ fields, line }) => {
+    if (fields.length !== columns.length) {
+      throw new Error(
+        `csv_to_table is expecting every row to have ${columns.length} values like the first line, but line ${line} has ${fields.length}`,
+      );
+    }
+    return fields.map(field_value);
+  }));
+}
+
+/**
+ * Returns the table with the given names of columns and rows, where every
+ * row is a list of numbers and strings with one value for each column.
+ *
+ * @param columns list of names of the columns
+ * @param rows list of rows, each a list of values
+ * @return the table
+ * @example list_to_table(list("name", "score"), list(list("Ada", 90), list("Alan", 85)));
+ */
+export function list_to_table(columns: any, rows: any): Table {
+  const names = to_array(columns);
+  if (names === null || names.length === 0) {
+    throw new Error(
+      `list_to_table is expecting a non-empty list of names of columns, but encountered ${columns}`,
+    );
+  }
+  check_columns('list_to_table', names);
+  const all_rows = to_array(rows);
+  if (all_rows === null) {
+    throw new Error(`list_to_table is expecting a list of rows, but encountered ${rows}`);
+  }
+  return new Table(names, all_rows.map((row, i) => {
+    const values = to_array(row);
+    if (values === null || values.length !== names.length || !values.every(is_value)) {
+      throw new Error(
+        `list_to_table is expecting every row to be a list of ${names.length} numbers or strings, but row ${i} is ${row}`,
+      );
+    }
+    return values;
+  }));
+}
+
+/**
+ * Returns the rows of the table, as a list of rows that are each a list of
+ * values, one for each column.
+ *
+ * @param table the table
+ * @return list of rows
+ * @example table_to_list(csv_to_table("a,b\n1,2\n3,4")); // Returns list(list(1, 2), list(3, 4))
+ */
+export function table_to_list(table: Table): any {
+  check_table('table_to_list', table);
+  return vector_to_list(table.rows.map((row) => vector_to_list(row)));
+}
+
+/**
+ * Returns the names of the columns of the table as a list.
+ *
+ * @param table the table
+ * @return list of names of columns
+ * @example table_columns(csv_to_table("a,b\n1,2")); // Returns list("a", "b")
+ */
+export function table_columns(table: Table): any {
+  check_table('table_columns', table);
+  return vector_to_list(table.columns);
+}
+
+/**
+ * Returns the values of the column with the given name, from the first
+ * row to the last row, as a list.
+ *
+ * @param table the table
+ * @param name name of the column
+ * @return list of values of the column
+ * @example table_column(csv_to_table("a,b\n1,2\n3,4"), "b"); // Returns list(2, 4)
+ */
+export function table_column(table: Table, name: string): any {
+  check_table('table_column', table);
+  return vector_to_list(column_values(table, column_index('table_column', table, name)));
+}
+
+/**
+ * Returns the table with only the rows for which pred returns true. pred
+ * is applied to every row, given as a function from the name of a column
+ * to the value of the row in that column.
+ *
+ * @param table the table
+ * @param pred function from a row to true or false
+ * @return the table of the rows that satisfy pred
+ * @example table_filter(table, row => row("score") >= 90);
+ */
+export function table_filter(table: Table, pred: (row: (name: string) => any) => boolean): Table {
+  check_table('table_filter', table);
+  if (typeof pred !== 'function') {
+    throw new Error(`table_filter is expecting pred to be a function, but encountered ${pred}`);
+  }
+  return new Table(table.columns, table.rows.filter((row, i) => {
+    const result = pred((name) => row[column_index('table_filter', table, name)]);
+    if (typeof result !== 'boolean') {
+      throw new Error(
+        `table_filter is expecting pred to return true or false, but for row ${i} it returned ${result}`,
+      );
+    }
+    return result;
+  }));
+}
+
+/**
+ * Returns the table with its rows sorted by the values in the given column,
+ * in ascending or descending order. Numbers come before strings, and rows
+ * with equal values stay in the same order.
+ *
+ * @param table the table
+ * @param name name of the column to sort by
+ * @param ascending whether the smallest values come first
+ * @return the sorted table
+ * @example table_sort(table, "score", false);
+ */
+export function table_sort(table: Table, name: string, ascending: boolean): Table {
+  check_table('table_sort', table);
+  const index = column_index('table_sort', table, name);
+  if (typeof ascending !== 'boolean') {
+    throw new Error(`table_sort is expecting ascending to be a boolean, but encountered ${ascending}`);
+  }
+  const order = ascending ? 1 : -1;
+  return new Table(
+    table.columns,
+    [...table.rows].sort((a, b) => order * compare_values(a[index], b[index])),
+  );
+}
+
+/**
+ * Returns a table with one row for every different value in the key column,
+ * in the order in which the values first appear. The second column combines
+ * the values in the value column of the rows with that key: "sum" adds them
+ * up, "mean" takes their average, and "count" counts the rows. The second
+ * column is named after the aggregate and the value column, such as
+ * "mean_score".
+ *
+ * @param table the table
+ * @param key_column name of the column to group by
+ * @param value_column name of the column to combine
+ * @param aggregate "sum", "mean" or "count"
+ * @return the table of groups
+ * @example table_group_by(table, "class", "score", "mean");
+ */
+export function table_group_by(
+  table: Table,
+  key_column: string,
+  value_column: string,
+  aggregate: string,
+): Table {
+  check_table('table_group_by', table);
+  const key_index = column_index('table_group_by', table, key_column);
+  column_index('table_group_by', table, value_column);
+  if (!aggregates.includes(aggregate)) {
+    throw new Error(
+      `table_group_by is expecting one of ${aggregates.join(', ')}, but encountered ${aggregate}`,
+    );
+  }
+  const values = aggregate === 'count'
+    ? table.rows.map(() => 1)
+    : check_number_column('table_group_by', table, value_column);
+
+  const groups = new Map<any, number[]>();
+  table.rows.forEach((row, i) => {
+    const key = row[key_index];
+    const group = groups.get(key);
+    if (group === undefined) {
+      groups.set(key, [values[i]]);
+    } else {
+      group.push(values[i]);
+    }
+  });
+  return new Table(
+    [key_column, `${aggregate}_${value_column}`],
+    [...groups].map(([key, group]) => {
+      const sum = group.reduce((a, b) => a + b, 0);
+      return [key, aggregate === 'mean' ? sum / group.length : sum];
+    }),
+  );
+}
+
+/**
+ * Returns a plot of two columns of the table, with the values of x_column
+ * along the x axis and the values of y_column along the y axis, which are
+ * labelled with the names of the columns. The kind of plot is "scatter"
+ * for points, "line" for points connected by lines, or "bar" for a bar
+ * chart with a bar for every value of x_column.
+ *
+ * @param table the table
+ * @param x_column name of the column along the x axis
+ * @param y_column name of the column along the y axis, which has numbers
+ * @param kind "scatter", "line" or "bar"
+ * @return the plot
+ * @example draw_plot(table_to_plot(table, "year", "population", "line"));
+ */
+export function table_to_plot(
+  table: Table,
+  x_column: string,
+  y_column: string,
+  kind: string,
+): Plot {
+  check_table('table_to_plot', table);
+  if (!plot_kinds.includes(kind)) {
+    throw new Error(
+      `table_to_plot is expecting one of ${plot_kinds.join(', ')}, but encountered ${kind}`,
+    );
+  }
+  const x = kind === 'bar'
+    ? column_values(table, column_index('table_to_plot', table, x_column))
+    : check_number_column('table_to_plot', table, x_column);
+  const y = check_number_column('table_to_plot', table, y_column);
+  return make_plot([kind === 'bar'
+    ? {
+      type: 'bar',
+      x,
+      y,
+    }
+    : {
+      type: 'scatter',
+      mode: kind === 'line' ? 'lines+markers' : 'markers',
+      x,
+      y,
+    }], {
+    xaxis: { title: { text: x_column } },
+    yaxis: { title: { text: y_column } },
+  });
+}
+
+/**
+ * Draws the table in the Plotly tab, with a row of the names of the
+ * columns above the rows of the table.
+ *
+ * @param table the table
+ * @return the plot of the table
+ * @example draw_table(csv_to_table("name,score\nAda,90\nAlan,85"));
+ */
+export function draw_table(table: Table): Plot {
+  check_table('draw_table', table);
+  const plot = make_plot([{
+    type: 'table',
+    header: { values: table.columns },
+    // Plotly takes the cells column by column
+    cells: { values: table.columns.map((_, i) => column_values(table, i)) },
+  } as Data], {});
+  drawnPlots.push(plot);
+  return plot;
+}
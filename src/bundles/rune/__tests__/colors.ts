@@ -0,0 +1,99 @@
+import { list } from 'js-slang/dist/stdlib/list';
+import {
+  beside,
+  blue,
+  color_alpha,
+  export_rune_svg,
+  linear_gradient,
+  overlay,
+  radial_gradient,
+  red,
+  runes_equal,
+  square,
+} from '../functions';
+import type { Rune } from '../rune';
+import { rasterizeRune } from '../runes_raster';
+
+const black = list(0, 0, 0);
+const white = list(1, 1, 1);
+
+// the red values of the pixels of the rune drawn on a 4x4 image, row by row
+function reds(rune: Rune): number[][] {
+  const pixels = rasterizeRune(rune, 4);
+  return [0, 1, 2, 3].map((y) => [0, 1, 2, 3].map((x) => pixels[(y * 4 + x) * 4]));
+}
+
+function pixel(rune: Rune): number[] {
+  return Array.from(rasterizeRune(rune, 1));
+}
+
+describe('color_alpha', () => {
+  test('blends the color with the runes behind it', () => {
+    expect(pixel(color_alpha(square, 1, 0, 0, 0.5)))
+      .toEqual([255, 128, 128, 255]);
+    // the blue rune at the back is lightened to (144, 203, 249)
+    expect(pixel(overlay(color_alpha(square, 1, 0, 0, 0.5), blue(square))))
+      .toEqual([200, 102, 124, 255]);
+  });
+
+  test('keeps translucent runes behind opaque runes in front of them', () => {
+    expect(runes_equal(overlay(blue(square), color_alpha(square, 1, 0, 0, 0.5)), blue(square), 0))
+      .toBe(true);
+  });
+
+  test('adds translucent colors to SVG images', () => {
+    expect(export_rune_svg(color_alpha(square, 1, 0, 0, 0.25)))
+      .toContain('fill="rgb(255,0,0)" fill-opacity="0.25"/>');
+  });
+
+  test('throws for alphas outside [0,1]', () => {
+    expect(() => color_alpha(square, 1, 0, 0, 2))
+      .toThrow('color_alpha can only take alpha in [0,1].');
+  });
+});
+
+describe('linear_gradient', () => {
+  test('goes from the first color to the second in the given direction', () => {
+    expect(reds(linear_gradient(square, black, white, 0)))
+      .toEqual(new Array(4).fill([32, 96, 159, 223]));
+    expect(reds(linear_gradient(square, black, white, Math.PI / 2)))
+      .toEqual([223, 159, 96, 32].map((r) => new Array(4).fill(r)));
+  });
+
+  test('spans the whole rune that it fills', () => {
+    expect(reds(linear_gradient(beside(square, square), black, white, 0)))
+      .toEqual(new Array(4).fill([32, 96, 159, 223]));
+  });
+
+  test('is replaced by colors of the runes that contain it', () => {
+    expect(runes_equal(red(linear_gradient(square, black, white, 0)), red(square), 0))
+      .toBe(true);
+  });
+
+  test('adds gradients to SVG images', () => {
+    const svg = export_rune_svg(linear_gradient(square, black, list(1, 0, 0, 0.5), 0));
+    expect(svg)
+      .toContain('<linearGradient id="gradient0" gradientUnits="userSpaceOnUse" gradientTransform="matrix(512 0 0 -512 0 256)"'
+        + ' x1="0" y1="0" x2="1" y2="0"><stop offset="0" stop-color="rgb(0,0,0)" stop-opacity="1"/>'
+        + '<stop offset="1" stop-color="rgb(255,0,0)" stop-opacity="0.5"/></linearGradient>');
+    expect(svg)
+      .toContain('fill="url(#gradient0)"/>');
+  });
+
+  test('throws for values that are not colors', () => {
+    expect(() => linear_gradient(square, list(0, 0), white, 0))
+      .toThrow('linear_gradient expects colors made with list(r, g, b) or list(r, g, b, a), with values in [0,1].');
+  });
+});
+
+describe('radial_gradient', () => {
+  test('goes from the first color at the center to the second at the sides', () => {
+    expect(reds(radial_gradient(square, black, white)))
+      .toEqual([
+        [255, 202, 202, 255],
+        [202, 90, 90, 202],
+        [202, 90, 90, 202],
+        [255, 202, 202, 255],
+      ]);
+  });
+});
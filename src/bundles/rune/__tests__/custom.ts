@@ -0,0 +1,99 @@
+import { list, pair } from 'js-slang/dist/stdlib/list';
+import {
+  beside,
+  blank,
+  make_bezier_rune,
+  make_path_rune,
+  make_polygon_rune,
+  runes_equal,
+  square,
+  stack,
+} from '../functions';
+import type { Rune } from '../rune';
+
+// the total area of the triangles of the rune
+function area({ vertices }: Rune): number {
+  let total = 0;
+  for (let i = 0; i < vertices.length; i += 12) {
+    const [ax, ay, bx, by, cx, cy] = [0, 1, 4, 5, 8, 9].map((j) => vertices[i + j]);
+    total += Math.abs((bx - ax) * (cy - ay) - (by - ay) * (cx - ax)) / 2;
+  }
+  return total;
+}
+
+describe('make_polygon_rune', () => {
+  test('fills convex polygons', () => {
+    const polygon = make_polygon_rune(list(pair(-1, -1), pair(1, -1), pair(1, 1), pair(-1, 1)));
+    expect(polygon.vertices)
+      .toHaveLength(2 * 3 * 4);
+    expect(runes_equal(polygon, square, 0))
+      .toBe(true);
+  });
+
+  test('fills concave polygons in either order of corners', () => {
+    const corners = [pair(-1, -1), pair(1, -1), pair(1, 0), pair(0, 0), pair(0, 1), pair(-1, 1)];
+    const l_shape = stack(beside(square, blank), square);
+    [make_polygon_rune(list(...corners)), make_polygon_rune(list(...corners.reverse()))]
+      .forEach((polygon) => {
+        expect(polygon.vertices)
+          .toHaveLength(4 * 3 * 4);
+        expect(area(polygon))
+          .toBeCloseTo(3);
+        expect(runes_equal(polygon, l_shape, 0))
+          .toBe(true);
+      });
+  });
+
+  test('leaves out corners on straight edges', () => {
+    const polygon = make_polygon_rune(list(pair(-1, -1), pair(0, -1), pair(1, -1), pair(1, 1), pair(-1, 1)));
+    expect(polygon.vertices)
+      .toHaveLength(2 * 3 * 4);
+    expect(area(polygon))
+      .toBeCloseTo(4);
+  });
+
+  test('throws for polygons whose edges cross', () => {
+    expect(() => make_polygon_rune(list(pair(-1, -1), pair(1, 1), pair(1, -1), pair(-1, 1))))
+      .toThrow('make_polygon_rune can only take a polygon whose edges do not cross, with an area.');
+  });
+
+  test('throws for lists that are not of enough points', () => {
+    expect(() => make_polygon_rune(list(pair(0, 0), pair(1, 1))))
+      .toThrow('make_polygon_rune expects a list of at least 3 points made with pair(x, y).');
+    expect(() => make_polygon_rune(list(pair(0, 0), pair(1, 1), 2)))
+      .toThrow('make_polygon_rune expects a list of at least 3 points made with pair(x, y).');
+  });
+});
+
+describe('make_path_rune', () => {
+  test('draws lines of the given width', () => {
+    const band = make_polygon_rune(list(pair(-1, -0.5), pair(1, -0.5), pair(1, 0.5), pair(-1, 0.5)));
+    expect(runes_equal(make_path_rune(list(pair(-1, 0), pair(1, 0)), 1), band, 0))
+      .toBe(true);
+  });
+
+  test('joins lines with circles', () => {
+    const path = make_path_rune(list(pair(-1, 0), pair(0, 0), pair(0, 1)), 0.5);
+    expect(path.vertices)
+      .toHaveLength((2 * 2 + 16) * 3 * 4);
+  });
+
+  test('throws for widths that are not positive', () => {
+    expect(() => make_path_rune(list(pair(-1, 0), pair(1, 0)), 0))
+      .toThrow('make_path_rune can only take a positive stroke width.');
+  });
+});
+
+describe('make_bezier_rune', () => {
+  test('fills the shape between the curve and the line back to its start', () => {
+    // a parabola from (-1, 0) to (1, 0) with its top at (0, 1)
+    const arch = make_bezier_rune(list(pair(-1, 0), pair(0, 2), pair(1, 0)));
+    expect(area(arch))
+      .toBeCloseTo(4 / 3, 3);
+  });
+
+  test('throws for curves without an area', () => {
+    expect(() => make_bezier_rune(list(pair(-1, 0), pair(0, 0), pair(1, 0))))
+      .toThrow('make_bezier_rune can only take control points of a curve that does not cross itself, with an area.');
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  beside,
+  blue,
+  export_rune_png,
+  export_rune_svg,
+  from_url,
+  overlay,
+  red,
+  square,
+} from '../functions';
+
+const polygons = (svg: string) => svg.match(/<polygon [^>]*>/gu) ?? [];
+
+describe('export_rune_svg', () => {
+  test('draws a polygon for every triangle on a white square', () => {
+    const svg = export_rune_svg(square);
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"'))
+      .toBe(true);
+    expect(svg).toContain('<rect width="512" height="512" fill="white"/>');
+    expect(polygons(svg))
+      .toEqual([
+        '<polygon points="512,512 0,0 512,0" fill="rgb(0,0,0)"/>',
+        '<polygon points="0,0 0,512 512,512" fill="rgb(0,0,0)"/>',
+      ]);
+  });
+
+  test('places the triangles of combined runes', () => {
+    const svg = export_rune_svg(beside(red(square), blue(square)));
+    expect(polygons(svg))
+      .toHaveLength(4);
+    expect(svg).toContain('points="0,0 0,512 256,512" fill="rgb(244,67,54)"');
+    expect(svg).toContain('points="256,0 256,512 512,512" fill="rgb(33,150,243)"');
+  });
+
+  test('paints the front rune last and lightens the back rune', () => {
+    const svg = polygons(export_rune_svg(overlay(red(square), blue(square))));
+    expect(svg.slice(0, 2)
+      .every((polygon) => polygon.endsWith('fill="rgb(144,203,249)"/>')))
+      .toBe(true);
+    expect(svg.slice(2)
+      .every((polygon) => polygon.endsWith('fill="rgb(244,67,54)"/>')))
+      .toBe(true);
+  });
+
+  test('clips the images of textured runes to their triangles', () => {
+    const svg = export_rune_svg(from_url('https://example.com/a.png?b=1&c=2'));
+    expect(svg).toContain('<clipPath id="triangle0"><polygon points="512,512 0,0 512,0"/></clipPath>');
+    expect(svg).toContain(
+      '<image href="https://example.com/a.png?b=1&amp;c=2" width="1" height="1" preserveAspectRatio="none"'
+      + ' transform="matrix(512 0 0 512 0 0)" clip-path="url(#triangle0)"/>',
+    );
+  });
+
+  test('throws for values that are not runes', () => {
+    expect(() => export_rune_svg(1 as any))
+      .toThrow('export_rune_svg expects a rune as argument.');
+  });
+});
+
+describe('export_rune_png', () => {
+  test('throws for sizes that are not whole numbers of pixels in range', () => {
+    expect(() => export_rune_png(square, 0))
+      .toThrow('export_rune_png can only take a size in pixels from 1 to 4096.');
+    expect(() => export_rune_png(square, 1.5))
+      .toThrow('export_rune_png can only take a size in pixels from 1 to 4096.');
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  beside,
+  blue,
+  overlay,
+  red,
+  square,
+  stack,
+} from '../functions';
+import {
+  findRuneAt,
+  getNodeTriangles,
+  getRuneTree,
+  getRuneTriangles,
+  type RuneNode,
+} from '../runes_inspect';
+
+// beside and stack put each rune in a rune that translates a rune that scales it
+const nodeAt = (tree: RuneNode, path: number[]) => path.reduce((node, i) => node.children[i], tree);
+
+describe('getRuneTree', () => {
+  test('has the paths and the transformations of the sub runes', () => {
+    const tree = getRuneTree(beside(square, stack(square, square)));
+    const triangles = getRuneTriangles(tree);
+    const bottomRight = nodeAt(tree, [1, 0, 0, 1, 0, 0]);
+    expect(bottomRight.path)
+      .toEqual([1, 0, 0, 1, 0, 0]);
+    expect(bottomRight.rune.vertices)
+      .toBe(square.vertices);
+    // the square in the right half and the bottom quarter is [0,1]x[-1,0]
+    expect(getNodeTriangles(bottomRight, triangles)
+      .flat()
+      .map((corner) => [corner[0], corner[1]]))
+      .toEqual([[0, 0], [0, -1], [1, -1], [1, -1], [0, 0], [1, 0]]);
+    expect(getNodeTriangles(tree, triangles))
+      .toHaveLength(6);
+  });
+});
+
+describe('findRuneAt', () => {
+  test('finds the sub rune at a point of the drawing area', () => {
+    const tree = getRuneTree(beside(square, stack(square, square)));
+    const triangles = getRuneTriangles(tree);
+    expect(findRuneAt(tree, triangles, -0.5, 0.5)?.path)
+      .toEqual([0, 0, 0]);
+    expect(findRuneAt(tree, triangles, 0.5, 0.5)?.path)
+      .toEqual([1, 0, 0, 0, 0, 0]);
+    expect(findRuneAt(tree, triangles, 0.5, -0.5)?.path)
+      .toEqual([1, 0, 0, 1, 0, 0]);
+    expect(findRuneAt(tree, triangles, 2, 0))
+      .toBeNull();
+  });
+
+  test('finds the rune in front of overlaid runes', () => {
+    const front = red(square);
+    const tree = getRuneTree(overlay(front, blue(square)));
+    const triangles = getRuneTriangles(tree);
+    expect(findRuneAt(tree, triangles, 0, 0)?.rune)
+      .toBe(front.subRunes[0]);
+    expect(findRuneAt(tree, triangles, 0, 0)?.path)
+      .toEqual([0, 0, 0]);
+  });
+});
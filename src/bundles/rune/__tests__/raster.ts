@@ -0,0 +1,67 @@
+import {
+  beside,
+  blank,
+  blue,
+  flip_horiz,
+  green,
+  heart,
+  overlay,
+  red,
+  runes_diff,
+  runes_equal,
+  sail,
+  scale,
+  square,
+  stack,
+  yellow,
+} from '../functions';
+import { rasterizeRune } from '../runes_raster';
+
+describe('rasterizeRune', () => {
+  test('draws runes on a white square', () => {
+    expect(Array.from(rasterizeRune(blank, 2)))
+      .toEqual(new Array(16).fill(255));
+    expect(Array.from(rasterizeRune(beside(red(square), blank), 2)))
+      .toEqual([244, 67, 54, 255, 255, 255, 255, 255, 244, 67, 54, 255, 255, 255, 255, 255]);
+  });
+});
+
+describe('runes_equal', () => {
+  test('is true for runes made with different combinators', () => {
+    const [a, b, c, d] = [red(sail), blue(heart), green(square), yellow(sail)];
+    expect(runes_equal(beside(stack(a, b), stack(c, d)), stack(beside(a, c), beside(b, d)), 0))
+      .toBe(true);
+    expect(runes_equal(flip_horiz(beside(a, b)), beside(flip_horiz(b), flip_horiz(a)), 0))
+      .toBe(true);
+  });
+
+  test('draws the runes in front over the runes at the back', () => {
+    expect(runes_equal(overlay(red(square), blue(square)), red(square), 0))
+      .toBe(true);
+    expect(runes_equal(overlay(red(square), blue(square)), blue(square), 0))
+      .toBe(false);
+  });
+
+  test('allows the given fraction of pixels to differ', () => {
+    const smaller = scale(0.98, square);
+    expect(runes_equal(square, smaller, 0))
+      .toBe(false);
+    expect(runes_equal(square, smaller, 0.05))
+      .toBe(true);
+  });
+
+  test('throws for tolerances outside [0,1]', () => {
+    expect(() => runes_equal(square, square, 2))
+      .toThrow('runes_equal can only take tolerance in [0,1].');
+  });
+});
+
+describe('runes_diff', () => {
+  test('reports the number and place of different pixels', () => {
+    expect(runes_diff(beside(square, blank), square))
+      .toBe('The runes are drawn differently in 32768 of 65536 pixels (50.00%) of the 256x256 image,'
+        + ' from x = 128 to 255 and y = 0 to 255, counted from the top left corner.');
+    expect(runes_diff(stack(square, square), square))
+      .toBe('The runes are drawn the same in all 65536 pixels of the 256x256 image.');
+  });
+});
@@ -30,6 +30,11 @@ import {
   addColorFromHex,
   colorPalette,
   hexToColor,
+  toPoints,
+  getPolygon,
+  getPath,
+  bezierCurve,
+  toColor,
 } from './runes_ops';
 import {
   type FrameBufferWithTexture,
@@ -37,6 +42,8 @@ import {
   initFramebufferObject,
   initShaderProgram,
 } from './runes_webgl';
+import { maxPngSize, runeToPng, runeToSvg, svgSize } from './runes_export';
+import { compareSize, diffReport, diffRunes } from './runes_raster';
 
 const drawnRunes: (DrawnRune | AnimatedRune)[] = [];
 context.moduleContexts.rune.state = {
@@ -140,6 +147,64 @@ export function from_url(imageUrl: string): Rune {
   return rune;
 }
 
+// =============================================================================
+// Custom Runes
+// =============================================================================
+
+/**
+ * Makes a new Rune filled with the polygon with the given corners, which can
+ * be concave but whose edges must not cross. The Rune is drawn in the square
+ * from -1 to 1 in both x and y, with y pointing up, like the primitive Runes.
+ * @param {List} list_of_points - List of the corners as pair(x, y), in order
+ * @return {Rune} Resulting Rune
+ *
+ * @category Main
+ */
+export function make_polygon_rune(list_of_points): Rune {
+  const rune = getPolygon(toPoints('make_polygon_rune', list_of_points, 3));
+  if (rune === null) {
+    throw Error('make_polygon_rune can only take a polygon whose edges do not cross, with an area.');
+  }
+  return rune;
+}
+
+/**
+ * Makes a new Rune of the lines from each of the given points to the next,
+ * with the given width and round joints. The points are in the square from
+ * -1 to 1 in both x and y, with y pointing up, like the primitive Runes.
+ * @param {List} points - List of the points as pair(x, y), in order
+ * @param {number} stroke_width - Width of the lines, where 2 is the width of the Rune
+ * @return {Rune} Resulting Rune
+ *
+ * @category Main
+ */
+export function make_path_rune(points, stroke_width: number): Rune {
+  const pointArray = toPoints('make_path_rune', points, 2);
+  if (!(stroke_width > 0)) {
+    throw Error('make_path_rune can only take a positive stroke width.');
+  }
+  return getPath(pointArray, stroke_width);
+}
+
+/**
+ * Makes a new Rune filled with the shape between the Bezier curve with the
+ * given control points and the line from the end of the curve back to its
+ * start. The curve starts at the first control point and ends at the last,
+ * and is closed if they are the same point. The points are in the square from
+ * -1 to 1 in both x and y, with y pointing up, like the primitive Runes.
+ * @param {List} control_points - List of the control points as pair(x, y)
+ * @return {Rune} Resulting Rune
+ *
+ * @category Main
+ */
+export function make_bezier_rune(control_points): Rune {
+  const rune = getPolygon(bezierCurve(toPoints('make_bezier_rune', control_points, 3)));
+  if (rune === null) {
+    throw Error('make_bezier_rune can only take control points of a curve that does not cross itself, with an area.');
+  }
+  return rune;
+}
+
 // =============================================================================
 // XY-axis Transformation functions
 // =============================================================================
@@ -540,6 +605,100 @@ export function color(rune: Rune, r: number, g: number, b: number): Rune {
   });
 }
 
+/**
+ * Adds a translucent color to rune by specifying the red, green,
+ * blue (RGB) and alpha value, ranging from 0.0 to 1.0. An alpha of 1
+ * is opaque, and smaller alphas let more of the Runes behind show through.
+ * @param {Rune} rune - The rune to add color to
+ * @param {number} r - Red value [0.0-1.0]
+ * @param {number} g - Green value [0.0-1.0]
+ * @param {number} b - Blue value [0.0-1.0]
+ * @param {number} a - Alpha value [0.0-1.0]
+ * @returns {Rune} The colored Rune
+ *
+ * @category Color
+ */
+export function color_alpha(
+  rune: Rune,
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+): Rune {
+  throwIfNotRune('color_alpha', rune);
+  if (!(a >= 0 && a <= 1)) {
+    throw Error('color_alpha can only take alpha in [0,1].');
+  }
+
+  const colorVector = [r, g, b, a];
+  return Rune.of({
+    colors: new Float32Array(colorVector),
+    subRunes: [rune],
+  });
+}
+
+/**
+ * Fills rune with a linear gradient, which changes from the first color
+ * at one side of the square of the rune to the second color at the other
+ * side. The colors are lists of the red, green, blue and optionally alpha
+ * values, ranging from 0.0 to 1.0, such as list(1, 0, 0) or list(1, 0, 0, 0.5).
+ * @param {Rune} rune - The rune to fill
+ * @param {List} c1 - The color at the start of the gradient
+ * @param {List} c2 - The color at the end of the gradient
+ * @param {number} angle - Direction of the gradient in radians, where 0 goes
+ * from left to right and math_PI / 2 goes from bottom to top
+ * @returns {Rune} The filled Rune
+ *
+ * @category Color
+ */
+export function linear_gradient(rune: Rune, c1, c2, angle: number): Rune {
+  throwIfNotRune('linear_gradient', rune);
+  const startColor = toColor('linear_gradient', c1);
+  const endColor = toColor('linear_gradient', c2);
+
+  // the corners of the square in the direction of the gradient are at
+  // distance extent from the center, where the gradient is halfway
+  const extent = Math.abs(Math.cos(angle)) + Math.abs(Math.sin(angle));
+  const matrix = mat4.fromTranslation(mat4.create(), vec3.fromValues(0.5, 0, 0));
+  mat4.scale(matrix, matrix, vec3.fromValues(1 / (2 * extent), 1 / (2 * extent), 1));
+  mat4.rotateZ(matrix, matrix, -angle);
+  return Rune.of({
+    subRunes: [rune],
+    gradient: {
+      isRadial: false,
+      startColor,
+      endColor,
+      matrix,
+    },
+  });
+}
+
+/**
+ * Fills rune with a radial gradient, which changes from the first color at
+ * the center of the square of the rune to the second color at the middle of
+ * its sides and beyond. The colors are lists of the red, green, blue and
+ * optionally alpha values, ranging from 0.0 to 1.0, such as list(1, 0, 0)
+ * or list(1, 0, 0, 0.5).
+ * @param {Rune} rune - The rune to fill
+ * @param {List} c1 - The color at the center
+ * @param {List} c2 - The color at the sides
+ * @returns {Rune} The filled Rune
+ *
+ * @category Color
+ */
+export function radial_gradient(rune: Rune, c1, c2): Rune {
+  throwIfNotRune('radial_gradient', rune);
+  return Rune.of({
+    subRunes: [rune],
+    gradient: {
+      isRadial: true,
+      startColor: toColor('radial_gradient', c1),
+      endColor: toColor('radial_gradient', c2),
+      matrix: mat4.create(),
+    },
+  });
+}
+
 /**
  * Gives random color to the given rune.
  * The color is chosen randomly from the following nine
@@ -740,7 +899,7 @@ export class AnaglyphRune extends DrawnRune {
     super(rune, false);
   }
 
-  public draw = (canvas: HTMLCanvasElement) => {
+  public draw = (canvas: HTMLCanvasElement, viewMatrix: mat4 = mat4.create()) => {
     const gl = getWebGlFromCanvas(canvas);
 
     // before draw the runes to framebuffer, we need to first draw a white background to cover the transparent places
@@ -764,6 +923,9 @@ export class AnaglyphRune extends DrawnRune {
       vec3.fromValues(0, 0, -0.4),
       vec3.fromValues(0, 1, 0),
     );
+    // both eyes see the zoomed and panned drawing area
+    mat4.multiply(leftCameraMatrix, leftCameraMatrix, viewMatrix);
+    mat4.multiply(rightCameraMatrix, rightCameraMatrix, viewMatrix);
 
     // left/right eye images are drawn into respective framebuffers
     const leftBuffer = initFramebufferObject(gl);
@@ -1024,3 +1186,84 @@ export function animate_anaglyph(
   drawnRunes.push(anim);
   return anim;
 }
+
+// =============================================================================
+// Export functions
+// =============================================================================
+
+/**
+ * Returns an SVG image of the Rune as drawn by `show`, with a polygon for
+ * every triangle of the Rune. The image can be saved as an .svg file.
+ * @param rune - The Rune to save
+ * @return {string} The SVG image of the Rune
+ *
+ * @category Main
+ */
+export function export_rune_svg(rune: Rune): string {
+  throwIfNotRune('export_rune_svg', rune);
+  return runeToSvg(rune, svgSize);
+}
+
+/**
+ * Draws the Rune as by `show` on a square with sides of the specified size
+ * in pixels, and returns the PNG image as a data URL, which can be opened in
+ * a browser or saved as a .png file.
+ * @param rune - The Rune to save
+ * @param size - The width and height of the image, from 1 to 4096 pixels
+ * @return {string} The data URL of the PNG image of the Rune
+ *
+ * @category Main
+ */
+export function export_rune_png(rune: Rune, size: number): string {
+  throwIfNotRune('export_rune_png', rune);
+  if (!Number.isInteger(size) || size < 1 || size > maxPngSize) {
+    throw Error(`export_rune_png can only take a size in pixels from 1 to ${maxPngSize}.`);
+  }
+  return runeToPng(rune, size);
+}
+
+// =============================================================================
+// Comparison functions
+// =============================================================================
+
+/**
+ * Checks if two Runes are drawn the same, by drawing both on 256x256 images
+ * without WebGL and comparing the colors of their pixels. Runes that are made
+ * in different ways, such as `beside(stack(a, b), stack(c, d))` and
+ * `stack(beside(a, c), beside(b, d))`, are equal if they look the same.
+ * Runes made with `from_url` are compared without their images.
+ * @param {Rune} rune1 - Given Rune
+ * @param {Rune} rune2 - Given Rune
+ * @param {number} tolerance - Fraction between 0 and 1 (inclusive) of the
+ * pixels that may differ, such as 0.01 to allow for differences at edges
+ * @return {boolean} Whether the Runes are drawn the same
+ *
+ * @category Main
+ */
+export function runes_equal(
+  rune1: Rune,
+  rune2: Rune,
+  tolerance: number,
+): boolean {
+  throwIfNotRune('runes_equal', rune1, rune2);
+  if (!(tolerance >= 0 && tolerance <= 1)) {
+    throw Error('runes_equal can only take tolerance in [0,1].');
+  }
+  const { differentPixels } = diffRunes(rune1, rune2, compareSize);
+  return differentPixels <= tolerance * compareSize * compareSize;
+}
+
+/**
+ * Compares the drawings of two Runes as `runes_equal` does, and returns a
+ * report of how many pixels differ and where they are, for example to
+ * explain why a Rune is not equal to the expected Rune.
+ * @param {Rune} rune1 - Given Rune
+ * @param {Rune} rune2 - Given Rune
+ * @return {string} The report of the differences
+ *
+ * @category Main
+ */
+export function runes_diff(rune1: Rune, rune2: Rune): string {
+  throwIfNotRune('runes_diff', rune1, rune2);
+  return diffReport(diffRunes(rune1, rune2, compareSize));
+}
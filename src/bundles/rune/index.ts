@@ -14,7 +14,10 @@ export {
   brown,
   circle,
   color,
+  color_alpha,
   corner,
+  export_rune_png,
+  export_rune_svg,
   flip_horiz,
   flip_vert,
   from_url,
@@ -23,7 +26,11 @@ export {
   hollusion,
   hollusion_magnitude,
   indigo,
+  linear_gradient,
+  make_bezier_rune,
   make_cross,
+  make_path_rune,
+  make_polygon_rune,
   nova,
   orange,
   overlay,
@@ -33,12 +40,15 @@ export {
   purple,
   quarter_turn_left,
   quarter_turn_right,
+  radial_gradient,
   random_color,
   rcross,
   red,
   repeat_pattern,
   ribbon,
   rotate,
+  runes_diff,
+  runes_equal,
   sail,
   scale,
   scale_independent,
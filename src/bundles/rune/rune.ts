@@ -1,4 +1,4 @@
-import { mat4 } from 'gl-matrix';
+import { mat4, vec4 } from 'gl-matrix';
 import { type AnimFrame, glAnimation } from '../../typings/anim_types';
 import type { ReplResult } from '../../typings/type_helpers';
 import { getWebGlFromCanvas, initShaderProgram } from './runes_webgl';
@@ -9,13 +9,16 @@ uniform vec4 uVertexColor;
 uniform mat4 uModelViewMatrix;
 uniform mat4 uProjectionMatrix;
 uniform mat4 uCameraMatrix;
+uniform mat4 uGradientMatrix;
 
 varying lowp vec4 vColor;
 varying highp vec2 vTexturePosition;
+varying highp vec2 vGradientPosition;
 varying lowp float colorFactor;
 void main(void) {
   gl_Position = uProjectionMatrix * uCameraMatrix * uModelViewMatrix * aVertexPosition;
   vColor = uVertexColor;
+  vGradientPosition = (uGradientMatrix * aVertexPosition).xy;
 
   // texture position is in [0,1], vertex position is in [-1,1]
   vTexturePosition.x = (aVertexPosition.x + 1.0) / 2.0;
@@ -29,6 +32,10 @@ const normalFragmentShader = `
 precision mediump float;
 uniform bool uRenderWithTexture;
 uniform bool uRenderWithDepthColor;
+uniform bool uRenderWithGradient;
+uniform bool uRadialGradient;
+uniform vec4 uGradientStartColor;
+uniform vec4 uGradientEndColor;
 uniform sampler2D uTexture;
 varying lowp float colorFactor;
 uniform vec4 uColorFilter;
@@ -36,26 +43,44 @@ uniform vec4 uColorFilter;
 
 varying lowp vec4 vColor;
 varying highp vec2 vTexturePosition;
+varying highp vec2 vGradientPosition;
 void main(void) {
   if (uRenderWithTexture){
     gl_FragColor = texture2D(uTexture, vTexturePosition);
+    gl_FragColor.a = 1.0;
+  } else if (uRenderWithGradient) {
+    float t = uRadialGradient ? length(vGradientPosition) : vGradientPosition.x;
+    gl_FragColor = mix(uGradientStartColor, uGradientEndColor, clamp(t, 0.0, 1.0));
   } else {
     gl_FragColor = vColor;
   }
   if (uRenderWithDepthColor){
-    gl_FragColor += (colorFactor + 0.5) * (1.0 - gl_FragColor);
-    gl_FragColor.a = 1.0;
+    gl_FragColor.rgb += (colorFactor + 0.5) * (1.0 - gl_FragColor.rgb);
   }
-  gl_FragColor = uColorFilter * gl_FragColor + 1.0 - uColorFilter;
-  gl_FragColor.a = 1.0;
+  gl_FragColor.rgb = uColorFilter.rgb * gl_FragColor.rgb + 1.0 - uColorFilter.rgb;
 }
 `;
+/**
+ * A gradient between two colors (r,g,b,a) that a Rune is filled with. The
+ * matrix maps the vertices of the Rune to the coordinates of the gradient,
+ * in which the color goes from the start color at 0 to the end color at 1,
+ * along the x-axis for linear gradients and away from the origin for radial
+ * gradients.
+ */
+export type RuneGradient = {
+  isRadial: boolean;
+  startColor: Float32Array;
+  endColor: Float32Array;
+  matrix: mat4;
+};
+
 /**
  * The basic data-representation of a Rune. When the Rune is drawn, every 3 consecutive vertex will form a triangle.
  * @field vertices - A list of vertex coordinates, each vertex has 4 coordiante (x,y,z,t).
  * @field colors - A list of vertex colors, each vertex has a color (r,g,b,a).
  * @field transformMatrix - A mat4 that is applied to all the vertices and the sub runes
  * @field subRune - A (potentially empty) list of Runes
+ * @field gradient - A gradient that replaces the colors of the Rune and its sub runes
  */
 export class Rune {
   constructor(
@@ -65,6 +90,7 @@ export class Rune {
     public subRunes: Rune[],
     public texture: HTMLImageElement | null,
     public hollusionDistance: number,
+    public gradient: RuneGradient | null,
   ) {}
 
   public copy = () => new Rune(
@@ -74,6 +100,7 @@ export class Rune {
     this.subRunes,
     this.texture,
     this.hollusionDistance,
+    this.gradient,
   );
 
   /**
@@ -97,6 +124,20 @@ export class Rune {
         subRuneCopy.hollusionDistance = runeToExpand.hollusionDistance;
         if (runeToExpand.colors !== null) {
           subRuneCopy.colors = runeToExpand.colors;
+          subRuneCopy.gradient = null;
+        }
+        if (runeToExpand.gradient !== null) {
+          // the gradient stays where it is, so it maps the vertices of
+          // the sub rune through the transformation of the sub rune
+          subRuneCopy.gradient = {
+            ...runeToExpand.gradient,
+            matrix: mat4.multiply(
+              mat4.create(),
+              runeToExpand.gradient.matrix,
+              subRune.transformMatrix,
+            ),
+          };
+          subRuneCopy.colors = null;
         }
         runeTodoList.push(subRuneCopy);
       });
@@ -116,6 +157,7 @@ export class Rune {
       subRunes?: Rune[];
       texture?: HTMLImageElement | null;
       hollusionDistance?: number;
+      gradient?: RuneGradient | null;
     } = {},
   ) => {
     const paramGetter = (name: string, defaultValue: () => any) => (params[name] === undefined ? defaultValue() : params[name]);
@@ -127,12 +169,35 @@ export class Rune {
       paramGetter('subRunes', () => []),
       paramGetter('texture', () => null),
       paramGetter('hollusionDistance', () => 0.1),
+      paramGetter('gradient', () => null),
     );
   };
 
   public toReplString = () => '<Rune>';
 }
 
+// Runes with colors that are not opaque are blended with the runes behind them
+function isTranslucent(rune: Rune): boolean {
+  if (rune.texture !== null) {
+    return false;
+  }
+  if (rune.gradient !== null) {
+    return rune.gradient.startColor[3] < 1 || rune.gradient.endColor[3] < 1;
+  }
+  return rune.colors !== null && rune.colors[3] < 1;
+}
+
+// The average z of the transformed vertices of the rune, which is larger when nearer
+function runeDepth(rune: Rune): number {
+  const vertex = vec4.create();
+  let depth = 0;
+  for (let i = 0; i < rune.vertices.length; i += 4) {
+    vec4.transformMat4(vertex, rune.vertices.subarray(i, i + 4), rune.transformMatrix);
+    depth += vertex[2];
+  }
+  return depth / (rune.vertices.length / 4);
+}
+
 /**
  * Draws the list of runes with the prepared WebGLRenderingContext, with each rune overlapping each other onto a given framebuffer. if the framebuffer is null, draw to the default canvas.
  *
@@ -194,6 +259,26 @@ export function drawRunesToFrameBuffer(
     'uRenderWithDepthColor',
   );
   const texturePointer = gl.getUniformLocation(shaderProgram, 'uTexture');
+  const gradientSwitchPointer = gl.getUniformLocation(
+    shaderProgram,
+    'uRenderWithGradient',
+  );
+  const radialGradientPointer = gl.getUniformLocation(
+    shaderProgram,
+    'uRadialGradient',
+  );
+  const gradientMatrixPointer = gl.getUniformLocation(
+    shaderProgram,
+    'uGradientMatrix',
+  );
+  const gradientStartColorPointer = gl.getUniformLocation(
+    shaderProgram,
+    'uGradientStartColor',
+  );
+  const gradientEndColorPointer = gl.getUniformLocation(
+    shaderProgram,
+    'uGradientEndColor',
+  );
 
   // load depth
   gl.uniform1i(depthSwitchPointer, depthSwitch ? 1 : 0);
@@ -272,7 +357,7 @@ export function drawRunesToFrameBuffer(
     return texture;
   };
 
-  runes.forEach((rune: Rune) => {
+  const drawRune = (rune: Rune) => {
     // load position buffer
     const positionBuffer = gl.createBuffer();
     gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
@@ -294,6 +379,17 @@ export function drawRunesToFrameBuffer(
       gl.uniform1i(texturePointer, 0);
       gl.uniform1i(textureSwitchPointer, 1);
     }
+    gl.uniform1i(gradientSwitchPointer, rune.gradient === null ? 0 : 1);
+    gl.uniformMatrix4fv(
+      gradientMatrixPointer,
+      false,
+      rune.gradient === null ? mat4.create() : rune.gradient.matrix,
+    );
+    if (rune.gradient !== null) {
+      gl.uniform1i(radialGradientPointer, rune.gradient.isRadial ? 1 : 0);
+      gl.uniform4fv(gradientStartColorPointer, rune.gradient.startColor);
+      gl.uniform4fv(gradientEndColorPointer, rune.gradient.endColor);
+    }
 
     // load transformation matrix
     gl.uniformMatrix4fv(modelViewMatrixPointer, false, rune.transformMatrix);
@@ -301,7 +397,36 @@ export function drawRunesToFrameBuffer(
     // draw
     const vertexCount = rune.vertices.length / 4;
     gl.drawArrays(gl.TRIANGLES, 0, vertexCount);
-  });
+  };
+
+  // opaque runes hide the runes behind them with the depth test, while
+  // translucent runes are blended over everything behind them, so they are
+  // drawn afterwards from the furthest back, without hiding any runes
+  runes.filter((rune) => !isTranslucent(rune))
+    .forEach(drawRune);
+  const translucentRunes = runes
+    .map((rune, order) => ({
+      rune,
+      order,
+      depth: runeDepth(rune),
+    }))
+    .filter(({ rune }) => isTranslucent(rune))
+    // the depth test keeps the first of equally deep runes on top
+    .sort((a, b) => a.depth - b.depth || b.order - a.order);
+  if (translucentRunes.length > 0) {
+    gl.enable(gl.BLEND);
+    gl.blendFuncSeparate(
+      gl.SRC_ALPHA,
+      gl.ONE_MINUS_SRC_ALPHA,
+      gl.ONE,
+      gl.ONE_MINUS_SRC_ALPHA,
+    );
+    gl.depthMask(false);
+    translucentRunes.map(({ rune }) => rune)
+      .forEach(drawRune);
+    gl.depthMask(true);
+    gl.disable(gl.BLEND);
+  }
 }
 
 /**
@@ -314,13 +439,16 @@ export abstract class DrawnRune implements ReplResult {
   uniform mat4 uModelViewMatrix;
   uniform mat4 uProjectionMatrix;
   uniform mat4 uCameraMatrix;
+  uniform mat4 uGradientMatrix;
 
   varying lowp vec4 vColor;
   varying highp vec2 vTexturePosition;
+  varying highp vec2 vGradientPosition;
   varying lowp float colorFactor;
   void main(void) {
     gl_Position = uProjectionMatrix * uCameraMatrix * uModelViewMatrix * aVertexPosition;
     vColor = uVertexColor;
+    vGradientPosition = (uGradientMatrix * aVertexPosition).xy;
 
     // texture position is in [0,1], vertex position is in [-1,1]
     vTexturePosition.x = (aVertexPosition.x + 1.0) / 2.0;
@@ -334,6 +462,10 @@ export abstract class DrawnRune implements ReplResult {
   precision mediump float;
   uniform bool uRenderWithTexture;
   uniform bool uRenderWithDepthColor;
+  uniform bool uRenderWithGradient;
+  uniform bool uRadialGradient;
+  uniform vec4 uGradientStartColor;
+  uniform vec4 uGradientEndColor;
   uniform sampler2D uTexture;
   varying lowp float colorFactor;
   uniform vec4 uColorFilter;
@@ -341,29 +473,36 @@ export abstract class DrawnRune implements ReplResult {
 
   varying lowp vec4 vColor;
   varying highp vec2 vTexturePosition;
+  varying highp vec2 vGradientPosition;
   void main(void) {
     if (uRenderWithTexture){
       gl_FragColor = texture2D(uTexture, vTexturePosition);
+      gl_FragColor.a = 1.0;
+    } else if (uRenderWithGradient) {
+      float t = uRadialGradient ? length(vGradientPosition) : vGradientPosition.x;
+      gl_FragColor = mix(uGradientStartColor, uGradientEndColor, clamp(t, 0.0, 1.0));
     } else {
       gl_FragColor = vColor;
     }
     if (uRenderWithDepthColor){
-      gl_FragColor += (colorFactor + 0.5) * (1.0 - gl_FragColor);
-      gl_FragColor.a = 1.0;
+      gl_FragColor.rgb += (colorFactor + 0.5) * (1.0 - gl_FragColor.rgb);
     }
-    gl_FragColor = uColorFilter * gl_FragColor + 1.0 - uColorFilter;
-    gl_FragColor.a = 1.0;
+    gl_FragColor.rgb = uColorFilter.rgb * gl_FragColor.rgb + 1.0 - uColorFilter.rgb;
   }
   `;
 
   constructor(
-    protected readonly rune: Rune,
+    public readonly rune: Rune,
     public readonly isHollusion: boolean,
   ) {}
 
   public toReplString = () => '<Rune>';
 
-  public abstract draw: (canvas: HTMLCanvasElement) => void;
+  /**
+   * Draws the rune on the canvas, where runes that are drawn in a plane use
+   * the view matrix to zoom and pan the drawing area
+   */
+  public abstract draw: (canvas: HTMLCanvasElement, viewMatrix?: mat4) => void;
 }
 
 export class NormalRune extends DrawnRune {
@@ -371,11 +510,11 @@ export class NormalRune extends DrawnRune {
     super(rune, false);
   }
 
-  public draw = (canvas: HTMLCanvasElement) => {
+  public draw = (canvas: HTMLCanvasElement, viewMatrix: mat4 = mat4.create()) => {
     const gl = getWebGlFromCanvas(canvas);
 
     // prepare camera projection array
-    const cameraMatrix = mat4.create();
+    const cameraMatrix = mat4.clone(viewMatrix);
 
     // color filter set to [1,1,1,1] for transparent filter
     drawRunesToFrameBuffer(
@@ -0,0 +1,112 @@
+/**
+ * This file contains the module's private functions that save runes as images.
+ * SVG images have a polygon for every triangle of the rune, and PNG images are
+ * drawn with WebGL on a hidden canvas of any size.
+ */
+import { mat4, type vec3 } from 'gl-matrix';
+import { NormalRune, type Rune } from './rune';
+import { getDepthSortedTriangles, type RuneTriangle } from './runes_ops';
+
+/** Side in pixels of the SVG images of runes */
+export const svgSize = 512;
+
+/** Largest side in pixels of the PNG images of runes */
+export const maxPngSize = 4096;
+
+function toSvgNumber(x: number): string {
+  return parseFloat(x.toFixed(3))
+    .toString();
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/gu, '&amp;')
+    .replace(/</gu, '&lt;')
+    .replace(/"/gu, '&quot;');
+}
+
+/**
+ * Returns the SVG transform of the given matrix of the drawing area, whose
+ * x and y are in [-1,1] with y pointing up, for an image of the given size
+ */
+function svgTransform(m: mat4, size: number): string {
+  const half = size / 2;
+  return `matrix(${[
+    half * m[0],
+    -half * m[1],
+    half * m[4],
+    -half * m[5],
+    half * (m[12] + 1),
+    half * (1 - m[13]),
+  ].map(toSvgNumber)
+    .join(' ')})`;
+}
+
+// Maps the unit square of SVG images to where the shader draws textures on
+// the square [-1,1]x[-1,1] of a rune
+const textureMatrix = mat4.fromValues(2, 0, 0, 0, 0, -2, 0, 0, 0, 0, 1, 0, -1, 1, 0, 1);
+
+function svgColor(color: number[]): string {
+  const [r, g, b] = color.map((c) => Math.round(c * 255));
+  return `rgb(${r},${g},${b})`;
+}
+
+// Returns the SVG gradient of the triangle with the given id, which maps
+// the coordinates of the gradient of the rune to the image
+function svgGradient({ gradient, rune }: RuneTriangle, id: string, size: number): string {
+  const { isRadial, matrix } = rune.gradient!;
+  const toDrawing = mat4.multiply(mat4.create(), rune.transformMatrix, mat4.invert(mat4.create(), matrix));
+  const stops = [gradient!.startColor, gradient!.endColor]
+    .map((color, i) => `<stop offset="${i}" stop-color="${svgColor(color)}" stop-opacity="${toSvgNumber(color[3])}"/>`)
+    .join('');
+  const attributes = `id="${id}" gradientUnits="userSpaceOnUse" gradientTransform="${svgTransform(toDrawing, size)}"`;
+  return isRadial
+    ? `<radialGradient ${attributes} cx="0" cy="0" r="1">${stops}</radialGradient>`
+    : `<linearGradient ${attributes} x1="0" y1="0" x2="1" y2="0">${stops}</linearGradient>`;
+}
+
+/**
+ * Returns an SVG image of the rune as drawn by show, on a white square with
+ * sides of the given size in pixels. Textured triangles are drawn as the
+ * image of the texture clipped to the triangle, and triangles with gradients
+ * are filled with SVG gradients.
+ */
+export function runeToSvg(rune: Rune, size: number): string {
+  const toSvgPoint = (corner: vec3) => `${toSvgNumber(((corner[0] + 1) / 2) * size)},${toSvgNumber(((1 - corner[1]) / 2) * size)}`;
+  const elements = getDepthSortedTriangles(rune)
+    .map((triangle, i) => {
+      const { corners, color, gradient, rune: flatRune } = triangle;
+      const points = corners.map(toSvgPoint)
+        .join(' ');
+      if (flatRune.texture !== null) {
+        const transform = mat4.multiply(mat4.create(), flatRune.transformMatrix, textureMatrix);
+        return `<clipPath id="triangle${i}"><polygon points="${points}"/></clipPath>`
+          + `<image href="${escapeXml(flatRune.texture.src)}" width="1" height="1" preserveAspectRatio="none"`
+          + ` transform="${svgTransform(transform, size)}" clip-path="url(#triangle${i})"/>`;
+      }
+      if (gradient !== null) {
+        return `${svgGradient(triangle, `gradient${i}`, size)}<polygon points="${points}" fill="url(#gradient${i})"/>`;
+      }
+      const opacity = color[3] < 1 ? ` fill-opacity="${toSvgNumber(color[3])}"` : '';
+      return `<polygon points="${points}" fill="${svgColor(color)}"${opacity}/>`;
+    });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`,
+    `<rect width="${size}" height="${size}" fill="white"/>`,
+    ...elements,
+    '</svg>',
+  ].join('\n');
+}
+
+/**
+ * Draws the rune as by show on a hidden square canvas with sides of the
+ * given size in pixels, and returns the PNG image as a data URL
+ */
+export function runeToPng(rune: Rune, size: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const drawnRune = new NormalRune(rune);
+  drawnRune.draw(canvas);
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,122 @@
+/**
+ * This file contains the module's private functions for inspecting drawn runes
+ * in the Rune tab, which shows the tree of sub runes of a rune and highlights
+ * the sub rune under the cursor.
+ */
+import { mat4, vec3 } from 'gl-matrix';
+import type { Rune } from './rune';
+
+/** A rune in the tree of sub runes of a drawn rune */
+export type RuneNode = {
+  rune: Rune;
+
+  /** Indices of the sub runes from the drawn rune to this rune */
+  path: number[];
+
+  /**
+   * Transformation of the vertices of this rune into the drawing area, which
+   * is its transformation matrix after those of the runes that contain it
+   */
+  matrix: mat4;
+
+  children: RuneNode[];
+};
+
+/** Returns the tree of the rune and all of its sub runes */
+export function getRuneTree(
+  rune: Rune,
+  parentMatrix: mat4 = mat4.create(),
+  path: number[] = [],
+): RuneNode {
+  const matrix = mat4.multiply(mat4.create(), parentMatrix, rune.transformMatrix);
+  return {
+    rune,
+    path,
+    matrix,
+    children: rune.subRunes.map((subRune, i) => getRuneTree(subRune, matrix, [...path, i])),
+  };
+}
+
+// The triangles of the vertices of the rune itself, in the drawing area
+function ownTriangles({ rune, matrix }: RuneNode): vec3[][] {
+  const triangles: vec3[][] = [];
+  for (let i = 0; i + 12 <= rune.vertices.length; i += 12) {
+    triangles.push([0, 4, 8].map((offset) => {
+      const corner = vec3.fromValues(
+        rune.vertices[i + offset],
+        rune.vertices[i + offset + 1],
+        rune.vertices[i + offset + 2],
+      );
+      return vec3.transformMat4(corner, corner, matrix);
+    }));
+  }
+  return triangles;
+}
+
+/**
+ * The triangles of the vertices of every rune in a tree, in the drawing area.
+ * They only change with the tree, so they are computed once for each tree.
+ */
+export type RuneTriangles = Map<RuneNode, vec3[][]>;
+
+/** Returns the triangles of every rune in the tree */
+export function getRuneTriangles(tree: RuneNode): RuneTriangles {
+  const triangles: RuneTriangles = new Map();
+  const visit = (node: RuneNode) => {
+    triangles.set(node, ownTriangles(node));
+    node.children.forEach(visit);
+  };
+  visit(tree);
+  return triangles;
+}
+
+/** Returns the triangles of the rune and its sub runes, in the drawing area */
+export function getNodeTriangles(node: RuneNode, triangles: RuneTriangles): vec3[][] {
+  return triangles.get(node)!
+    .concat(...node.children.map((child) => getNodeTriangles(child, triangles)));
+}
+
+// The z of the triangle at (x,y), or null if (x,y) is not in the triangle
+function depthAt([a, b, c]: vec3[], x: number, y: number): number | null {
+  const area = (b[0] - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (b[1] - a[1]);
+  if (area === 0) {
+    return null;
+  }
+  const wb = ((x - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (y - a[1])) / area;
+  const wc = ((b[0] - a[0]) * (y - a[1]) - (x - a[0]) * (b[1] - a[1])) / area;
+  if (wb < 0 || wc < 0 || wb + wc > 1) {
+    return null;
+  }
+  return (1 - wb - wc) * a[2] + wb * b[2] + wc * c[2];
+}
+
+/**
+ * Returns the rune in the tree that is drawn at (x,y) in the drawing area,
+ * which is the nearest rune with a triangle there, or null if there is none
+ */
+export function findRuneAt(
+  tree: RuneNode,
+  triangles: RuneTriangles,
+  x: number,
+  y: number,
+): RuneNode | null {
+  let found: RuneNode | null = null;
+  let foundDepth = -Infinity;
+  // runes are visited in the order that they are drawn, which is the order
+  // of flatten, and the depth test keeps the first of equally deep runes
+  const visit = (node: RuneNode) => {
+    triangles.get(node)!
+      .forEach((triangle) => {
+        const depth = depthAt(triangle, x, y);
+        if (depth !== null && depth > foundDepth) {
+          found = node;
+          foundDepth = depth;
+        }
+      });
+    for (let i = node.children.length - 1; i >= 0; i -= 1) {
+      visit(node.children[i]);
+    }
+  };
+  visit(tree);
+  return found;
+}
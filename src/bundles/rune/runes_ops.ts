@@ -1,6 +1,14 @@
 /**
  * This file contains the bundle's private functions for runes.
  */
+import { type mat4, vec3 } from 'gl-matrix';
+import {
+  head,
+  is_list,
+  is_pair,
+  list_to_vector,
+  tail,
+} from 'js-slang/dist/stdlib/list';
 import { Rune } from './rune';
 
 // =============================================================================
@@ -320,6 +328,209 @@ export const getRibbon: () => Rune = () => {
   });
 };
 
+// =============================================================================
+// Custom Runes
+// =============================================================================
+
+/** A point (x,y) of a custom rune, where the rune is drawn in [-1,1]x[-1,1] */
+export type Point2D = [number, number];
+
+// Number of triangles of the circles at the joints of path runes
+const jointSegments = 16;
+
+// Number of segments of the curves of bezier runes
+const bezierSegments = 64;
+
+// Twice the signed area of the triangle abc, positive if it is counterclockwise
+function cross(a: Point2D, b: Point2D, c: Point2D): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+function isInTriangle(p: Point2D, a: Point2D, b: Point2D, c: Point2D): boolean {
+  return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+}
+
+function segmentsCross(a: Point2D, b: Point2D, c: Point2D, d: Point2D): boolean {
+  const side = (x: number) => Math.sign(x);
+  return side(cross(a, b, c)) * side(cross(a, b, d)) <= 0
+    && side(cross(c, d, a)) * side(cross(c, d, b)) <= 0
+    && Math.max(a[0], b[0]) >= Math.min(c[0], d[0])
+    && Math.max(c[0], d[0]) >= Math.min(a[0], b[0])
+    && Math.max(a[1], b[1]) >= Math.min(c[1], d[1])
+    && Math.max(c[1], d[1]) >= Math.min(a[1], b[1]);
+}
+
+/**
+ * Checks that no two edges of the polygon cross or touch, other than
+ * neighbouring edges at their common corner
+ */
+function isSimplePolygon(points: Point2D[]): boolean {
+  const n = points.length;
+  for (let i = 0; i < n; i += 1) {
+    for (let j = i + 2; j < n; j += 1) {
+      if (
+        !(i === 0 && j === n - 1)
+        && segmentsCross(points[i], points[i + 1], points[j], points[(j + 1) % n])
+      ) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+function pushTriangle(vertexList: number[], a: Point2D, b: Point2D, c: Point2D) {
+  vertexList.push(a[0], a[1], 0, 1);
+  vertexList.push(b[0], b[1], 0, 1);
+  vertexList.push(c[0], c[1], 0, 1);
+}
+
+/**
+ * Splits a simple polygon, which may be concave, into triangles by clipping
+ * ears, which are corners whose triangle has no other corner in it. Returns
+ * the vertices (x,y,z,t) of the triangles, or null if the polygon is not
+ * simple or has no area.
+ */
+export function triangulatePolygon(points: Point2D[]): number[] | null {
+  // repeated points would be edges of no length
+  const corners = points.filter((p, i) => {
+    const next = points[(i + 1) % points.length];
+    return p[0] !== next[0] || p[1] !== next[1];
+  });
+  if (corners.length < 3 || !isSimplePolygon(corners)) {
+    return null;
+  }
+  const area = corners.reduce((sum, p, i) => sum + cross([0, 0], p, corners[(i + 1) % corners.length]), 0);
+  if (area === 0) {
+    return null;
+  }
+  // clip the ears of the polygon in counterclockwise order
+  const remaining = area > 0 ? corners : [...corners].reverse();
+  const vertexList: number[] = [];
+  while (remaining.length > 3) {
+    const n = remaining.length;
+    const cornerAt = (i: number): [Point2D, Point2D, Point2D] => [
+      remaining[(i + n - 1) % n],
+      remaining[i],
+      remaining[(i + 1) % n],
+    ];
+    // corners on a straight line are removed first, without a triangle
+    const straight = remaining.findIndex((_, i) => cross(...cornerAt(i)) === 0);
+    if (straight !== -1) {
+      remaining.splice(straight, 1);
+    } else {
+      const ear = remaining.findIndex((_, i) => {
+        const [a, b, c] = cornerAt(i);
+        return cross(a, b, c) > 0 && remaining.every(
+          (p) => p === a || p === b || p === c || !isInTriangle(p, a, b, c),
+        );
+      });
+      if (ear === -1) {
+        return null;
+      }
+      pushTriangle(vertexList, ...cornerAt(ear));
+      remaining.splice(ear, 1);
+    }
+  }
+  if (cross(remaining[0], remaining[1], remaining[2]) !== 0) {
+    pushTriangle(vertexList, remaining[0], remaining[1], remaining[2]);
+  }
+  return vertexList;
+}
+
+/**
+ * Returns the points in the given list of pairs (x,y), or throws an error
+ * if it is not a list of at least the given number of points
+ */
+export function toPoints(name: string, points: any, minimum: number): Point2D[] {
+  const isPoint = (p: any) => is_pair(p) && typeof head(p) === 'number' && typeof tail(p) === 'number';
+  const pointArray: any[] = is_list(points) ? list_to_vector(points) : [];
+  if (pointArray.length < minimum || !pointArray.every(isPoint)) {
+    throw Error(`${name} expects a list of at least ${minimum} points made with pair(x, y).`);
+  }
+  return pointArray.map((p): Point2D => [head(p), tail(p)]);
+}
+
+/**
+ * Rune filled with the simple polygon with the given corners, or null if
+ * the polygon is not simple or has no area
+ */
+export const getPolygon = (points: Point2D[]): Rune | null => {
+  const vertexList = triangulatePolygon(points);
+  if (vertexList === null) {
+    return null;
+  }
+  return Rune.of({
+    vertices: new Float32Array(vertexList),
+    colors: new Float32Array([0, 0, 0, 1]),
+  });
+};
+
+/**
+ * Rune of the lines between the given points with the given width,
+ * with round joints between the lines
+ */
+export const getPath = (points: Point2D[], width: number): Rune => {
+  const vertexList: number[] = [];
+  const halfWidth = width / 2;
+  for (let i = 0; i + 1 < points.length; i += 1) {
+    const [a, b] = [points[i], points[i + 1]];
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    if (length > 0) {
+      const nx = (-(b[1] - a[1]) / length) * halfWidth;
+      const ny = ((b[0] - a[0]) / length) * halfWidth;
+      const corners: Point2D[] = [
+        [a[0] + nx, a[1] + ny],
+        [a[0] - nx, a[1] - ny],
+        [b[0] - nx, b[1] - ny],
+        [b[0] + nx, b[1] + ny],
+      ];
+      pushTriangle(vertexList, corners[0], corners[1], corners[2]);
+      pushTriangle(vertexList, corners[0], corners[2], corners[3]);
+    }
+  }
+  points.slice(1, -1)
+    .forEach((p) => {
+      for (let i = 0; i < jointSegments; i += 1) {
+        const t1 = (i / jointSegments) * 2 * Math.PI;
+        const t2 = ((i + 1) / jointSegments) * 2 * Math.PI;
+        pushTriangle(
+          vertexList,
+          p,
+          [p[0] + Math.cos(t1) * halfWidth, p[1] + Math.sin(t1) * halfWidth],
+          [p[0] + Math.cos(t2) * halfWidth, p[1] + Math.sin(t2) * halfWidth],
+        );
+      }
+    });
+  return Rune.of({
+    vertices: new Float32Array(vertexList),
+    colors: new Float32Array([0, 0, 0, 1]),
+  });
+};
+
+/**
+ * Returns the points of the Bezier curve with the given control points,
+ * from the first control point to the last
+ */
+export function bezierCurve(controlPoints: Point2D[]): Point2D[] {
+  const curve: Point2D[] = [];
+  for (let i = 0; i <= bezierSegments; i += 1) {
+    const t = i / bezierSegments;
+    // de Casteljau's algorithm
+    let points = controlPoints;
+    while (points.length > 1) {
+      const previous = points;
+      points = previous.slice(1)
+        .map((p, j): Point2D => [
+          (1 - t) * previous[j][0] + t * p[0],
+          (1 - t) * previous[j][1] + t * p[1],
+        ]);
+    }
+    curve.push(points[0]);
+  }
+  return curve;
+}
+
 // =============================================================================
 // Coloring Functions
 // =============================================================================
@@ -359,3 +570,112 @@ export function addColorFromHex(rune, hex) {
     colors: new Float32Array(hexToColor(hex)),
   });
 }
+
+/**
+ * Returns the color (r,g,b,a) in the given list of its red, green, blue and
+ * optionally alpha values in [0,1], or throws an error if it is not a color
+ */
+export function toColor(name: string, color: any): Float32Array {
+  const values: any[] = is_list(color) ? list_to_vector(color) : [];
+  if (
+    (values.length !== 3 && values.length !== 4)
+    || !values.every((value) => typeof value === 'number' && value >= 0 && value <= 1)
+  ) {
+    throw Error(`${name} expects colors made with list(r, g, b) or list(r, g, b, a), with values in [0,1].`);
+  }
+  return new Float32Array(values.length === 3 ? [...values, 1] : values);
+}
+
+// =============================================================================
+// Flattened Triangles
+// =============================================================================
+
+/**
+ * A triangle of a flattened rune, with its corners transformed into the
+ * drawing area, where x and y are in [-1,1] and a larger z is nearer
+ */
+export type RuneTriangle = {
+  corners: [vec3, vec3, vec3];
+  /** The color (r,g,b,a) in [0,1] as drawn, lightened further back */
+  color: number[];
+  /** The gradient of the triangle, with its colors lightened like color */
+  gradient: {
+    startColor: number[];
+    endColor: number[];
+    /** The corners of the triangle in the coordinates of the gradient */
+    corners: [vec3, vec3, vec3];
+  } | null;
+  /** The flattened rune of the triangle, with its texture and gradient if any */
+  rune: Rune;
+};
+
+// The color as drawn at the given depth, where the depth color of the shader
+// adds -z of the remaining brightness
+function lightenColor(color: ArrayLike<number>, depth: number): number[] {
+  return [0, 1, 2].map((c) => Math.min(1, Math.max(0, color[c] - depth * (1 - color[c]))))
+    .concat(color[3]);
+}
+
+function transformCorners(vertices: Float32Array, i: number, matrix: mat4): [vec3, vec3, vec3] {
+  return [0, 4, 8].map((offset) => {
+    const corner = vec3.fromValues(vertices[i + offset], vertices[i + offset + 1], vertices[i + offset + 2]);
+    return vec3.transformMat4(corner, corner, matrix);
+  }) as [vec3, vec3, vec3];
+}
+
+/**
+ * Returns the triangles of the flattened rune from the furthest back to the
+ * nearest, which is the order to paint them in to get the drawing of show
+ */
+export function getDepthSortedTriangles(rune: Rune): RuneTriangle[] {
+  const triangles: { triangle: RuneTriangle; depth: number }[] = [];
+  rune.flatten()
+    .forEach((flatRune) => {
+      const baseColor = flatRune.colors || new Float32Array([0, 0, 0, 1]);
+      const { gradient } = flatRune;
+      for (let i = 0; i + 12 <= flatRune.vertices.length; i += 12) {
+        const corners = transformCorners(flatRune.vertices, i, flatRune.transformMatrix);
+        const depth = (corners[0][2] + corners[1][2] + corners[2][2]) / 3;
+        triangles.push({
+          triangle: {
+            corners,
+            color: lightenColor(baseColor, depth),
+            gradient: gradient && {
+              startColor: lightenColor(gradient.startColor, depth),
+              endColor: lightenColor(gradient.endColor, depth),
+              corners: transformCorners(flatRune.vertices, i, gradient.matrix),
+            },
+            rune: flatRune,
+          },
+          depth,
+        });
+      }
+    });
+
+  // WebGL keeps the first of equally deep triangles, so for equal depths
+  // the earlier triangles are painted last
+  return triangles
+    .map(({ triangle, depth }, order) => ({
+      triangle,
+      depth,
+      order,
+    }))
+    .sort((a, b) => a.depth - b.depth || b.order - a.order)
+    .map(({ triangle }) => triangle);
+}
+
+/**
+ * Returns the color of the triangle at the point with the given weights of
+ * its corners, which is the same everywhere unless it has a gradient
+ */
+export function triangleColorAt(
+  { color, gradient, rune }: RuneTriangle,
+  weights: number[],
+): number[] {
+  if (gradient === null) {
+    return color;
+  }
+  const [x, y] = [0, 1].map((axis) => weights.reduce((sum, w, i) => sum + w * gradient.corners[i][axis], 0));
+  const t = Math.min(1, Math.max(0, rune.gradient!.isRadial ? Math.hypot(x, y) : x));
+  return gradient.startColor.map((c, i) => (1 - t) * c + t * gradient.endColor[i]);
+}
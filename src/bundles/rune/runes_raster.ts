@@ -0,0 +1,142 @@
+/**
+ * This file contains the module's private functions that draw runes without
+ * WebGL, so that runes can be compared pixel by pixel wherever the module
+ * runs. Each triangle is scan converted into an RGBA image that is painted
+ * in the same order and colors as the drawing of show, and translucent
+ * colors are blended with the pixels behind them.
+ */
+import type { Rune } from './rune';
+import { getDepthSortedTriangles, triangleColorAt } from './runes_ops';
+
+/** Side in pixels of the images that runes are compared on */
+export const compareSize = 256;
+
+// WebGL draws textures in opaque blue until their images are loaded,
+// and the images are not available here
+const textureColor = [0, 0, 1, 1];
+
+// Pixels differ only if a color component differs by more than this,
+// which allows for rounding of colors
+const maxComponentDifference = 1;
+
+type Point = [number, number];
+
+/**
+ * Paints the pixels whose centers are in the triangle with the given
+ * corners in pixel coordinates, in the color (r,g,b,a) in [0,1] at the
+ * weights of the corners at the center of each pixel
+ */
+function fillTriangle(
+  pixels: Uint8ClampedArray,
+  size: number,
+  corners: Point[],
+  colorAt: (weights: number[]) => number[],
+) {
+  const [[x0, y0], [x1, y1], [x2, y2]] = corners;
+  const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0);
+  if (area === 0) {
+    return;
+  }
+  // the weight of each corner is the area to the edge opposite it
+  const edges = [[corners[1], corners[2]], [corners[2], corners[0]], [corners[0], corners[1]]];
+  // like WebGL, the centers of pixels on an edge shared by two triangles
+  // are only in one of them, which goes along the edge the other way
+  const hasEdge = edges.map(([[ax, ay], [bx, by]]) => {
+    const [dx, dy] = [(bx - ax) * Math.sign(area), (by - ay) * Math.sign(area)];
+    return dy > 0 || (dy === 0 && dx > 0);
+  });
+  const top = Math.max(0, Math.floor(Math.min(y0, y1, y2)));
+  const bottom = Math.min(size - 1, Math.ceil(Math.max(y0, y1, y2)));
+  const left = Math.max(0, Math.floor(Math.min(x0, x1, x2)));
+  const right = Math.min(size - 1, Math.ceil(Math.max(x0, x1, x2)));
+  for (let y = top; y <= bottom; y += 1) {
+    const cy = y + 0.5;
+    for (let x = left; x <= right; x += 1) {
+      const cx = x + 0.5;
+      const weights = edges.map(([[ax, ay], [bx, by]]) => ((ax - cx) * (by - cy) - (bx - cx) * (ay - cy)) / area);
+      if (weights.every((w, j) => w > 0 || (w === 0 && hasEdge[j]))) {
+        const [r, g, b, a] = colorAt(weights);
+        const i = (y * size + x) * 4;
+        pixels.set([r, g, b].map((c, j) => a * c * 255 + (1 - a) * pixels[i + j]), i);
+      }
+    }
+  }
+}
+
+/**
+ * Draws the rune as by show on a white square with sides of the given size,
+ * and returns the RGBA components of its pixels row by row from the top
+ */
+export function rasterizeRune(rune: Rune, size: number): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(size * size * 4)
+    .fill(255);
+  getDepthSortedTriangles(rune)
+    .forEach((triangle) => {
+      const points = triangle.corners.map((corner): Point => [
+        ((corner[0] + 1) / 2) * size,
+        ((1 - corner[1]) / 2) * size,
+      ]);
+      fillTriangle(
+        pixels,
+        size,
+        points,
+        (weights) => (triangle.rune.texture === null ? triangleColorAt(triangle, weights) : textureColor),
+      );
+    });
+  return pixels;
+}
+
+/** The pixels in which the drawings of two runes differ */
+export type RuneDiff = {
+  /** Side in pixels of the compared images */
+  size: number;
+
+  differentPixels: number;
+
+  /**
+   * The smallest rectangle [left, top, right, bottom] in pixels that has
+   * all of the different pixels, or null if there are none
+   */
+  bounds: [number, number, number, number] | null;
+};
+
+export function diffRunes(rune1: Rune, rune2: Rune, size: number): RuneDiff {
+  const pixels1 = rasterizeRune(rune1, size);
+  const pixels2 = rasterizeRune(rune2, size);
+  let differentPixels = 0;
+  let bounds: RuneDiff['bounds'] = null;
+  for (let i = 0; i < size * size; i += 1) {
+    let different = false;
+    for (let c = 0; c < 4; c += 1) {
+      if (Math.abs(pixels1[i * 4 + c] - pixels2[i * 4 + c]) > maxComponentDifference) {
+        different = true;
+      }
+    }
+    if (different) {
+      const x = i % size;
+      const y = Math.floor(i / size);
+      differentPixels += 1;
+      bounds = bounds === null
+        ? [x, y, x, y]
+        : [Math.min(bounds[0], x), Math.min(bounds[1], y), Math.max(bounds[2], x), Math.max(bounds[3], y)];
+    }
+  }
+  return {
+    size,
+    differentPixels,
+    bounds,
+  };
+}
+
+/** Describes the differences between the drawings of two runes */
+export function diffReport({ size, differentPixels, bounds }: RuneDiff): string {
+  const totalPixels = size * size;
+  if (bounds === null) {
+    return `The runes are drawn the same in all ${totalPixels} pixels of the ${size}x${size} image.`;
+  }
+  const percentage = ((differentPixels / totalPixels) * 100).toFixed(2);
+  const [left, top, right, bottom] = bounds;
+  return `The runes are drawn differently in ${differentPixels} of ${totalPixels} pixels (${percentage}%)`
+    + ` of the ${size}x${size} image, from x = ${left} to ${right} and y = ${top} to ${bottom},`
+    + ' counted from the top left corner.';
+}
@@ -0,0 +1,143 @@
+import {
+  assert_duration,
+  assert_frequency,
+  assert_loudness,
+  assert_sounds_equal,
+  dominant_frequency,
+  first_difference,
+  rms_loudness,
+  sounds_equal,
+} from '../assertions';
+import {
+  get_wave,
+  make_sound,
+  set_sample_rate,
+} from '../sounds';
+import {
+  silence_sound,
+  sine_sound,
+  square_sound,
+} from '../waveforms';
+
+set_sample_rate(8000);
+
+describe('comparing sounds', () => {
+  test('equal sounds have no difference', () => {
+    expect(sounds_equal(sine_sound(440, 0.5), sine_sound(440, 0.5), 0)).toBe(true);
+    expect(first_difference(sine_sound(440, 0.5), sine_sound(440, 0.5), 0)).toBeNull();
+    expect(assert_sounds_equal(sine_sound(440, 0.5), sine_sound(440, 0.5), 0)).toBe(true);
+  });
+
+  test('reports the first time at which sounds differ', () => {
+    const quiet = make_sound((t) => (t < 0.25 ? 0.5 : 0.4), 0.5);
+    const loud = make_sound(() => 0.5, 0.5);
+    expect(first_difference(quiet, loud, 0.01)).toBeCloseTo(0.25, 3);
+    expect(first_difference(quiet, loud, 0.2)).toBeNull();
+    expect(sounds_equal(quiet, loud, 0.01)).toBe(false);
+    expect(() => assert_sounds_equal(quiet, loud, 0.01)).toThrow(
+      'The sounds differ from 0.25 s on: expected an amplitude of 0.5, but the sound has 0.4 (tolerance 0.01)',
+    );
+  });
+
+  test('compares clipped amplitudes', () => {
+    const clipped = make_sound(() => 3, 0.1);
+    const full = make_sound(() => 1, 0.1);
+    expect(sounds_equal(clipped, full, 0)).toBe(true);
+  });
+
+  test('sounds of different durations are not equal', () => {
+    expect(sounds_equal(silence_sound(1), silence_sound(2), 0)).toBe(false);
+    expect(first_difference(silence_sound(1), silence_sound(2), 0)).toBeNull();
+    expect(first_difference(sine_sound(440, 1), sine_sound(440, 2), 0.01)).toBeCloseTo(1, 2);
+    expect(() => assert_sounds_equal(silence_sound(1), silence_sound(2), 0)).toThrow(
+      'Expected a sound lasting 2 s, but the sound lasts 1 s',
+    );
+  });
+
+  test('checks its arguments', () => {
+    expect(() => sounds_equal(1 as any, silence_sound(1), 0)).toThrow(
+      'sounds_equal is expecting sound, but encountered 1',
+    );
+    expect(() => first_difference(silence_sound(1), silence_sound(1), -1)).toThrow(
+      'first_difference is expecting a non-negative tolerance, but encountered -1',
+    );
+  });
+});
+
+describe('dominant frequency', () => {
+  test.each([110, 440, 1234.5])('finds the frequency of a %f Hz sine wave', (frequency) => {
+    expect(Math.abs(dominant_frequency(sine_sound(frequency, 1), 0, 1) - frequency))
+      .toBeLessThan(0.5);
+  });
+
+  test('finds the fundamental of a square wave', () => {
+    expect(dominant_frequency(square_sound(300, 1), 0.2, 0.6)).toBeCloseTo(300, 0);
+  });
+
+  test('only analyses the given time window', () => {
+    const low = get_wave(sine_sound(200, 1));
+    const high = get_wave(sine_sound(800, 1));
+    const sweep = make_sound((t) => (t < 1 ? low(t) : high(t - 1)), 2);
+    expect(dominant_frequency(sweep, 0, 1)).toBeCloseTo(200, 0);
+    expect(dominant_frequency(sweep, 1, 2)).toBeCloseTo(800, 0);
+  });
+
+  test('is 0 for silence', () => {
+    expect(dominant_frequency(silence_sound(1), 0, 1)).toBe(0);
+    expect(() => assert_frequency(silence_sound(1), 0, 1, 440, 1)).toThrow(
+      'Expected a frequency of 440 Hz from 0 s to 1 s, but the sound is silent there',
+    );
+  });
+
+  test('assert_frequency explains a wrong frequency', () => {
+    expect(assert_frequency(sine_sound(440, 1), 0, 1, 440, 1)).toBe(true);
+    expect(() => assert_frequency(sine_sound(330, 1), 0, 1, 440, 1)).toThrow(
+      'Expected a frequency of 440 Hz from 0 s to 1 s, but the loudest frequency is 330 Hz',
+    );
+  });
+
+  test('rejects an empty time window', () => {
+    expect(() => dominant_frequency(sine_sound(440, 1), 1, 1)).toThrow(
+      'dominant_frequency is expecting a start time before the end time, but encountered 1 and 1',
+    );
+  });
+});
+
+describe('loudness and duration', () => {
+  test('measures the loudness of a sine wave', () => {
+    expect(rms_loudness(sine_sound(440, 1), 0, 1)).toBeCloseTo(Math.SQRT1_2, 3);
+    expect(rms_loudness(make_sound(() => -0.5, 1), 0, 1)).toBeCloseTo(0.5, 6);
+  });
+
+  test('the sound is silent after its duration', () => {
+    expect(rms_loudness(sine_sound(440, 1), 1, 2)).toBe(0);
+    expect(rms_loudness(sine_sound(440, 1), 0.5, 1.5)).toBeCloseTo(0.5, 2);
+  });
+
+  test('assert_loudness explains a wrong loudness', () => {
+    expect(assert_loudness(silence_sound(1), 0, 1, 0, 0.001)).toBe(true);
+    expect(() => assert_loudness(make_sound(() => 0.25, 1), 0, 1, 0.5, 0.1)).toThrow(
+      'Expected a loudness of 0.5 from 0 s to 1 s, but the sound is quieter, with a loudness of 0.25',
+    );
+  });
+
+  test('assert_duration', () => {
+    expect(assert_duration(silence_sound(1.5), 1.5, 0)).toBe(true);
+    expect(assert_duration(silence_sound(1.5), 1.4, 0.2)).toBe(true);
+    expect(() => assert_duration(silence_sound(1.5), 2, 0.1)).toThrow(
+      'Expected a sound lasting 2 s, but the sound lasts 1.5 s',
+    );
+  });
+
+  test('rejects expected values that are not numbers', () => {
+    expect(() => assert_frequency(sine_sound(440, 1), 0, 1, '440' as any, 1)).toThrow(
+      'assert_frequency is expecting a number as the expected value, but encountered 440',
+    );
+    expect(() => assert_loudness(silence_sound(1), 0, 1, undefined as any, 0.001)).toThrow(
+      'assert_loudness is expecting a number as the expected value, but encountered undefined',
+    );
+    expect(() => assert_duration(silence_sound(1), 'one' as any, 0)).toThrow(
+      'assert_duration is expecting a number as the expected value, but encountered one',
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { head, pair, tail } from 'js-slang/dist/stdlib/list';
+import { to_mono, to_stereo } from '../channels';
+import type { Sound, StereoSound } from '../types';
+
+const mono: Sound = pair((t: number) => t, 1);
+const stereo: StereoSound = pair(pair((_t: number) => 0.5, (_t: number) => -0.25), 2);
+
+test('to_stereo plays a mono sound on both channels', () => {
+  const converted = to_stereo(mono);
+  expect(head(head(converted))(0.5))
+    .toBe(0.5);
+  expect(tail(head(converted))(0.5))
+    .toBe(0.5);
+  expect(tail(converted))
+    .toBe(1);
+});
+
+test('to_mono averages both channels', () => {
+  const converted = to_mono(stereo);
+  expect(head(converted)(1))
+    .toBe(0.125);
+  expect(tail(converted))
+    .toBe(2);
+});
+
+test('converted waves are silent after the duration', () => {
+  expect(head(head(to_stereo(mono)))(1.5))
+    .toBe(0);
+  expect(head(to_mono(stereo))(2))
+    .toBe(0);
+});
+
+test('sounds that are already converted are returned unchanged', () => {
+  expect(to_stereo(stereo))
+    .toBe(stereo);
+  expect(to_mono(mono))
+    .toBe(mono);
+});
+
+test('other values are rejected', () => {
+  expect(() => to_stereo(pair(1, 2) as any))
+    .toThrow('to_stereo is expecting sound');
+  expect(() => to_mono(null as any))
+    .toThrow('to_mono is expecting sound');
+});
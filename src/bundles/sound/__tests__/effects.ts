@@ -0,0 +1,186 @@
+import { list } from 'js-slang/dist/stdlib/list';
+import {
+  band_pass_filter,
+  bitcrusher,
+  echo,
+  high_pass_filter,
+  low_pass_filter,
+  reverb,
+  soft_clip,
+  tremolo,
+  vibrato,
+} from '../effects';
+import {
+  get_duration,
+  get_wave,
+  make_sound,
+  set_sample_rate,
+} from '../sounds';
+import type { Sound } from '../types';
+import {
+  consecutively,
+  simultaneously,
+  sine_sound,
+} from '../waveforms';
+
+const FS = 8000;
+set_sample_rate(FS);
+
+// Samples the sound at the sample rate the effects use
+function sample(sound: Sound, from: number = 0): number[] {
+  const wave = get_wave(sound);
+  const samples: number[] = [];
+  for (let i = Math.round(from * FS); i < get_duration(sound) * FS; i += 1) {
+    samples.push(wave(i / FS));
+  }
+  return samples;
+}
+
+function rms(samples: number[]): number {
+  return Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
+}
+
+// Two samples of amplitude 1 at the start of the sound
+function impulse(duration: number): Sound {
+  return make_sound((t) => (t < 2 / FS ? 1 : 0), duration);
+}
+
+describe('filters', () => {
+  const low = sine_sound(100, 1);
+  const high = sine_sound(3000, 1);
+
+  test('low_pass_filter keeps low and removes high frequencies', () => {
+    // Skip the first 0.1s, in which the filter settles
+    expect(rms(sample(low_pass_filter(500, 0.707)(low), 0.1)))
+      .toBeCloseTo(Math.SQRT1_2, 2);
+    expect(rms(sample(low_pass_filter(500, 0.707)(high), 0.1)))
+      .toBeLessThan(0.03);
+  });
+
+  test('high_pass_filter keeps high and removes low frequencies', () => {
+    expect(rms(sample(high_pass_filter(1000, 0.707)(high), 0.1)))
+      .toBeCloseTo(Math.SQRT1_2, 1);
+    expect(rms(sample(high_pass_filter(1000, 0.707)(low), 0.1)))
+      .toBeLessThan(0.01);
+  });
+
+  test('band_pass_filter keeps only the center frequency', () => {
+    const center = sine_sound(1000, 1);
+    expect(rms(sample(band_pass_filter(1000, 5)(center), 0.1)))
+      .toBeCloseTo(Math.SQRT1_2, 2);
+    expect(rms(sample(band_pass_filter(1000, 5)(low), 0.1)))
+      .toBeLessThan(0.03);
+    expect(rms(sample(band_pass_filter(1000, 5)(high), 0.1)))
+      .toBeLessThan(0.1);
+  });
+
+  test('filtered waves can be evaluated in any order', () => {
+    const filtered = low_pass_filter(500, 0.707)(high);
+    const backwards = sample(filtered)
+      .map((_, i, samples) => get_wave(filtered)((samples.length - 1 - i) / FS))
+      .reverse();
+    expect(backwards)
+      .toEqual(sample(low_pass_filter(500, 0.707)(high)));
+  });
+
+  test('filters reject invalid parameters', () => {
+    expect(() => low_pass_filter(-1, 1))
+      .toThrow('low_pass_filter is expecting frequency to be a positive number');
+    expect(() => high_pass_filter(100, 0))
+      .toThrow('high_pass_filter is expecting q to be a positive number');
+  });
+});
+
+describe('delay-based effects', () => {
+  test('echo repeats the sound with decreasing amplitude', () => {
+    const samples = sample(echo(0.1, 0.5, 0.8)(impulse(0.5)));
+    expect([samples[1], samples[801], samples[1601], samples[2401]])
+      .toEqual([1, 0.8, 0.4, 0.2]);
+    expect(samples[401])
+      .toBe(0);
+  });
+
+  test('echo leaves out quiet echoes and adds at most 100', () => {
+    let calls = 0;
+    const counted = make_sound(() => {
+      calls += 1;
+      return 0;
+    }, 1000);
+    get_wave(echo(0.01, 0.5, 1)(counted))(500);
+    // the 11th echo would have an amplitude of 0.5 ^ 10 < 1/1000
+    expect(calls)
+      .toBe(1 + 10);
+    calls = 0;
+    get_wave(echo(0.01, 1, 1)(counted))(500);
+    expect(calls)
+      .toBe(1 + 100);
+  });
+
+  test('reverb leaves a decaying tail after the sound ends', () => {
+    const samples = sample(reverb(1, 0.5)(impulse(1)));
+    expect(samples[1])
+      .toBe(0.5);
+    const early = rms(samples.slice(FS * 0.05, FS * 0.25));
+    const late = rms(samples.slice(FS * 0.75));
+    expect(early)
+      .toBeGreaterThan(0);
+    expect(late)
+      .toBeLessThan(early);
+  });
+
+  test('reverb is deterministic', () => {
+    expect(sample(reverb(0.5, 0.3)(impulse(0.5))))
+      .toEqual(sample(reverb(0.5, 0.3)(impulse(0.5))));
+  });
+});
+
+describe('distortion', () => {
+  test('soft_clip keeps full amplitude and squashes loud parts', () => {
+    const wave = get_wave(soft_clip(4)(make_sound((t) => t, 1)));
+    expect(wave(0))
+      .toBe(0);
+    expect(wave(0.999999))
+      .toBeCloseTo(1);
+    expect(wave(0.5))
+      .toBeGreaterThan(0.9);
+  });
+
+  test('bitcrusher quantizes amplitude and holds samples', () => {
+    const wave = get_wave(bitcrusher(2, 10)(make_sound((t) => t, 1)));
+    expect([wave(0.05), wave(0.15), wave(0.45), wave(0.95)])
+      .toEqual([0, 0, 0.5, 1]);
+  });
+});
+
+describe('modulation', () => {
+  test('tremolo changes the volume periodically', () => {
+    const wave = get_wave(tremolo(2, 0.5)(make_sound((_t) => 1, 1)));
+    expect(wave(0))
+      .toBe(1);
+    expect(wave(0.25))
+      .toBeCloseTo(0.5);
+    expect(wave(0.5))
+      .toBeCloseTo(1);
+  });
+
+  test('vibrato delays the sound periodically', () => {
+    const wave = get_wave(vibrato(1, 0.1)(make_sound((t) => t, 2)));
+    expect(wave(0))
+      .toBe(0);
+    expect(wave(1.5))
+      .toBeCloseTo(1.4);
+  });
+});
+
+test('effects compose with consecutively and simultaneously', () => {
+  const a = echo(0.1, 0.5, 0.5)(sine_sound(440, 0.5));
+  const b = low_pass_filter(800, 0.707)(sine_sound(220, 0.25));
+  expect(get_duration(consecutively(list(a, b))))
+    .toBeCloseTo(0.75);
+  expect(get_duration(simultaneously(list(a, b))))
+    .toBeCloseTo(0.5);
+  expect(get_wave(consecutively(list(b, b)))(0.3))
+    .toBeCloseTo(get_wave(b)(0.05));
+  expect(get_wave(simultaneously(list(a, b)))(0.1))
+    .toBeCloseTo((get_wave(a)(0.1) + get_wave(b)(0.1)) / 2);
+});
@@ -0,0 +1,24 @@
+import { adsrEnvelope, linearDecay } from '../envelopes';
+
+test('linearDecay falls from 1 to 0 over the decay period', () => {
+  const decay = linearDecay(2);
+  expect(decay(0))
+    .toBe(1);
+  expect(decay(1))
+    .toBe(0.5);
+  expect(decay(3))
+    .toBe(0);
+});
+
+test('adsrEnvelope follows attack, decay, sustain and release', () => {
+  // Attack until 1, decay until 2, sustain until 8, release until 10
+  const envelope = adsrEnvelope(0.1, 0.1, 0.5, 0.2, 10);
+  expect(envelope(0.5))
+    .toBeCloseTo(0.5);
+  expect(envelope(1.5))
+    .toBeCloseTo(0.75);
+  expect(envelope(5))
+    .toBe(0.5);
+  expect(envelope(9))
+    .toBeCloseTo(0.25);
+});
@@ -0,0 +1,86 @@
+import { fft, magnitudeSpectrum, spectrogram, SPECTRUM_SIZE } from '../fft';
+
+const FS = 8192;
+
+function sine(freq: number, amplitude: number, length: number) {
+  return Float64Array.from(
+    { length },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * freq * i) / FS),
+  );
+}
+
+function peak(magnitudes: Float64Array) {
+  return magnitudes.indexOf(Math.max(...magnitudes));
+}
+
+test('fft matches a naive discrete Fourier transform', () => {
+  const n = 16;
+  const input = Array.from({ length: n }, (_, i) => Math.sin(i) + 0.5 * Math.cos(3 * i));
+  const re = Float64Array.from(input);
+  const im = new Float64Array(n);
+  fft(re, im);
+
+  for (let k = 0; k < n; k += 1) {
+    let expectedRe = 0;
+    let expectedIm = 0;
+    for (let i = 0; i < n; i += 1) {
+      expectedRe += input[i] * Math.cos((-2 * Math.PI * k * i) / n);
+      expectedIm += input[i] * Math.sin((-2 * Math.PI * k * i) / n);
+    }
+    expect(re[k])
+      .toBeCloseTo(expectedRe);
+    expect(im[k])
+      .toBeCloseTo(expectedIm);
+  }
+});
+
+test('fft of an impulse is flat', () => {
+  const re = new Float64Array(8);
+  const im = new Float64Array(8);
+  re[0] = 1;
+  fft(re, im);
+  expect(Array.from(re))
+    .toEqual([1, 1, 1, 1, 1, 1, 1, 1]);
+});
+
+test('fft rejects lengths that are not powers of 2', () => {
+  expect(() => fft(new Float64Array(12), new Float64Array(12)))
+    .toThrow('power of 2');
+});
+
+test('spectrum of a sine peaks at its frequency with its amplitude', () => {
+  // 440 Hz lies exactly on bin 110 with these sizes
+  const magnitudes = magnitudeSpectrum(sine(440, 0.5, SPECTRUM_SIZE), 0);
+  expect(magnitudes.length)
+    .toBe(SPECTRUM_SIZE / 2 + 1);
+  expect(peak(magnitudes))
+    .toBe((440 * SPECTRUM_SIZE) / FS);
+  expect(magnitudes[110])
+    .toBeCloseTo(0.5);
+  expect(magnitudes[200])
+    .toBeLessThan(1e-6);
+});
+
+test('spectrum of a sum of sines has a peak for each sine', () => {
+  const samples = sine(1000, 0.25, SPECTRUM_SIZE)
+    .map((x, i) => x + Math.sin((2 * Math.PI * 3000 * i) / FS));
+  const magnitudes = magnitudeSpectrum(samples, 0);
+  expect(magnitudes[250])
+    .toBeCloseTo(0.25);
+  expect(magnitudes[750])
+    .toBeCloseTo(1);
+});
+
+test('spectrogram follows a change in frequency', () => {
+  const samples = new Float64Array([
+    ...sine(512, 1, FS / 2),
+    ...sine(2048, 1, FS / 2),
+  ]);
+  const columns = spectrogram(samples, SPECTRUM_SIZE);
+  expect(columns.length)
+    .toBe(4);
+  expect(peak(columns[0]))
+    .toBe(128);
+  expect(peak(columns[3]))
+    .toBe(512);
+});
@@ -0,0 +1,146 @@
+import { list } from 'js-slang/dist/stdlib/list';
+import { magnitudeSpectrum } from '../fft';
+import {
+  drawbar_organ,
+  electric_piano,
+  hi_hat,
+  kick_drum,
+  organ,
+  plucked_string,
+  snare_drum,
+} from '../instruments';
+import { midi_note_to_frequency } from '../notes';
+import {
+  get_duration,
+  get_wave,
+  set_sample_rate,
+} from '../sounds';
+import type { Sound } from '../types';
+
+const FS = 16000;
+set_sample_rate(FS);
+
+function sample(sound: Sound, from: number = 0, to: number = get_duration(sound)): Float64Array {
+  const wave = get_wave(sound);
+  const samples = new Float64Array(Math.round((to - from) * FS));
+  for (let i = 0; i < samples.length; i += 1) {
+    samples[i] = wave(from + i / FS);
+  }
+  return samples;
+}
+
+function rms(samples: Float64Array): number {
+  return Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
+}
+
+function peak(samples: Float64Array): number {
+  return samples.reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+}
+
+// Frequency of the loudest bin of the spectrum of 16384 samples
+function dominantFrequency(samples: Float64Array): number {
+  const size = 16384;
+  const magnitudes = magnitudeSpectrum(samples, 0, size);
+  let loudest = 1;
+  for (let k = 1; k < magnitudes.length; k += 1) {
+    if (magnitudes[k] > magnitudes[loudest]) {
+      loudest = k;
+    }
+  }
+  return (loudest * FS) / size;
+}
+
+// Frequency within 10% of the given frequency at which the Fourier transform
+// of the samples has the largest magnitude, in steps of 0.1%
+function peakNear(samples: Float64Array, frequency: number): number {
+  let best = frequency;
+  let bestMagnitude = 0;
+  for (let step = -100; step <= 100; step += 1) {
+    const candidate = frequency * (1 + step / 1000);
+    let re = 0;
+    let im = 0;
+    samples.forEach((x, i) => {
+      re += x * Math.cos((2 * Math.PI * candidate * i) / FS);
+      im += x * Math.sin((2 * Math.PI * candidate * i) / FS);
+    });
+    if (Math.hypot(re, im) > bestMagnitude) {
+      best = candidate;
+      bestMagnitude = Math.hypot(re, im);
+    }
+  }
+  return best;
+}
+
+describe('plucked_string', () => {
+  test('is tuned to the note', () => {
+    // Both high and low notes, whose period is not a whole number of samples
+    [45, 57, 69, 80].forEach((note) => {
+      const samples = sample(plucked_string(note, 0.6), 0.1, 0.5);
+      const frequency = midi_note_to_frequency(note);
+      expect(Math.abs(peakNear(samples, frequency) - frequency))
+        .toBeLessThan(frequency * 0.002);
+    });
+  });
+
+  test('fades out over time', () => {
+    const sound = plucked_string(60, 3);
+    expect(rms(sample(sound, 2, 2.5))).toBeLessThan(rms(sample(sound, 0, 0.5)) / 2);
+  });
+
+  test('ends in silence to avoid clicks', () => {
+    const samples = sample(plucked_string(60, 0.5));
+    expect(Math.abs(samples[samples.length - 1])).toBeLessThan(0.01);
+  });
+});
+
+describe('electric_piano', () => {
+  test('is tuned to the note and stays within range', () => {
+    const samples = sample(electric_piano(57, 2), 0.5, 1.6);
+    expect(Math.abs(dominantFrequency(samples) - 220)).toBeLessThan(2);
+    expect(peak(sample(electric_piano(57, 2)))).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('drums', () => {
+  test('kick_drum has most energy at its low pitch', () => {
+    const samples = sample(kick_drum(36, 1.1), 0.05);
+    expect(dominantFrequency(samples)).toBeLessThan(80);
+  });
+
+  test('hi_hat has no energy at low frequencies', () => {
+    const samples = sample(hi_hat(42, 1.1));
+    const magnitudes = magnitudeSpectrum(samples, 0, 16384);
+    const low = magnitudes.slice(0, 1024).reduce((sum, x) => sum + x, 0);
+    const high = magnitudes.slice(7168).reduce((sum, x) => sum + x, 0);
+    expect(low).toBeLessThan(high / 100);
+  });
+
+  test('drums decay and stay within range', () => {
+    [kick_drum(36, 1), snare_drum(38, 1), hi_hat(42, 1)].forEach((drum) => {
+      expect(peak(sample(drum))).toBeLessThanOrEqual(1);
+      expect(rms(sample(drum, 0.5, 0.9))).toBeLessThan(rms(sample(drum, 0, 0.1)) / 10);
+    });
+  });
+
+  test('drums last for the given duration', () => {
+    expect(get_duration(snare_drum(38, 0.25))).toBe(0.25);
+  });
+});
+
+describe('organs', () => {
+  test('drawbar_organ plays the harmonics of its drawbars', () => {
+    // Only the 4' drawbar, an octave above the note
+    const samples = sample(drawbar_organ(list(0, 0, 0, 8))(57, 1.1));
+    expect(Math.abs(dominantFrequency(samples) - 440)).toBeLessThan(2);
+  });
+
+  test('organ stays within range', () => {
+    expect(peak(sample(organ(60, 1)))).toBeLessThanOrEqual(1);
+  });
+
+  test('drawbar_organ rejects invalid drawbars', () => {
+    expect(() => drawbar_organ(list(9))).toThrow('drawbar levels from 0 to 8');
+    expect(() => drawbar_organ(list(1, 2, 3, 4, 5, 6, 7, 8, 8, 8)))
+      .toThrow('list of up to 9 drawbar levels');
+  });
+});
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import { parseMidi } from '../midi';
+
+function readFixture(name: string): Uint8Array {
+  return new Uint8Array(fs.readFileSync(path.join(__dirname, 'fixtures', name)));
+}
+
+describe('parseMidi', () => {
+  test('reads a format 0 file with a tempo change and running status', () => {
+    const sequence = parseMidi(readFixture('format0.mid'));
+    expect(sequence.events.map((event) => event.note)).toEqual([60, 64]);
+
+    const [c, e] = sequence.events;
+    expect(c.start).toBeCloseTo(0);
+    expect(c.duration).toBeCloseTo(0.5);
+    expect(c.volume).toBeCloseTo(100 / 127);
+    // Half a second at 120 bpm, then a second at 60 bpm
+    expect(e.start).toBeCloseTo(0.5);
+    expect(e.duration).toBeCloseTo(1.5);
+    expect(e.volume).toBeCloseTo(64 / 127);
+    expect(sequence.duration).toBeCloseTo(2);
+  });
+
+  test('applies the tempo track of a format 1 file to all tracks', () => {
+    const sequence = parseMidi(readFixture('format1.mid'));
+    expect(sequence.events.map((event) => event.note)).toEqual([67, 48]);
+
+    const [g, c] = sequence.events;
+    // 100 bpm, so 0.6s per beat
+    expect(g.start).toBeCloseTo(0);
+    expect(g.duration).toBeCloseTo(1.2);
+    expect(g.volume).toBeCloseTo(1);
+    expect(c.start).toBeCloseTo(0.6);
+    expect(c.duration).toBeCloseTo(0.6);
+    expect(sequence.duration).toBeCloseTo(1.2);
+  });
+
+  test('leaves out notes on the percussion channel', () => {
+    const sequence = parseMidi(readFixture('format1.mid'));
+    expect(sequence.events.some((event) => event.note === 36)).toBe(false);
+  });
+
+  test('rejects data that is not a MIDI file', () => {
+    expect(() => parseMidi(new Uint8Array([82, 73, 70, 70, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0])))
+      .toThrow('not a MIDI file');
+  });
+
+  test('rejects truncated files', () => {
+    const bytes = readFixture('format0.mid');
+    expect(() => parseMidi(bytes.subarray(0, bytes.length - 10)))
+      .toThrow('unexpected end of data');
+  });
+});
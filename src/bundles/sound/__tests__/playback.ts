@@ -0,0 +1,208 @@
+import { pair } from 'js-slang/dist/stdlib/list';
+import {
+  get_playback_position,
+  pause_sound,
+  resume_sound,
+  seek_sound,
+  startPlayback,
+  stop_sound,
+  type SoundPlayback,
+} from '../playback';
+import { CHUNK_SIZE, renderChannels } from '../render';
+import type { Sound } from '../types';
+
+// Records how the sources of the fake AudioContext are started and stopped
+class FakeSource {
+  public buffer: AudioBuffer | null = null;
+
+  public onended: (() => void) | null = null;
+
+  public offset: number | null = null;
+
+  public stopped = false;
+
+  public connect() {}
+
+  public disconnect() {}
+
+  public start(_when: number, offset: number) {
+    this.offset = offset;
+  }
+
+  public stop() {
+    this.stopped = true;
+  }
+}
+
+class FakeContext {
+  public currentTime = 0;
+
+  public destination = {};
+
+  public sources: FakeSource[] = [];
+
+  public createBuffer() {
+    return { copyToChannel() {} };
+  }
+
+  public createBufferSource() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+}
+
+// Starts a silent sound of 2 seconds with the fake context, and waits for
+// it to be rendered unless it should still be rendering
+async function startSound(rendered: boolean = true) {
+  const context = new FakeContext();
+  const playbacks = new Set<SoundPlayback>();
+  let finishRendering = () => {};
+  const rendering = rendered
+    ? Promise.resolve([new Float32Array(8)])
+    : new Promise<Float32Array[]>((resolve) => {
+      finishRendering = () => resolve([new Float32Array(8)]);
+    });
+  const handle = startPlayback(context as any, rendering, 2, 4, playbacks);
+  await Promise.resolve();
+  return {
+    context,
+    playbacks,
+    handle,
+    finishRendering: async () => {
+      finishRendering();
+      await rendering;
+    },
+  };
+}
+
+describe('playback handles', () => {
+  test('play once rendered, at the position of the context time', async () => {
+    const { context, playbacks, handle } = await startSound();
+    expect(context.sources.map((source) => source.offset))
+      .toEqual([0]);
+    expect(playbacks.has(handle))
+      .toBe(true);
+    context.currentTime = 0.5;
+    expect(get_playback_position(handle))
+      .toBe(0.5);
+  });
+
+  test('keep their position while paused and resume from it', async () => {
+    const { context, handle } = await startSound();
+    context.currentTime = 0.5;
+    pause_sound(handle);
+    expect(context.sources[0].stopped)
+      .toBe(true);
+    expect(handle.isPlaying)
+      .toBe(false);
+    context.currentTime = 1.5;
+    expect(get_playback_position(handle))
+      .toBe(0.5);
+    resume_sound(handle);
+    expect(context.sources.map((source) => source.offset))
+      .toEqual([0, 0.5]);
+    context.currentTime = 2;
+    expect(get_playback_position(handle))
+      .toBe(1);
+  });
+
+  test('seek within the sound, clamping positions outside of it', async () => {
+    const { context, handle } = await startSound();
+    seek_sound(handle, 1.5);
+    expect(context.sources[0].stopped)
+      .toBe(true);
+    expect(get_playback_position(handle))
+      .toBe(1.5);
+    seek_sound(handle, 5);
+    expect(get_playback_position(handle))
+      .toBe(2);
+    seek_sound(handle, -1);
+    expect(context.sources.map((source) => source.offset))
+      .toEqual([0, 1.5, 2, 0]);
+
+    pause_sound(handle);
+    seek_sound(handle, 1);
+    expect(get_playback_position(handle))
+      .toBe(1);
+    expect(context.sources)
+      .toHaveLength(4);
+    resume_sound(handle);
+    expect(context.sources[4].offset)
+      .toBe(1);
+  });
+
+  test('cannot be resumed once stopped', async () => {
+    const { context, playbacks, handle } = await startSound();
+    context.currentTime = 0.5;
+    stop_sound(handle);
+    expect(playbacks.size)
+      .toBe(0);
+    resume_sound(handle);
+    expect(handle.isPlaying)
+      .toBe(false);
+    expect(context.sources)
+      .toHaveLength(1);
+    expect(get_playback_position(handle))
+      .toBe(0.5);
+  });
+
+  test('stop at the end of the sound', async () => {
+    const { context, playbacks, handle } = await startSound();
+    context.currentTime = 2;
+    context.sources[0].onended!();
+    expect(handle.isPlaying)
+      .toBe(false);
+    expect(playbacks.size)
+      .toBe(0);
+    expect(get_playback_position(handle))
+      .toBe(2);
+  });
+
+  test('can be paused before the sound has been rendered', async () => {
+    const { context, handle, finishRendering } = await startSound(false);
+    pause_sound(handle);
+    await finishRendering();
+    expect(context.sources)
+      .toHaveLength(0);
+    resume_sound(handle);
+    expect(context.sources.map((source) => source.offset))
+      .toEqual([0]);
+  });
+
+  test('are checked by the handle functions', () => {
+    expect(() => stop_sound(1 as any))
+      .toThrow('stop_sound is expecting a handle returned by play_concurrently, but encountered 1');
+    expect(() => get_playback_position({} as any))
+      .toThrow('get_playback_position is expecting a handle returned by play_concurrently');
+  });
+});
+
+test('sounds that fail to render after the first chunk are stopped', async () => {
+  const errorSpy = jest.spyOn(console, 'error')
+    .mockImplementation(() => {});
+  // Fails once the first chunk has been rendered
+  const wave = (t: number) => {
+    if (t * 8000 >= CHUNK_SIZE) {
+      throw new Error('wave failed');
+    }
+    return 0;
+  };
+  const failing: Sound = pair(wave, 5);
+  const rendering = renderChannels(failing, [wave], 5, 8000);
+  const playbacks = new Set<SoundPlayback>();
+  const playback = startPlayback({} as AudioContext, rendering, 5, 8000, playbacks);
+  expect(playback.isPlaying)
+    .toBe(true);
+
+  await expect(rendering)
+    .rejects
+    .toThrow('wave failed');
+  expect(playback.isPlaying)
+    .toBe(false);
+  expect(playbacks.size)
+    .toBe(0);
+  expect(errorSpy)
+    .toHaveBeenCalledWith('play_concurrently: error while rendering sound: Error: wave failed');
+  errorSpy.mockRestore();
+});
@@ -0,0 +1,88 @@
+import { pair } from 'js-slang/dist/stdlib/list';
+import {
+  CHUNK_SIZE,
+  mixDown,
+  renderChannels,
+  renderSound,
+  renderSoundSync,
+  samplesToWave,
+} from '../render';
+import type { Sound } from '../types';
+
+const sine: Sound = pair((t: number) => Math.sin(2 * Math.PI * 440 * t), 1);
+
+test('sounds are sampled at the given sample rate', () => {
+  const samples = renderSoundSync(sine, 8000);
+  expect(samples.length)
+    .toBe(8000);
+  expect(samples[2])
+    .toBeCloseTo(Math.sin(2 * Math.PI * 440 * (2 / 8000)));
+});
+
+test('amplitudes are clipped to [-1, 1]', () => {
+  const loud: Sound = pair((t: number) => (t < 0.5 ? 3 : -3), 1);
+  const samples = renderSoundSync(loud, 100);
+  expect(samples[0])
+    .toBe(1);
+  expect(samples[99])
+    .toBe(-1);
+});
+
+test('chunked rendering matches rendering in one go', async () => {
+  const copy: Sound = pair((t: number) => Math.sin(2 * Math.PI * 440 * t), 1);
+  const expected = renderSoundSync(copy, 44100);
+  expect(44100)
+    .toBeGreaterThan(CHUNK_SIZE);
+  expect(Array.from(await renderSound(sine, 44100)))
+    .toEqual(Array.from(expected));
+});
+
+test('rendered sounds are cached', async () => {
+  let calls = 0;
+  const counted: Sound = pair((_t: number) => {
+    calls += 1;
+    return 0.5;
+  }, 1);
+  const first = await renderSound(counted, 1000);
+  const second = renderSoundSync(counted, 1000);
+  expect(second)
+    .toBe(first);
+  expect(calls)
+    .toBe(1000);
+
+  renderSoundSync(counted, 2000);
+  expect(calls)
+    .toBe(3000);
+});
+
+test('each wave is rendered into its own channel', async () => {
+  const stereo = {};
+  const [left, right] = await renderChannels(
+    stereo,
+    [(_t: number) => 0.5, (t: number) => (t < 0.5 ? -1 : 2)],
+    1,
+    100,
+  );
+  expect(left.length)
+    .toBe(100);
+  expect(right.length)
+    .toBe(100);
+  expect(left[99])
+    .toBe(0.5);
+  expect(right[0])
+    .toBe(-1);
+  expect(right[99])
+    .toBe(1);
+  expect(Array.from(mixDown([left, right]).subarray(0, 2)))
+    .toEqual([-0.25, -0.25]);
+});
+
+test('samplesToWave interpolates between samples', () => {
+  const wave = samplesToWave([0, 1, 0.5], 10);
+  expect(wave(0.05))
+    .toBeCloseTo(0.5);
+  expect(wave(0.15))
+    .toBeCloseTo(0.75);
+  expect(wave(1))
+    .toBe(0);
+});
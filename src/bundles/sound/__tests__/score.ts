@@ -0,0 +1,41 @@
+import { parseScore } from '../score';
+
+describe('parseScore', () => {
+  test('reads notes with accidentals and octaves', () => {
+    const sequence = parseScore('C4 F#3 Bb5 A');
+    expect(sequence.events.map((event) => event.note)).toEqual([60, 54, 82, 81]);
+  });
+
+  test('places notes one after another at the default tempo', () => {
+    const sequence = parseScore('C D:2 E');
+    expect(sequence.events.map((event) => event.start)).toEqual([0, 0.5, 1.5]);
+    // Durations persist until changed
+    expect(sequence.events.map((event) => event.duration)).toEqual([0.5, 1, 1]);
+    expect(sequence.duration).toBeCloseTo(2.5);
+  });
+
+  test('reads rests, bar lines and fractional durations', () => {
+    const sequence = parseScore('C4:1/2 R | D:0.25');
+    expect(sequence.events.map((event) => event.start)).toEqual([0, 0.5]);
+    expect(sequence.events[1].duration).toBeCloseTo(0.125);
+  });
+
+  test('plays the notes of a chord together', () => {
+    const sequence = parseScore('[C4 E G]:2 C5');
+    expect(sequence.events.map((event) => event.note)).toEqual([60, 64, 67, 72]);
+    expect(sequence.events.map((event) => event.start)).toEqual([0, 0, 0, 1]);
+  });
+
+  test('changes the tempo', () => {
+    const sequence = parseScore('T:60 C T:240 D E');
+    expect(sequence.events.map((event) => event.start)).toEqual([0, 1, 1.25]);
+    expect(sequence.duration).toBeCloseTo(1.5);
+  });
+
+  test('reports the position of invalid tokens', () => {
+    expect(() => parseScore('C4 H4')).toThrow('unknown note "H4" in "H4" at position 3');
+    expect(() => parseScore('C4:0')).toThrow('invalid duration "0"');
+    expect(() => parseScore('[C4 E')).toThrow('chord is missing "]"');
+    expect(() => parseScore('[]')).toThrow('empty chord');
+  });
+});
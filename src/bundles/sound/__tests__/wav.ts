@@ -0,0 +1,112 @@
+import { dataUriToBytes } from '../utilities';
+import { decodeWav, encodeWav } from '../wav';
+
+const samples = [0, 0.25, 0.5, -0.5, 1, -1, 0.123456];
+
+function ascii(bytes: Uint8Array, start: number) {
+  return String.fromCharCode(...Array.from(bytes.subarray(start, start + 4)));
+}
+
+// Builds a 16 bit PCM WAV file with the given interleaved samples
+function makeWav(numChannels: number, sampleRate: number, data: number[]) {
+  const bytes = new Uint8Array(44 + data.length * 2);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x52, 0x49, 0x46, 0x46], 0);
+  view.setUint32(4, 36 + data.length * 2, true);
+  bytes.set([0x57, 0x41, 0x56, 0x45, 0x66, 0x6d, 0x74, 0x20], 8);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  bytes.set([0x64, 0x61, 0x74, 0x61], 36);
+  view.setUint32(40, data.length * 2, true);
+  data.forEach((value, i) => view.setInt16(44 + i * 2, value, true));
+  return bytes;
+}
+
+test('encoded WAV has a valid header', () => {
+  const bytes = dataUriToBytes(encodeWav([samples], 44100, 16));
+  const view = new DataView(bytes.buffer);
+  expect(ascii(bytes, 0))
+    .toBe('RIFF');
+  expect(ascii(bytes, 8))
+    .toBe('WAVE');
+  expect(view.getUint16(20, true))
+    .toBe(1);
+  expect(view.getUint32(24, true))
+    .toBe(44100);
+  expect(view.getUint32(28, true))
+    .toBe(88200);
+  expect(view.getUint32(40, true))
+    .toBe(samples.length * 2);
+  expect(bytes.length)
+    .toBe(44 + samples.length * 2);
+});
+
+test('16 bit WAV round trips within quantization error', () => {
+  const decoded = decodeWav(dataUriToBytes(encodeWav([samples], 22050, 16)));
+  expect(decoded.sampleRate)
+    .toBe(22050);
+  expect(decoded.samples.length)
+    .toBe(samples.length);
+  samples.forEach((sample, i) => expect(Math.abs(decoded.samples[i] - sample))
+    .toBeLessThan(1 / 32767));
+});
+
+test('24 bit WAV round trips within quantization error', () => {
+  const decoded = decodeWav(dataUriToBytes(encodeWav([samples], 44100, 24)));
+  samples.forEach((sample, i) => expect(Math.abs(decoded.samples[i] - sample))
+    .toBeLessThan(1 / 8388607));
+});
+
+test('32 bit float WAV round trips exactly', () => {
+  const bytes = dataUriToBytes(encodeWav([samples], 44100, 32));
+  expect(new DataView(bytes.buffer).getUint16(20, true))
+    .toBe(3);
+  expect(Array.from(decodeWav(bytes).samples))
+    .toEqual(Array.from(new Float32Array(samples)));
+});
+
+test('stereo WAV is mixed down to mono', () => {
+  const decoded = decodeWav(makeWav(2, 8000, [16384, 0, -16384, -16384]));
+  expect(decoded.sampleRate)
+    .toBe(8000);
+  expect(Array.from(decoded.samples))
+    .toEqual([0.25, -0.5]);
+  expect(decoded.channels.map((channel) => Array.from(channel)))
+    .toEqual([[0.5, -0.5], [0, -0.5]]);
+});
+
+test('stereo WAV round trips with interleaved channels', () => {
+  const right = samples.map((sample) => -sample / 2);
+  const bytes = dataUriToBytes(encodeWav([samples, right], 44100, 32));
+  expect(new DataView(bytes.buffer).getUint16(22, true))
+    .toBe(2);
+  expect(decodeWav(bytes).channels.map((channel) => Array.from(channel)))
+    .toEqual([samples, right].map((channel) => Array.from(new Float32Array(channel))));
+});
+
+test('decoding rejects files that are not WAV files', () => {
+  expect(() => decodeWav(new Uint8Array(64)))
+    .toThrow('not a WAV file');
+});
+
+test('decoding rejects fmt chunks without channels or samples per second, or with unsupported bit depths', () => {
+  const noChannels = makeWav(1, 8000, [0, 0]);
+  new DataView(noChannels.buffer).setUint16(22, 0, true);
+  expect(() => decodeWav(noChannels))
+    .toThrow('invalid WAV file: fmt chunk has no channels');
+
+  const noSampleRate = makeWav(1, 8000, [0, 0]);
+  new DataView(noSampleRate.buffer).setUint32(24, 0, true);
+  expect(() => decodeWav(noSampleRate))
+    .toThrow('invalid WAV file: fmt chunk has a sample rate of 0');
+
+  const fourBits = makeWav(1, 8000, [0, 0]);
+  new DataView(fourBits.buffer).setUint16(34, 4, true);
+  expect(() => decodeWav(fourBits))
+    .toThrow('unsupported WAV bit depth: 4');
+});
@@ -0,0 +1,52 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { pair, type List } from 'js-slang/dist/stdlib/list';
+import { magnitudeSpectrum, SPECTRUM_SIZE } from './fft';
+import {
+  get_duration,
+  get_sample_rate,
+  get_wave,
+  is_sound,
+} from './sounds';
+import type { Sound } from './types';
+
+/**
+ * Returns the frequency content of a Sound around the given time, as a list
+ * of pairs of frequency (in Hz) and magnitude. The frequencies are evenly
+ * spaced from 0 Hz up to half the sample rate.
+ * A sine wave of amplitude A shows up as a peak of magnitude close to A
+ * at its frequency.
+ *
+ * The spectrum is computed with a fast Fourier transform of 2048 samples
+ * centered at time t. Parts of the window outside of the Sound are taken
+ * to be silent.
+ *
+ * @param sound the Sound to analyse
+ * @param t time in seconds at which to analyse the Sound
+ * @return list of pairs of frequency and magnitude
+ * @example const spectrum = get_spectrum(sine_sound(440, 1), 0.5);
+ */
+export function get_spectrum(sound: Sound, t: number): List {
+  if (!is_sound(sound)) {
+    throw new Error(`get_spectrum is expecting sound, but encountered ${sound}`);
+  } else if (typeof t !== 'number') {
+    throw new Error(`get_spectrum is expecting a number, but encountered ${t}`);
+  }
+
+  const sample_rate = get_sample_rate();
+  const wave = get_wave(sound);
+  const duration = get_duration(sound);
+  const start = Math.round(t * sample_rate) - SPECTRUM_SIZE / 2;
+
+  const samples = new Float64Array(SPECTRUM_SIZE);
+  for (let i = 0; i < SPECTRUM_SIZE; i += 1) {
+    const time = (start + i) / sample_rate;
+    samples[i] = time >= 0 && time < duration ? wave(time) : 0;
+  }
+
+  const magnitudes = magnitudeSpectrum(samples, 0);
+  let result: List = null;
+  for (let k = magnitudes.length - 1; k >= 0; k -= 1) {
+    result = pair(pair((k * sample_rate) / SPECTRUM_SIZE, magnitudes[k]), result);
+  }
+  return result;
+}
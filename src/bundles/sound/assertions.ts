@@ -0,0 +1,353 @@
+/**
+ * Checks on Sounds for autograders and tests, which need no AudioContext.
+ * Sounds are sampled at the current sample rate, see `set_sample_rate`,
+ * with amplitudes clipped to [-1, 1] as they would be played.
+ *
+ * The `assert_` functions return true if the check passes, and otherwise
+ * throw an error whose message explains the difference in terms a student
+ * can act on. Sounds with random waves, such as `noise_sound`, are sampled
+ * again for every check, so they never equal each other.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import { fft } from './fft';
+import {
+  get_duration,
+  get_sample_rate,
+  get_wave,
+  is_sound,
+} from './sounds';
+import type { Sound } from './types';
+
+type Difference = {
+  time: number;
+  actual: number;
+  expected: number;
+};
+
+function check_sound(func_name: string, sound: any): void {
+  if (!is_sound(sound)) {
+    throw new Error(`${func_name} is expecting sound, but encountered ${sound}`);
+  }
+}
+
+function check_tolerance(func_name: string, tolerance: any): void {
+  if (typeof tolerance !== 'number' || !(tolerance >= 0)) {
+    throw new Error(
+      `${func_name} is expecting a non-negative tolerance, but encountered ${tolerance}`,
+    );
+  }
+}
+
+function check_expected(func_name: string, expected: any): void {
+  if (typeof expected !== 'number') {
+    throw new Error(
+      `${func_name} is expecting a number as the expected value, but encountered ${expected}`,
+    );
+  }
+}
+
+function check_window(func_name: string, start: any, end: any): void {
+  if (typeof start !== 'number' || typeof end !== 'number' || !(start < end)) {
+    throw new Error(
+      `${func_name} is expecting a start time before the end time, but encountered ${start} and ${end}`,
+    );
+  }
+}
+
+// Rounds numbers in messages, so that they stay readable
+function show(x: number, digits: number = 4): string {
+  return `${Number(x.toFixed(digits))}`;
+}
+
+/**
+ * Samples the sound from the start time up to (but excluding) the end time.
+ * The sound is silent outside of its duration.
+ */
+function sample(sound: Sound, start: number, end: number): Float64Array {
+  const sample_rate = get_sample_rate();
+  const wave = get_wave(sound);
+  const duration = get_duration(sound);
+  const first = Math.ceil(start * sample_rate);
+  const samples = new Float64Array(Math.max(0, Math.ceil(end * sample_rate) - first));
+  for (let i = 0; i < samples.length; i += 1) {
+    const t = (first + i) / sample_rate;
+    if (t >= 0 && t < duration) {
+      samples[i] = Math.max(-1, Math.min(1, wave(t)));
+    }
+  }
+  return samples;
+}
+
+function find_difference(
+  actual: Sound,
+  expected: Sound,
+  tolerance: number,
+): Difference | null {
+  const sample_rate = get_sample_rate();
+  const end = Math.max(get_duration(actual), get_duration(expected));
+  const actual_samples = sample(actual, 0, end);
+  const expected_samples = sample(expected, 0, end);
+  for (let i = 0; i < actual_samples.length; i += 1) {
+    if (Math.abs(actual_samples[i] - expected_samples[i]) > tolerance) {
+      return {
+        time: i / sample_rate,
+        actual: actual_samples[i],
+        expected: expected_samples[i],
+      };
+    }
+  }
+  return null;
+}
+
+// Durations closer than one sample cannot be told apart when played
+function durations_match(duration: number, expected: number, tolerance: number): boolean {
+  return Math.abs(duration - expected) <= Math.max(tolerance, 1 / get_sample_rate());
+}
+
+/**
+ * Returns the earliest time in seconds at which the amplitudes of the two
+ * Sounds differ by more than the tolerance, or null if they never do.
+ * A Sound is silent after its duration, so a longer Sound differs from
+ * a shorter one only where it is not silent.
+ *
+ * @param sound1 the first Sound
+ * @param sound2 the second Sound
+ * @param tolerance largest allowed difference in amplitude
+ * @return time of the first difference in seconds, or null
+ * @example first_difference(sine_sound(440, 1), square_sound(440, 1), 0.01);
+ */
+export function first_difference(
+  sound1: Sound,
+  sound2: Sound,
+  tolerance: number,
+): number | null {
+  check_sound('first_difference', sound1);
+  check_sound('first_difference', sound2);
+  check_tolerance('first_difference', tolerance);
+  const difference = find_difference(sound1, sound2, tolerance);
+  return difference === null ? null : difference.time;
+}
+
+/**
+ * Checks whether two Sounds have the same duration and amplitudes that
+ * differ by at most the tolerance at every sample.
+ *
+ * @param sound1 the first Sound
+ * @param sound2 the second Sound
+ * @param tolerance largest allowed difference in amplitude
+ * @return true if the Sounds are equal within the tolerance, false otherwise
+ * @example sounds_equal(sine_sound(440, 1), sine_sound(440, 1), 0.001); // Returns true
+ */
+export function sounds_equal(sound1: Sound, sound2: Sound, tolerance: number): boolean {
+  check_sound('sounds_equal', sound1);
+  check_sound('sounds_equal', sound2);
+  check_tolerance('sounds_equal', tolerance);
+  return durations_match(get_duration(sound1), get_duration(sound2), 0)
+    && find_difference(sound1, sound2, tolerance) === null;
+}
+
+/**
+ * Returns the root mean square of the amplitude of a Sound between the
+ * start and end times in seconds, a measure of how loud it is. A sine wave
+ * of amplitude A has a loudness of about 0.707 * A, silence has 0.
+ *
+ * @param sound the Sound to measure
+ * @param start start of the measured part in seconds
+ * @param end end of the measured part in seconds
+ * @return root mean square of the amplitude
+ * @example rms_loudness(sine_sound(440, 1), 0, 1); // Returns about 0.707
+ */
+export function rms_loudness(sound: Sound, start: number, end: number): number {
+  check_sound('rms_loudness', sound);
+  check_window('rms_loudness', start, end);
+  const samples = sample(sound, start, end);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i += 1) {
+    sum += samples[i] * samples[i];
+  }
+  return samples.length === 0 ? 0 : Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Returns the frequency in Hz that is loudest in a Sound between the start
+ * and end times in seconds, or 0 if that part of the Sound is silent.
+ * Longer parts give more accurate frequencies: with a part of 0.1 seconds,
+ * the frequency is accurate to about 1 Hz.
+ *
+ * @param sound the Sound to analyse
+ * @param start start of the analysed part in seconds
+ * @param end end of the analysed part in seconds
+ * @return the dominant frequency in Hz
+ * @example dominant_frequency(sine_sound(440, 1), 0, 1); // Returns about 440
+ */
+export function dominant_frequency(sound: Sound, start: number, end: number): number {
+  check_sound('dominant_frequency', sound);
+  check_window('dominant_frequency', start, end);
+  const samples = sample(sound, start, end);
+  const n = samples.length;
+  if (n < 2) {
+    return 0;
+  }
+
+  // Hann window over the part without its average, zero-padded to at least
+  // twice its length for a finer spectrum
+  let size = 1;
+  while (size < 2 * n) {
+    size *= 2;
+  }
+  const mean = samples.reduce((sum, x) => sum + x, 0) / n;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < n; i += 1) {
+    re[i] = (samples[i] - mean) * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+  fft(re, im);
+
+  const magnitude = (k: number) => Math.hypot(re[k], im[k]);
+  let peak = 1;
+  for (let k = 2; k <= size / 2; k += 1) {
+    if (magnitude(k) > magnitude(peak)) {
+      peak = k;
+    }
+  }
+  if (magnitude(peak) < 1e-9) {
+    return 0;
+  }
+
+  // Fit a parabola through the logarithms of the peak and its neighbours
+  let offset = 0;
+  if (peak < size / 2) {
+    const a = Math.log(magnitude(peak - 1) + 1e-12);
+    const b = Math.log(magnitude(peak));
+    const c = Math.log(magnitude(peak + 1) + 1e-12);
+    const denominator = a - 2 * b + c;
+    offset = denominator < 0 ? (0.5 * (a - c)) / denominator : 0;
+  }
+  return ((peak + offset) * get_sample_rate()) / size;
+}
+
+/**
+ * Checks that a Sound equals the expected Sound: their durations must be
+ * the same, and their amplitudes may differ by at most the tolerance.
+ * Otherwise, throws an error saying how and from when the Sounds differ.
+ *
+ * @param actual the Sound to check
+ * @param expected the Sound it should equal
+ * @param tolerance largest allowed difference in amplitude
+ * @return true if the Sounds are equal within the tolerance
+ * @example assert_sounds_equal(simultaneously(list(sine_sound(440, 1), sine_sound(660, 1))), expected, 0.01);
+ */
+export function assert_sounds_equal(
+  actual: Sound,
+  expected: Sound,
+  tolerance: number,
+): boolean {
+  check_sound('assert_sounds_equal', actual);
+  check_sound('assert_sounds_equal', expected);
+  check_tolerance('assert_sounds_equal', tolerance);
+
+  const actual_duration = get_duration(actual);
+  const expected_duration = get_duration(expected);
+  if (!durations_match(actual_duration, expected_duration, 0)) {
+    throw new Error(
+      `Expected a sound lasting ${show(expected_duration)} s, but the sound lasts ${show(actual_duration)} s`,
+    );
+  }
+
+  const difference = find_difference(actual, expected, tolerance);
+  if (difference !== null) {
+    throw new Error(
+      `The sounds differ from ${show(difference.time)} s on: expected an amplitude of ${show(difference.expected)}, but the sound has ${show(difference.actual)} (tolerance ${tolerance})`,
+    );
+  }
+  return true;
+}
+
+/**
+ * Checks that the dominant frequency of a Sound between the start and end
+ * times in seconds is within the tolerance of the expected frequency,
+ * see `dominant_frequency`. Otherwise, throws an error with the frequency found.
+ *
+ * @param sound the Sound to check
+ * @param start start of the checked part in seconds
+ * @param end end of the checked part in seconds
+ * @param expected the expected frequency in Hz
+ * @param tolerance largest allowed difference in Hz
+ * @return true if the frequency is as expected
+ * @example assert_frequency(sine_sound(440, 1), 0, 1, 440, 1);
+ */
+export function assert_frequency(
+  sound: Sound,
+  start: number,
+  end: number,
+  expected: number,
+  tolerance: number,
+): boolean {
+  check_expected('assert_frequency', expected);
+  check_tolerance('assert_frequency', tolerance);
+  const frequency = dominant_frequency(sound, start, end);
+  if (!(Math.abs(frequency - expected) <= tolerance)) {
+    throw new Error(
+      frequency === 0
+        ? `Expected a frequency of ${show(expected)} Hz from ${show(start)} s to ${show(end)} s, but the sound is silent there`
+        : `Expected a frequency of ${show(expected)} Hz from ${show(start)} s to ${show(end)} s, but the loudest frequency is ${show(frequency, 1)} Hz`,
+    );
+  }
+  return true;
+}
+
+/**
+ * Checks that the loudness of a Sound between the start and end times in
+ * seconds is within the tolerance of the expected loudness, see
+ * `rms_loudness`. Otherwise, throws an error with the loudness found.
+ *
+ * @param sound the Sound to check
+ * @param start start of the checked part in seconds
+ * @param end end of the checked part in seconds
+ * @param expected the expected root mean square of the amplitude
+ * @param tolerance largest allowed difference in loudness
+ * @return true if the loudness is as expected
+ * @example assert_loudness(silence_sound(1), 0, 1, 0, 0.001);
+ */
+export function assert_loudness(
+  sound: Sound,
+  start: number,
+  end: number,
+  expected: number,
+  tolerance: number,
+): boolean {
+  check_expected('assert_loudness', expected);
+  check_tolerance('assert_loudness', tolerance);
+  const loudness = rms_loudness(sound, start, end);
+  if (!(Math.abs(loudness - expected) <= tolerance)) {
+    throw new Error(
+      `Expected a loudness of ${show(expected)} from ${show(start)} s to ${show(end)} s, but the sound is ${loudness > expected ? 'louder' : 'quieter'}, with a loudness of ${show(loudness)}`,
+    );
+  }
+  return true;
+}
+
+/**
+ * Checks that the duration of a Sound is within the tolerance of the
+ * expected duration in seconds. Otherwise, throws an error with the
+ * actual duration.
+ *
+ * @param sound the Sound to check
+ * @param expected the expected duration in seconds
+ * @param tolerance largest allowed difference in seconds
+ * @return true if the duration is as expected
+ * @example assert_duration(consecutively(list(sine_sound(440, 1), sine_sound(660, 1))), 2, 0);
+ */
+export function assert_duration(sound: Sound, expected: number, tolerance: number): boolean {
+  check_sound('assert_duration', sound);
+  check_expected('assert_duration', expected);
+  check_tolerance('assert_duration', tolerance);
+  const duration = get_duration(sound);
+  if (!durations_match(duration, expected, tolerance)) {
+    throw new Error(
+      `Expected a sound lasting ${show(expected)} s, but the sound lasts ${show(duration)} s`,
+    );
+  }
+  return true;
+}
@@ -0,0 +1,111 @@
+/**
+ * Conversions between the mono Sounds of the sound bundle and the stereo
+ * Sounds of the stereo_sound bundle, which are available in both bundles,
+ * and the helpers with which the stereo_sound bundle builds on the
+ * functions of the sound bundle one channel at a time.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import { head, is_pair, pair, tail } from 'js-slang/dist/stdlib/list';
+import type {
+  Sound,
+  SoundTransformer,
+  StereoSound,
+  Wave,
+} from './types';
+
+function is_mono_sound(x: any): x is Sound {
+  return is_pair(x)
+    && typeof head(x) === 'function'
+    && typeof tail(x) === 'number';
+}
+
+function is_stereo_sound(x: any): x is StereoSound {
+  return is_pair(x)
+    && is_pair(head(x))
+    && typeof head(head(x)) === 'function'
+    && typeof tail(head(x)) === 'function'
+    && typeof tail(x) === 'number';
+}
+
+// Keeps the Sound Discipline: waves are 0 from the duration onwards
+function cut_off(wave: Wave, duration: number): Wave {
+  return (t: number) => (t >= duration ? 0 : wave(t));
+}
+
+/**
+ * Converts a mono Sound, as made by the sound bundle, into a stereo Sound,
+ * as used by the stereo_sound bundle, that plays the mono Sound on both
+ * channels. Stereo Sounds are returned unchanged.
+ *
+ * @param sound the mono Sound to convert
+ * @return stereo Sound with the same wave on both channels
+ * @example to_stereo(sine_sound(440, 5));
+ */
+export function to_stereo(sound: Sound | StereoSound): StereoSound {
+  if (is_stereo_sound(sound)) {
+    return sound;
+  }
+  if (!is_mono_sound(sound)) {
+    throw new Error(`to_stereo is expecting sound, but encountered ${sound}`);
+  }
+  const wave = cut_off(head(sound), tail(sound));
+  return pair(pair(wave, wave), tail(sound));
+}
+
+/**
+ * Converts a stereo Sound, as used by the stereo_sound bundle, into a mono
+ * Sound, as made by the sound bundle, by averaging its left and right
+ * channels. Mono Sounds are returned unchanged.
+ *
+ * @param sound the stereo Sound to convert
+ * @return mono Sound with the average of both channels
+ * @example to_mono(pan(-0.5)(sine_sound(440, 5)));
+ */
+export function to_mono(sound: Sound | StereoSound): Sound {
+  if (is_mono_sound(sound)) {
+    return sound;
+  }
+  if (!is_stereo_sound(sound)) {
+    throw new Error(`to_mono is expecting sound, but encountered ${sound}`);
+  }
+  const left = head(head(sound));
+  const right = tail(head(sound));
+  const duration = tail(sound);
+  return pair(cut_off((t) => (left(t) + right(t)) / 2, duration), duration);
+}
+
+/**
+ * The left channel of a stereo Sound, as a mono Sound
+ */
+export function left_channel(sound: StereoSound): Sound {
+  return pair(head(head(sound)), tail(sound));
+}
+
+/**
+ * The right channel of a stereo Sound, as a mono Sound
+ */
+export function right_channel(sound: StereoSound): Sound {
+  return pair(tail(head(sound)), tail(sound));
+}
+
+/**
+ * Stereo Sound that plays the given mono Sounds on its left and right
+ * channels, and lasts as long as the longer of them
+ */
+export function from_channels(left: Sound, right: Sound): StereoSound {
+  return pair(pair(head(left), head(right)), Math.max(tail(left), tail(right)));
+}
+
+/**
+ * Applies a SoundTransformer of the sound bundle to both channels of
+ * a stereo Sound
+ */
+export function on_both_channels(
+  transformer: SoundTransformer,
+): (sound: StereoSound) => StereoSound {
+  return (sound) => from_channels(
+    transformer(left_channel(sound)),
+    transformer(right_channel(sound)),
+  );
+}
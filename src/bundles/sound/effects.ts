@@ -0,0 +1,386 @@
+/**
+ * Audio effects for the sound module. Every effect is a SoundTransformer,
+ * so effects can be chained and combined with `consecutively` and
+ * `simultaneously` like any other Sound.
+ *
+ * Effects that depend on earlier parts of the sound, such as filters and
+ * reverb, sample their input at the sample rate in use when they are applied
+ * (see `set_sample_rate`). All other effects work on the wave directly.
+ * Effects keep the duration of their input, so echoes and reverb tails
+ * beyond the end of the input are cut off. Append a silence_sound to
+ * the input to hear them.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import {
+  get_duration,
+  get_sample_rate,
+  get_wave,
+  make_sound,
+} from './sounds';
+import type { SoundTransformer } from './types';
+
+// Processes one sample at a time, keeping whatever state it needs
+export type SampleProcessor = (x: number) => number;
+
+// Echoes quieter than this, relative to the Sound, are left out
+const echo_threshold = 1e-3;
+
+// Largest number of echoes added to each sample, which bounds the cost of
+// echoes whose feedback is close to 1
+const max_echoes = 100;
+
+/**
+ * Makes a SoundTransformer from a processor that has to see every sample of
+ * its input in order. Output samples are computed on demand and remembered,
+ * and the wave interpolates between them.
+ */
+export function sample_transformer(
+  make_processor: (sample_rate: number) => SampleProcessor,
+): SoundTransformer {
+  return (sound) => {
+    const wave = get_wave(sound);
+    const duration = get_duration(sound);
+    const sample_rate = get_sample_rate();
+    const processor = make_processor(sample_rate);
+
+    let output: Float32Array | undefined;
+    let computed = 0;
+
+    return make_sound((t) => {
+      if (output === undefined) {
+        output = new Float32Array(Math.ceil(duration * sample_rate) + 1);
+      }
+
+      const index = t * sample_rate;
+      const lower = Math.floor(index);
+      if (lower < 0 || lower >= output.length) {
+        return 0;
+      }
+      const upper = Math.min(lower + 1, output.length - 1);
+      while (computed <= upper) {
+        output[computed] = processor(wave(computed / sample_rate));
+        computed += 1;
+      }
+
+      const ratio = index - lower;
+      return output[lower] * (1 - ratio) + output[upper] * ratio;
+    }, duration);
+  };
+}
+
+function check_positive(func_name: string, name: string, x: any): void {
+  if (typeof x !== 'number' || !(x > 0)) {
+    throw new Error(
+      `${func_name} is expecting ${name} to be a positive number, but encountered ${x}`,
+    );
+  }
+}
+
+function check_ratio(func_name: string, name: string, x: any): void {
+  if (typeof x !== 'number' || !(x >= 0 && x <= 1)) {
+    throw new Error(
+      `${func_name} is expecting ${name} to be a number between 0 and 1, but encountered ${x}`,
+    );
+  }
+}
+
+// Filters
+
+// Biquad filter in direct form I, with coefficients normalised by a0
+function biquad(
+  b0: number,
+  b1: number,
+  b2: number,
+  a0: number,
+  a1: number,
+  a2: number,
+): SampleProcessor {
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  return (x) => {
+    const y = (b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    return y;
+  };
+}
+
+// Coefficients follow the Audio EQ Cookbook by Robert Bristow-Johnson
+function biquad_transformer(
+  func_name: string,
+  frequency: number,
+  q: number,
+  make_filter: (cos_w0: number, alpha: number) => SampleProcessor,
+): SoundTransformer {
+  check_positive(func_name, 'frequency', frequency);
+  check_positive(func_name, 'q', q);
+  return sample_transformer((sample_rate) => {
+    const w0 = (2 * Math.PI * Math.min(frequency, sample_rate / 2)) / sample_rate;
+    return make_filter(Math.cos(w0), Math.sin(w0) / (2 * q));
+  });
+}
+
+/**
+ * Returns a SoundTransformer that applies a low-pass filter to a Sound:
+ * frequencies below the cutoff frequency pass through, and higher
+ * frequencies are attenuated. The resonance q controls how sharply the
+ * filter peaks at the cutoff. A q of about 0.707 gives no peak.
+ *
+ * @param cutoff cutoff frequency in Hz
+ * @param q resonance of the filter, a positive number
+ * @return function which takes in a Sound and returns the filtered Sound
+ * @example low_pass_filter(800, 0.707)(sawtooth_sound(220, 2));
+ */
+export function low_pass_filter(cutoff: number, q: number): SoundTransformer {
+  return biquad_transformer('low_pass_filter', cutoff, q, (cos_w0, alpha) => biquad(
+    (1 - cos_w0) / 2,
+    1 - cos_w0,
+    (1 - cos_w0) / 2,
+    1 + alpha,
+    -2 * cos_w0,
+    1 - alpha,
+  ));
+}
+
+/**
+ * Returns a SoundTransformer that applies a high-pass filter to a Sound:
+ * frequencies above the cutoff frequency pass through, and lower
+ * frequencies are attenuated. The resonance q controls how sharply the
+ * filter peaks at the cutoff. A q of about 0.707 gives no peak.
+ *
+ * @param cutoff cutoff frequency in Hz
+ * @param q resonance of the filter, a positive number
+ * @return function which takes in a Sound and returns the filtered Sound
+ * @example high_pass_filter(2000, 0.707)(noise_sound(2));
+ */
+export function high_pass_filter(cutoff: number, q: number): SoundTransformer {
+  return biquad_transformer('high_pass_filter', cutoff, q, (cos_w0, alpha) => biquad(
+    (1 + cos_w0) / 2,
+    -(1 + cos_w0),
+    (1 + cos_w0) / 2,
+    1 + alpha,
+    -2 * cos_w0,
+    1 - alpha,
+  ));
+}
+
+/**
+ * Returns a SoundTransformer that applies a band-pass filter to a Sound:
+ * frequencies close to the center frequency pass through, and frequencies
+ * further away are attenuated. Higher values of q give a narrower band.
+ *
+ * @param center center frequency in Hz
+ * @param q width of the band, a positive number
+ * @return function which takes in a Sound and returns the filtered Sound
+ * @example band_pass_filter(1000, 5)(noise_sound(2));
+ */
+export function band_pass_filter(center: number, q: number): SoundTransformer {
+  return biquad_transformer('band_pass_filter', center, q, (cos_w0, alpha) => biquad(
+    alpha,
+    0,
+    -alpha,
+    1 + alpha,
+    -2 * cos_w0,
+    1 - alpha,
+  ));
+}
+
+// Delay-based effects
+
+/**
+ * Returns a SoundTransformer that adds echoes to a Sound. The Sound is
+ * repeated every delay seconds, and each repetition is quieter than the
+ * previous one by a factor of feedback. The echoes are mixed with the
+ * original Sound according to mix. Echoes quieter than 1/1000 of the
+ * Sound are left out, and at most 100 echoes are added.
+ *
+ * @param delay time between echoes in seconds
+ * @param feedback amplitude of each echo relative to the previous one, between 0 and 1
+ * @param mix amplitude of the first echo relative to the original Sound, between 0 and 1
+ * @return function which takes in a Sound and returns a Sound with echoes
+ * @example echo(0.25, 0.5, 0.6)(piano(60, 2));
+ */
+export function echo(
+  delay: number,
+  feedback: number,
+  mix: number,
+): SoundTransformer {
+  check_positive('echo', 'delay', delay);
+  check_ratio('echo', 'feedback', feedback);
+  check_ratio('echo', 'mix', mix);
+  return (sound) => {
+    const wave = get_wave(sound);
+    return make_sound((t) => {
+      // The feedback loop unrolled: each echo is the input delayed once more
+      let result = wave(t);
+      let gain = mix;
+      for (let n = 1; n <= max_echoes && t - n * delay >= 0 && gain >= echo_threshold; n += 1) {
+        result += gain * wave(t - n * delay);
+        gain *= feedback;
+      }
+      return result;
+    }, get_duration(sound));
+  };
+}
+
+// Feedback comb filter, delaying by the given number of samples
+function comb(delay: number, gain: number): SampleProcessor {
+  const buffer = new Float32Array(delay);
+  let index = 0;
+  return (x) => {
+    const y = buffer[index];
+    buffer[index] = x + gain * y;
+    index = (index + 1) % delay;
+    return y;
+  };
+}
+
+// Schroeder all-pass filter, delaying by the given number of samples
+function all_pass(delay: number, gain: number): SampleProcessor {
+  const buffer = new Float32Array(delay);
+  let index = 0;
+  return (x) => {
+    const delayed = buffer[index];
+    const v = x + gain * delayed;
+    buffer[index] = v;
+    index = (index + 1) % delay;
+    return delayed - gain * v;
+  };
+}
+
+// Delays of the comb and all-pass filters in seconds, from Schroeder's design
+const comb_delays = [0.0297, 0.0371, 0.0411, 0.0437];
+const all_pass_delays = [0.005, 0.0017];
+const all_pass_gain = 0.7;
+
+/**
+ * Returns a SoundTransformer that adds reverberation to a Sound, as if it
+ * was played in a room. The reverb is a Schroeder reverberator: four
+ * parallel comb filters followed by two all-pass filters.
+ *
+ * @param decay_time time in seconds for the reverberation to fall to a thousandth of its amplitude
+ * @param mix proportion of reverberated sound in the result, between 0 and 1
+ * @return function which takes in a Sound and returns a reverberated Sound
+ * @example reverb(1.5, 0.3)(consecutively(list(piano(60, 0.5), silence_sound(1.5))));
+ */
+export function reverb(decay_time: number, mix: number): SoundTransformer {
+  check_positive('reverb', 'decay_time', decay_time);
+  check_ratio('reverb', 'mix', mix);
+  return sample_transformer((sample_rate) => {
+    const to_samples = (seconds: number) => Math.max(1, Math.round(seconds * sample_rate));
+    const combs = comb_delays.map((delay) => comb(
+      to_samples(delay),
+      // Gain that decays by 60dB over decay_time
+      10 ** ((-3 * delay) / decay_time),
+    ));
+    const all_passes = all_pass_delays.map((delay) => all_pass(to_samples(delay), all_pass_gain));
+
+    return (x) => {
+      const combed = combs.reduce((sum, filter) => sum + filter(x), 0) / combs.length;
+      const wet = all_passes.reduce((y, filter) => filter(y), combed);
+      return (1 - mix) * x + mix * wet;
+    };
+  });
+}
+
+// Distortion
+
+/**
+ * Returns a SoundTransformer that distorts a Sound by soft clipping:
+ * loud parts of the Sound are smoothly squashed instead of being cut off.
+ * Higher drive gives more distortion. Amplitudes of -1 and 1 are kept.
+ *
+ * @param drive amount of distortion, a positive number
+ * @return function which takes in a Sound and returns the distorted Sound
+ * @example soft_clip(5)(sine_sound(220, 2));
+ */
+export function soft_clip(drive: number): SoundTransformer {
+  check_positive('soft_clip', 'drive', drive);
+  const normalisation = Math.tanh(drive);
+  return (sound) => {
+    const wave = get_wave(sound);
+    return make_sound(
+      (t) => Math.tanh(drive * wave(t)) / normalisation,
+      get_duration(sound),
+    );
+  };
+}
+
+/**
+ * Returns a SoundTransformer that reduces the fidelity of a Sound,
+ * like early digital audio hardware. The amplitude is rounded to the
+ * given number of bits, and the wave is only sampled at the given sample
+ * rate, holding each sample until the next one.
+ *
+ * @param bits number of bits per sample, a positive integer
+ * @param sample_rate number of samples per second, a positive number
+ * @return function which takes in a Sound and returns the crushed Sound
+ * @example bitcrusher(4, 8000)(sine_sound(440, 2));
+ */
+export function bitcrusher(bits: number, sample_rate: number): SoundTransformer {
+  if (typeof bits !== 'number' || !Number.isInteger(bits) || bits < 1) {
+    throw new Error(
+      `bitcrusher is expecting bits to be a positive integer, but encountered ${bits}`,
+    );
+  }
+  check_positive('bitcrusher', 'sample_rate', sample_rate);
+  const levels = 2 ** (bits - 1);
+  return (sound) => {
+    const wave = get_wave(sound);
+    return make_sound((t) => {
+      const held = Math.floor(t * sample_rate) / sample_rate;
+      return Math.round(wave(held) * levels) / levels;
+    }, get_duration(sound));
+  };
+}
+
+// Modulation
+
+/**
+ * Returns a SoundTransformer that makes the volume of a Sound
+ * rise and fall periodically. The volume starts at full and falls to
+ * 1 - depth halfway through each period.
+ *
+ * @param rate number of volume changes per second
+ * @param depth amount of change in volume, between 0 and 1
+ * @return function which takes in a Sound and returns a Sound with tremolo
+ * @example tremolo(5, 0.5)(violin(60, 3));
+ */
+export function tremolo(rate: number, depth: number): SoundTransformer {
+  check_positive('tremolo', 'rate', rate);
+  check_ratio('tremolo', 'depth', depth);
+  return (sound) => {
+    const wave = get_wave(sound);
+    return make_sound(
+      (t) => wave(t) * (1 - (depth * (1 - Math.cos(2 * Math.PI * rate * t))) / 2),
+      get_duration(sound),
+    );
+  };
+}
+
+/**
+ * Returns a SoundTransformer that makes the pitch of a Sound
+ * rise and fall periodically, by reading the Sound with a delay that
+ * varies between 0 and depth seconds.
+ *
+ * @param rate number of pitch changes per second
+ * @param depth largest delay in seconds, such as 0.002
+ * @return function which takes in a Sound and returns a Sound with vibrato
+ * @example vibrato(6, 0.002)(violin(60, 3));
+ */
+export function vibrato(rate: number, depth: number): SoundTransformer {
+  check_positive('vibrato', 'rate', rate);
+  check_positive('vibrato', 'depth', depth);
+  return (sound) => {
+    const wave = get_wave(sound);
+    return make_sound((t) => {
+      const delayed = t - (depth * (1 - Math.cos(2 * Math.PI * rate * t))) / 2;
+      return delayed < 0 ? 0 : wave(delayed);
+    }, get_duration(sound));
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Envelopes shared by the sound and stereo_sound bundles. An envelope is
+ * a function from time to a gain, which the bundles multiply with every
+ * channel of a Sound.
+ */
+
+export type Envelope = (t: number) => number;
+
+/**
+ * Linear decay from 1 to 0 over the decay period, and 0 outside of it
+ */
+export function linearDecay(decayPeriod: number): Envelope {
+  return (t) => {
+    if (t > decayPeriod || t < 0) {
+      return 0;
+    }
+    return 1 - t / decayPeriod;
+  };
+}
+
+/**
+ * The gain of an ADSR envelope for a Sound of the given duration, see `adsr`.
+ * The gain increases from 0 to 1 linearly over the attack, then decreases
+ * from 1 to the sustain level over the decay, and remains at that level
+ * until the release, over which it decays back to 0.
+ */
+export function adsrEnvelope(
+  attackRatio: number,
+  decayRatio: number,
+  sustainLevel: number,
+  releaseRatio: number,
+  duration: number,
+): Envelope {
+  const attackTime = duration * attackRatio;
+  const decayTime = duration * decayRatio;
+  const releaseTime = duration * releaseRatio;
+  return (x) => {
+    if (x < attackTime) {
+      return x / attackTime;
+    }
+    if (x < attackTime + decayTime) {
+      return (1 - sustainLevel) * linearDecay(decayTime)(x - attackTime)
+        + sustainLevel;
+    }
+    if (x < duration - releaseTime) {
+      return sustainLevel;
+    }
+    return sustainLevel * linearDecay(releaseTime)(x - (duration - releaseTime));
+  };
+}
@@ -0,0 +1,98 @@
+/* eslint-disable no-bitwise */
+
+/**
+ * Number of samples analysed for each spectrum
+ */
+export const SPECTRUM_SIZE = 2048;
+
+/**
+ * In-place radix-2 fast Fourier transform.
+ * The length of both arrays must be the same power of 2.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (n !== im.length || n & (n - 1)) {
+    throw new Error('fft: input length must be a power of 2');
+  }
+
+  // Reorder the input by bit-reversed indices
+  for (let i = 1, j = 0; i < n; i += 1) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Combine transforms of increasing size
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k += 1) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + half;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+/**
+ * Computes the magnitude spectrum of the given number of samples, starting
+ * at the given index. Samples beyond the end of the input are taken as 0.
+ * A Hann window is applied, and magnitudes are scaled so that a sine wave
+ * of amplitude A at the frequency of a bin has a magnitude of about A.
+ * The result has size / 2 + 1 bins, where bin k is at frequency
+ * k * sampleRate / size.
+ */
+export function magnitudeSpectrum(
+  samples: ArrayLike<number>,
+  start: number,
+  size: number = SPECTRUM_SIZE,
+): Float64Array {
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  let windowSum = 0;
+  for (let i = 0; i < size; i += 1) {
+    const index = start + i;
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+    windowSum += window;
+    re[i] = index >= 0 && index < samples.length ? samples[index] * window : 0;
+  }
+
+  fft(re, im);
+
+  const magnitudes = new Float64Array(size / 2 + 1);
+  for (let k = 0; k < magnitudes.length; k += 1) {
+    magnitudes[k] = (2 * Math.hypot(re[k], im[k])) / windowSum;
+  }
+  return magnitudes;
+}
+
+/**
+ * Computes magnitude spectra of consecutive windows of the samples,
+ * each window starting hop samples after the previous one.
+ */
+export function spectrogram(
+  samples: ArrayLike<number>,
+  hop: number,
+  size: number = SPECTRUM_SIZE,
+): Float64Array[] {
+  const columns: Float64Array[] = [];
+  for (let start = 0; start < samples.length; start += hop) {
+    columns.push(magnitudeSpectrum(samples, start, size));
+  }
+  return columns;
+}
@@ -1,39 +1,105 @@
 export {
-  adsr,
-  // Instruments
-  bell,
-  cello,
-  // Composition and Envelopes
-  consecutively,
-  get_duration,
-  get_wave,
   // Recording
   init_record,
-  is_sound,
-  letter_name_to_frequency,
-  // MIDI
-  letter_name_to_midi_note,
-  // Constructor/Accessors/Typecheck
-  make_sound,
-  midi_note_to_frequency,
-  // Basic waveforms
-  noise_sound,
-  phase_mod,
-  piano,
+  load_wav,
   // Play-related
   play,
   play_concurrently,
   play_wave,
   record,
   record_for,
+  // WAV files
+  save_wav,
+  stop,
+} from './functions';
+
+export {
+  adsr,
+  // Composition and Envelopes
+  consecutively,
+  // Basic waveforms
+  noise_sound,
+  phase_mod,
   sawtooth_sound,
   silence_sound,
   simultaneously,
   sine_sound,
   square_sound,
   stacking_adsr,
-  stop,
   triangle_sound,
+} from './waveforms';
+
+export {
+  // Constructor/Accessors/Typecheck
+  get_duration,
+  get_sample_rate,
+  get_wave,
+  is_sound,
+  make_sound,
+  set_sample_rate,
+} from './sounds';
+
+export {
+  get_playback_position,
+  pause_sound,
+  resume_sound,
+  seek_sound,
+  stop_sound,
+} from './playback';
+
+export {
+  // MIDI
+  letter_name_to_frequency,
+  letter_name_to_midi_note,
+  midi_note_to_frequency,
+} from './notes';
+
+export { to_mono, to_stereo } from './channels';
+
+export {
+  // Filters
+  band_pass_filter,
+  high_pass_filter,
+  low_pass_filter,
+  // Delay-based effects
+  echo,
+  reverb,
+  // Distortion
+  bitcrusher,
+  soft_clip,
+  // Modulation
+  tremolo,
+  vibrato,
+} from './effects';
+
+export {
+  // Instruments
+  bell,
+  cello,
+  drawbar_organ,
+  electric_piano,
+  hi_hat,
+  kick_drum,
+  organ,
+  piano,
+  plucked_string,
+  snare_drum,
   trombone,
   violin,
-} from './functions';
+} from './instruments';
+
+export { get_spectrum } from './analysis';
+
+export {
+  // Testing
+  assert_duration,
+  assert_frequency,
+  assert_loudness,
+  assert_sounds_equal,
+  dominant_frequency,
+  first_difference,
+  rms_loudness,
+  sounds_equal,
+} from './assertions';
+
+export { midi_to_sound, score_to_sound } from './notation';
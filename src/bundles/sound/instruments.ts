@@ -0,0 +1,399 @@
+/**
+ * Instruments of the sound module. Most of them model how their sound is
+ * produced, while `bell`, `cello`, `piano`, `trombone` and `violin` stack
+ * harmonics with `stacking_adsr`. Every instrument is a function from a
+ * MIDI note and a duration in seconds to a Sound, so they can be used with
+ * `score_to_sound` and `midi_to_sound`.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import {
+  head,
+  is_null,
+  is_pair,
+  list,
+  tail,
+  type List,
+} from 'js-slang/dist/stdlib/list';
+import { high_pass_filter, low_pass_filter, sample_transformer } from './effects';
+import {
+  get_duration,
+  get_wave,
+  make_sound,
+} from './sounds';
+import { midi_note_to_frequency } from './notes';
+import type { Sound, SoundProducer, Wave } from './types';
+import {
+  adsr,
+  noise_sound,
+  sawtooth_sound,
+  square_sound,
+  stacking_adsr,
+  triangle_sound,
+} from './waveforms';
+
+// Time in seconds over which instruments fade out at the end of their
+// duration, to avoid clicks when a note is cut off
+const release_time = 0.02;
+
+// Fraction of the amplitude a plucked string keeps on every round trip
+const string_damping = 0.996;
+
+// Frequency ratios of the nine drawbars of a tonewheel organ, from the
+// 16' sub-octave to the 1' fifth harmonic of the 8' fundamental
+const drawbar_ratios = [0.5, 1.5, 1, 2, 3, 4, 5, 6, 8];
+
+function check_note(func_name: string, note: any): void {
+  if (typeof note !== 'number') {
+    throw new Error(`${func_name} is expecting a MIDI note, but encountered ${note}`);
+  }
+}
+
+// Fades the sound out over release_time, or over half of a shorter sound
+function with_release(sound: Sound): Sound {
+  const wave = get_wave(sound);
+  const duration = get_duration(sound);
+  const fade = Math.min(release_time, duration / 2);
+  return make_sound(
+    (t) => wave(t) * Math.min(1, (duration - t) / fade),
+    duration,
+  );
+}
+
+// Sound of the wave multiplied by an exponential decay with the given rate
+function decaying(wave: Wave, rate: number, duration: number): Sound {
+  return make_sound((t) => wave(t) * Math.exp(-rate * t), duration);
+}
+
+// Ratio by which a drum tuned to the given note is higher than the drum
+// at its General MIDI note
+function drum_tuning(note: number, default_note: number): number {
+  return 2 ** ((note - default_note) / 12);
+}
+
+/**
+ * Returns a Sound of a plucked string playing the given note for the given
+ * duration, using the Karplus-Strong algorithm: a short burst of noise
+ * circulates in a delay line as long as one period of the note, and is
+ * smoothed a little on every round trip, like a vibrating string that loses
+ * its higher harmonics first.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of a plucked string with given pitch and duration
+ * @example plucked_string(52, 2);
+ */
+export function plucked_string(note: number, duration: number): Sound {
+  check_note('plucked_string', note);
+  const frequency = midi_note_to_frequency(note);
+  const noise = get_wave(noise_sound(duration));
+  const excitation = make_sound(
+    (t) => (t < 1 / frequency ? noise(t) : 0),
+    duration,
+  );
+
+  return with_release(
+    sample_transformer((sample_rate) => {
+      // The averaging of two samples delays by half a sample, and an all-pass
+      // filter tunes the remaining fraction of a sample
+      const period = sample_rate / frequency;
+      const delay = Math.max(1, Math.floor(period - 0.6));
+      const fraction = Math.max(0, period - 0.5 - delay);
+      const coefficient = (1 - fraction) / (1 + fraction);
+
+      // Last delay + 1 outputs, oldest first from index n % length
+      const line = new Float64Array(delay + 1);
+      let n = 0;
+      let previous_input = 0;
+      let previous_output = 0;
+      return (x) => {
+        const averaged = (string_damping
+            * (line[(n + 1) % line.length] + line[n % line.length]))
+          / 2;
+        const tuned = coefficient * averaged
+          + previous_input
+          - coefficient * previous_output;
+        previous_input = averaged;
+        previous_output = tuned;
+
+        const y = x + tuned;
+        line[n % line.length] = y;
+        n += 1;
+        return y;
+      };
+    })(excitation),
+  );
+}
+
+/**
+ * Returns a Sound reminiscent of an electric piano, playing the given note
+ * for the given duration. The sound is made by frequency modulation: a
+ * modulator at the frequency of the note makes the sound bright at first,
+ * and a high, quickly fading modulator adds the metallic strike of the tine.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of an electric piano with given pitch and duration
+ * @example electric_piano(60, 2);
+ */
+export function electric_piano(note: number, duration: number): Sound {
+  check_note('electric_piano', note);
+  const frequency = midi_note_to_frequency(note);
+  // Higher notes fade faster
+  const decay = 0.8 + frequency / 500;
+  return with_release(decaying((t) => {
+    const modulation = (1.8 * Math.exp(-3 * t) + 0.2)
+        * Math.sin(2 * Math.PI * frequency * t)
+      + 1.5 * Math.exp(-25 * t) * Math.sin(2 * Math.PI * 14 * frequency * t);
+    return Math.sin(2 * Math.PI * frequency * t + modulation);
+  }, decay, duration));
+}
+
+/**
+ * Returns a Sound of a kick drum tuned to the given note, lasting for at
+ * most the given duration. The kick is a sine wave that quickly drops in
+ * pitch, with a click of low-pass filtered noise. MIDI note 36, the kick
+ * drum in General MIDI, gives a pitch of about 55 Hz.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of a kick drum
+ * @example kick_drum(36, 0.5);
+ */
+export function kick_drum(note: number, duration: number): Sound {
+  check_note('kick_drum', note);
+  const frequency = 55 * drum_tuning(note, 36);
+  const body = decaying((t) => {
+    // Integral of a frequency falling from 4 times the pitch to the pitch
+    const phase = frequency * t + (3 * frequency * (1 - Math.exp(-30 * t))) / 30;
+    return Math.sin(2 * Math.PI * phase);
+  }, 8, duration);
+  const click = decaying(
+    get_wave(low_pass_filter(1500, 0.707)(noise_sound(duration))),
+    200,
+    duration,
+  );
+
+  const body_wave = get_wave(body);
+  const click_wave = get_wave(click);
+  return with_release(
+    make_sound((t) => 0.8 * body_wave(t) + 0.2 * click_wave(t), duration),
+  );
+}
+
+/**
+ * Returns a Sound of a snare drum tuned to the given note, lasting for at
+ * most the given duration. The snare is high-pass filtered noise, for the
+ * rattle of the snares, over a short tone for the drum head. MIDI note 38,
+ * the snare drum in General MIDI, gives a head tone of about 185 Hz.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of a snare drum
+ * @example snare_drum(38, 0.3);
+ */
+export function snare_drum(note: number, duration: number): Sound {
+  check_note('snare_drum', note);
+  const tuning = drum_tuning(note, 38);
+  const head_wave = get_wave(decaying(
+    (t) => Math.sin(2 * Math.PI * 185 * tuning * t),
+    20,
+    duration,
+  ));
+  const snares_wave = get_wave(decaying(
+    get_wave(high_pass_filter(1500 * tuning, 0.707)(noise_sound(duration))),
+    12,
+    duration,
+  ));
+  return with_release(
+    make_sound((t) => 0.4 * head_wave(t) + 0.4 * snares_wave(t), duration),
+  );
+}
+
+/**
+ * Returns a Sound of a closed hi-hat tuned to the given note, lasting for at
+ * most the given duration. The hi-hat is noise with everything below a high
+ * cutoff frequency filtered out. MIDI note 42, the closed hi-hat in
+ * General MIDI, gives a cutoff frequency of 7000 Hz.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of a closed hi-hat
+ * @example hi_hat(42, 0.1);
+ */
+export function hi_hat(note: number, duration: number): Sound {
+  check_note('hi_hat', note);
+  const cutoff = 7000 * drum_tuning(note, 42);
+  return with_release(decaying(
+    get_wave(high_pass_filter(cutoff, 0.707)(noise_sound(duration))),
+    40,
+    duration,
+  ));
+}
+
+function make_organ(levels: number[]): SoundProducer {
+  // Every step of a drawbar makes its harmonic about 3 dB louder
+  const amplitudes = levels.map((level) => (level === 0 ? 0 : 2 ** ((level - 8) / 2)));
+  const total = amplitudes.reduce((sum, amplitude) => sum + amplitude, 0);
+  return (note: number, duration: number) => {
+    const frequency = midi_note_to_frequency(note);
+    return with_release(make_sound((t) => {
+      let sum = 0;
+      amplitudes.forEach((amplitude, i) => {
+        if (amplitude > 0) {
+          sum += amplitude * Math.sin(2 * Math.PI * drawbar_ratios[i] * frequency * t);
+        }
+      });
+      return total === 0 ? 0 : sum / total;
+    }, duration));
+  };
+}
+
+/**
+ * Returns an organ instrument with the given drawbar settings. Like on a
+ * tonewheel organ, the nine drawbars control the levels of the 16', 5⅓',
+ * 8', 4', 2⅔', 2', 1⅗', 1⅓' and 1' harmonics, from 0 (off) to 8 (loudest).
+ * Missing drawbars at the end of the list are taken as 0.
+ * The instrument is a function from a MIDI note and a duration to a Sound.
+ *
+ * @param drawbars list of up to 9 integers from 0 to 8
+ * @return function from MIDI note and duration to Sound
+ * @example drawbar_organ(list(8, 8, 8))(60, 1);
+ */
+export function drawbar_organ(drawbars: List): SoundProducer {
+  const levels: number[] = [];
+  let rest = drawbars;
+  while (is_pair(rest)) {
+    const level = head(rest);
+    if (!Number.isInteger(level) || level < 0 || level > 8) {
+      throw new Error(
+        `drawbar_organ is expecting drawbar levels from 0 to 8, but encountered ${level}`,
+      );
+    }
+    levels.push(level);
+    rest = tail(rest);
+  }
+  if (!is_null(rest) || levels.length > drawbar_ratios.length) {
+    throw new Error(
+      `drawbar_organ is expecting a list of up to ${drawbar_ratios.length} drawbar levels, but encountered ${drawbars}`,
+    );
+  }
+  while (levels.length < drawbar_ratios.length) {
+    levels.push(0);
+  }
+  return make_organ(levels);
+}
+
+const default_organ = make_organ([8, 8, 8, 0, 0, 0, 0, 0, 0]);
+
+/**
+ * Returns a Sound reminiscent of a tonewheel organ, playing the given note
+ * for the given duration, with the first three drawbars fully out.
+ * Use `drawbar_organ` for other drawbar settings.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of an organ with given pitch and duration
+ * @example organ(60, 2);
+ */
+export function organ(note: number, duration: number): Sound {
+  check_note('organ', note);
+  return default_organ(note, duration);
+}
+
+// Instruments made by stacking harmonics
+
+/**
+ * returns a Sound reminiscent of a bell, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting bell Sound with given pitch and duration
+ * @example bell(40, 1);
+ */
+export function bell(note: number, duration: number): Sound {
+  return stacking_adsr(
+    square_sound,
+    midi_note_to_frequency(note),
+    duration,
+    list(
+      adsr(0, 0.6, 0, 0.05),
+      adsr(0, 0.6618, 0, 0.05),
+      adsr(0, 0.7618, 0, 0.05),
+      adsr(0, 0.9071, 0, 0.05),
+    ),
+  );
+}
+
+/**
+ * returns a Sound reminiscent of a cello, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting cello Sound with given pitch and duration
+ * @example cello(36, 5);
+ */
+export function cello(note: number, duration: number): Sound {
+  return stacking_adsr(
+    square_sound,
+    midi_note_to_frequency(note),
+    duration,
+    list(adsr(0.05, 0, 1, 0.1), adsr(0.05, 0, 1, 0.15), adsr(0, 0, 0.2, 0.15)),
+  );
+}
+
+/**
+ * returns a Sound reminiscent of a piano, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting piano Sound with given pitch and duration
+ * @example piano(48, 5);
+ */
+export function piano(note: number, duration: number): Sound {
+  return stacking_adsr(
+    triangle_sound,
+    midi_note_to_frequency(note),
+    duration,
+    list(adsr(0, 0.515, 0, 0.05), adsr(0, 0.32, 0, 0.05), adsr(0, 0.2, 0, 0.05)),
+  );
+}
+
+/**
+ * returns a Sound reminiscent of a trombone, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting trombone Sound with given pitch and duration
+ * @example trombone(60, 2);
+ */
+export function trombone(note: number, duration: number): Sound {
+  return stacking_adsr(
+    square_sound,
+    midi_note_to_frequency(note),
+    duration,
+    list(adsr(0.2, 0, 1, 0.1), adsr(0.3236, 0.6, 0, 0.1)),
+  );
+}
+
+/**
+ * returns a Sound reminiscent of a violin, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting violin Sound with given pitch and duration
+ * @example violin(53, 4);
+ */
+export function violin(note: number, duration: number): Sound {
+  return stacking_adsr(
+    sawtooth_sound,
+    midi_note_to_frequency(note),
+    duration,
+    list(
+      adsr(0.35, 0, 1, 0.15),
+      adsr(0.35, 0, 1, 0.15),
+      adsr(0.45, 0, 1, 0.15),
+      adsr(0.45, 0, 1, 0.15),
+    ),
+  );
+}
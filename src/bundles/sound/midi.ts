@@ -0,0 +1,285 @@
+/* eslint-disable no-bitwise */
+import type { NoteEvent, NoteSequence } from './types';
+
+// Tempo of MIDI files without tempo events: 120 beats per minute
+const DEFAULT_MICROSECONDS_PER_BEAT = 500000;
+
+// Channel 10 is reserved for percussion, which has no pitch
+const PERCUSSION_CHANNEL = 9;
+
+type TempoChange = {
+  tick: number;
+  microsecondsPerBeat: number;
+};
+
+type TrackNote = {
+  note: number;
+  startTick: number;
+  endTick: number;
+  velocity: number;
+};
+
+type Track = {
+  notes: TrackNote[];
+  tempoChanges: TempoChange[];
+  endTick: number;
+};
+
+/**
+ * Reads big-endian numbers and variable-length quantities from the bytes
+ * of a MIDI file, keeping track of the current position
+ */
+class MidiReader {
+  private position: number = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  public get offset(): number {
+    return this.position;
+  }
+
+  public get done(): boolean {
+    return this.position >= this.bytes.length;
+  }
+
+  public uint8(): number {
+    if (this.done) {
+      throw new Error('invalid MIDI file: unexpected end of data');
+    }
+    const value = this.bytes[this.position];
+    this.position += 1;
+    return value;
+  }
+
+  public uint16(): number {
+    return (this.uint8() << 8) | this.uint8();
+  }
+
+  public uint32(): number {
+    return ((this.uint16() << 16) | this.uint16()) >>> 0;
+  }
+
+  public id(): string {
+    return String.fromCharCode(this.uint8(), this.uint8(), this.uint8(), this.uint8());
+  }
+
+  // Variable-length quantity: 7 bits per byte, most significant first,
+  // with the top bit set on all bytes but the last
+  public varint(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i += 1) {
+      const byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) {
+        return value;
+      }
+    }
+    throw new Error('invalid MIDI file: variable-length quantity is too long');
+  }
+
+  public skip(length: number): void {
+    this.position += length;
+  }
+
+  public slice(length: number): Uint8Array {
+    if (this.position + length > this.bytes.length) {
+      throw new Error('invalid MIDI file: unexpected end of data');
+    }
+    const bytes = this.bytes.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+}
+
+function readTrack(reader: MidiReader): Track {
+  const notes: TrackNote[] = [];
+  const tempoChanges: TempoChange[] = [];
+  // Notes that are still sounding, by channel and note number
+  const sounding = new Map<number, { startTick: number; velocity: number }[]>();
+
+  let tick = 0;
+  let runningStatus = 0;
+
+  const noteOff = (key: number) => {
+    const started = sounding.get(key);
+    const start = started?.shift();
+    if (start !== undefined) {
+      notes.push({
+        note: key & 0x7f,
+        startTick: start.startTick,
+        endTick: tick,
+        velocity: start.velocity,
+      });
+    }
+  };
+
+  while (!reader.done) {
+    tick += reader.varint();
+
+    let status = reader.uint8();
+    if (status < 0x80) {
+      // Running status: the byte just read is the first data byte
+      if (runningStatus === 0) {
+        throw new Error('invalid MIDI file: data byte without status');
+      }
+      status = runningStatus;
+      reader.skip(-1);
+    }
+
+    if (status === 0xff) {
+      // Meta event
+      const type = reader.uint8();
+      const data = reader.slice(reader.varint());
+      if (type === 0x2f) {
+        break;
+      } else if (type === 0x51 && data.length === 3) {
+        tempoChanges.push({
+          tick,
+          microsecondsPerBeat: (data[0] << 16) | (data[1] << 8) | data[2],
+        });
+      }
+    } else if (status === 0xf0 || status === 0xf7) {
+      // System exclusive event
+      reader.skip(reader.varint());
+    } else {
+      runningStatus = status;
+      const type = status & 0xf0;
+      const channel = status & 0x0f;
+      const first = reader.uint8();
+      const second = type === 0xc0 || type === 0xd0 ? 0 : reader.uint8();
+      const key = (channel << 7) | first;
+
+      if (type === 0x90 && second > 0) {
+        if (channel !== PERCUSSION_CHANNEL) {
+          if (!sounding.has(key)) {
+            sounding.set(key, []);
+          }
+          sounding.get(key)!.push({
+            startTick: tick,
+            velocity: second,
+          });
+        }
+      } else if (type === 0x80 || type === 0x90) {
+        // Note on with velocity 0 also ends a note
+        noteOff(key);
+      }
+    }
+  }
+
+  // Notes still sounding at the end of the track end with it
+  [...sounding.keys()].forEach((key) => {
+    while (sounding.get(key)!.length > 0) {
+      noteOff(key);
+    }
+  });
+
+  return {
+    notes,
+    tempoChanges,
+    endTick: tick,
+  };
+}
+
+/**
+ * Makes a function that converts ticks to seconds, using either the tempo
+ * changes or SMPTE timing given by the division in the header
+ */
+function makeTickConverter(
+  division: number,
+  tempoChanges: TempoChange[],
+): (tick: number) => number {
+  if (division & 0x8000) {
+    // SMPTE timing: frames per second and ticks per frame
+    const framesPerSecond = -((division << 16) >> 24);
+    const ticksPerFrame = division & 0xff;
+    return (tick) => tick / (framesPerSecond * ticksPerFrame);
+  }
+
+  // Start time in seconds of each tempo change
+  const sorted = [...tempoChanges].sort((a, b) => a.tick - b.tick);
+  const changes: (TempoChange & { seconds: number })[] = [];
+  let previous = {
+    tick: 0,
+    microsecondsPerBeat: DEFAULT_MICROSECONDS_PER_BEAT,
+    seconds: 0,
+  };
+  changes.push(previous);
+  sorted.forEach((change) => {
+    const seconds = previous.seconds
+      + ((change.tick - previous.tick) * previous.microsecondsPerBeat) / (division * 1e6);
+    previous = {
+      ...change,
+      seconds,
+    };
+    changes.push(previous);
+  });
+
+  return (tick) => {
+    let i = changes.length - 1;
+    while (changes[i].tick > tick) {
+      i -= 1;
+    }
+    const change = changes[i];
+    return change.seconds
+      + ((tick - change.tick) * change.microsecondsPerBeat) / (division * 1e6);
+  };
+}
+
+/**
+ * Parses the notes of a Standard MIDI File of format 0 or 1.
+ * Tempo changes in any track apply to all tracks. Notes on the
+ * percussion channel are left out, as they have no pitch.
+ */
+export function parseMidi(bytes: Uint8Array): NoteSequence {
+  const reader = new MidiReader(bytes);
+  if (bytes.length < 14 || reader.id() !== 'MThd') {
+    throw new Error('not a MIDI file: missing MThd header');
+  }
+
+  const headerLength = reader.uint32();
+  const headerStart = reader.offset;
+  const format = reader.uint16();
+  const numTracks = reader.uint16();
+  const division = reader.uint16();
+  reader.skip(headerLength - (reader.offset - headerStart));
+
+  if (format !== 0 && format !== 1) {
+    throw new Error(`unsupported MIDI file format: ${format}`);
+  }
+  if (division === 0) {
+    throw new Error('invalid MIDI file: division is 0');
+  }
+
+  const tracks: Track[] = [];
+  while (tracks.length < numTracks && !reader.done) {
+    const chunkId = reader.id();
+    const chunk = reader.slice(reader.uint32());
+    if (chunkId === 'MTrk') {
+      tracks.push(readTrack(new MidiReader(chunk)));
+    }
+  }
+
+  const toSeconds = makeTickConverter(
+    division,
+    tracks.flatMap((track) => track.tempoChanges),
+  );
+
+  const events: NoteEvent[] = tracks
+    .flatMap((track) => track.notes)
+    .map((note) => {
+      const start = toSeconds(note.startTick);
+      return {
+        note: note.note,
+        start,
+        duration: toSeconds(note.endTick) - start,
+        volume: note.velocity / 127,
+      };
+    })
+    .filter((event) => event.duration > 0)
+    .sort((a, b) => a.start - b.start);
+
+  return {
+    events,
+    duration: toSeconds(Math.max(0, ...tracks.map((track) => track.endTick))),
+  };
+}
@@ -0,0 +1,161 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import {
+  get_duration,
+  get_wave,
+  is_sound,
+  make_sound,
+} from './sounds';
+import { parseMidi } from './midi';
+import { parseScore } from './score';
+import type { NoteSequence, Sound, SoundProducer, Wave } from './types';
+import { loadBytes } from './utilities';
+
+// Length in seconds of the time slots used to look up the notes playing
+const slot_duration = 0.25;
+
+type PlacedNote = {
+  start: number;
+  end: number;
+  volume: number;
+  wave: Wave;
+};
+
+// Highest number of notes that play at the same time
+function max_polyphony(notes: PlacedNote[]): number {
+  const changes = notes
+    .flatMap((note) => [[note.start, 1], [note.end, -1]])
+    // Notes that end are counted before notes that start at the same time
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  let current = 0;
+  let max = 0;
+  changes.forEach(([, change]) => {
+    current += change;
+    max = Math.max(max, current);
+  });
+  return max;
+}
+
+/**
+ * Plays every note of the sequence with the instrument, at the time
+ * given by the sequence. Like simultaneously, the result is scaled down by
+ * the largest number of notes that play at the same time.
+ */
+function sequence_to_sound(
+  func_name: string,
+  sequence: NoteSequence,
+  instrument: SoundProducer,
+): Sound {
+  const notes: PlacedNote[] = sequence.events.map((event) => {
+    const sound = instrument(event.note, event.duration);
+    if (!is_sound(sound)) {
+      throw new Error(
+        `${func_name} is expecting the instrument to return a sound, but encountered ${sound}`,
+      );
+    }
+    return {
+      start: event.start,
+      end: event.start + get_duration(sound),
+      volume: event.volume,
+      wave: get_wave(sound),
+    };
+  });
+
+  // Notes that play during each time slot
+  const slots: PlacedNote[][] = [];
+  notes.forEach((note) => {
+    const last = Math.floor(note.end / slot_duration);
+    for (let i = Math.floor(note.start / slot_duration); i <= last; i += 1) {
+      if (slots[i] === undefined) {
+        slots[i] = [];
+      }
+      slots[i].push(note);
+    }
+  });
+
+  const scale = 1 / Math.max(1, max_polyphony(notes));
+  return make_sound((t) => {
+    const slot = slots[Math.floor(t / slot_duration)];
+    if (slot === undefined) {
+      return 0;
+    }
+    let sum = 0;
+    slot.forEach((note) => {
+      if (t >= note.start && t < note.end) {
+        sum += note.volume * note.wave(t - note.start);
+      }
+    });
+    return sum * scale;
+  }, sequence.duration);
+}
+
+function check_instrument(func_name: string, instrument: any): void {
+  if (typeof instrument !== 'function') {
+    throw new Error(
+      `${func_name} is expecting an instrument function, but encountered ${instrument}`,
+    );
+  }
+}
+
+/**
+ * Returns a Sound that plays the given text score with the given
+ * instrument. The instrument is a function from a MIDI note and a duration
+ * in seconds to a Sound, such as `piano` or `violin`.
+ *
+ * A score is a sequence of notes, rests, chords and tempo changes
+ * separated by spaces:
+ * - `C4`, `F#3`, `Bb5`: a note, written as a letter, an optional `#` or
+ *   `b` and an optional octave. Without an octave, the octave of the
+ *   previous note is used. The first octave is 4.
+ * - `R`: a rest.
+ * - `[C4 E G]`: a chord of notes played together.
+ * - `T:90`: changes the tempo to 90 beats per minute. The first tempo is 120.
+ * - `|`: a bar line, which can be used to make the score easier to read.
+ *
+ * Notes, rests and chords can be followed by a duration in beats,
+ * such as `C4:2`, `R:0.5` or `[C E G]:3/2`. Without a duration, the
+ * previous duration is used. The first duration is 1 beat.
+ *
+ * @param score the text score
+ * @param instrument function from MIDI note and duration to Sound
+ * @return the Sound of the score played with the instrument
+ * @example score_to_sound("T:100 C4 D E F | G:2 G | [C4 E G]:4", piano);
+ */
+export function score_to_sound(score: string, instrument: SoundProducer): Sound {
+  if (typeof score !== 'string') {
+    throw new Error(`score_to_sound is expecting a string, but encountered ${score}`);
+  }
+  check_instrument('score_to_sound', instrument);
+  return sequence_to_sound('score_to_sound', parseScore(score), instrument);
+}
+
+/**
+ * Returns a Sound that plays the notes of the Standard MIDI File
+ * at the given URL or data URI with the given instrument. The instrument is
+ * a function from a MIDI note and a duration in seconds to a Sound,
+ * such as `piano` or `violin`. Louder notes in the file are played louder.
+ *
+ * MIDI files of format 0 and 1 are supported, including tempo changes.
+ * Notes on channel 10, which is used for percussion, are left out.
+ * The URL must allow CORS requests.
+ *
+ * @param url_or_data_uri URL or data URI of the MIDI file
+ * @param instrument function from MIDI note and duration to Sound
+ * @return the Sound of the MIDI file played with the instrument
+ * @example midi_to_sound("https://example.com/tune.mid", piano);
+ */
+export function midi_to_sound(
+  url_or_data_uri: string,
+  instrument: SoundProducer,
+): Sound {
+  if (typeof url_or_data_uri !== 'string') {
+    throw new Error(
+      `midi_to_sound is expecting a string, but encountered ${url_or_data_uri}`,
+    );
+  }
+  check_instrument('midi_to_sound', instrument);
+  return sequence_to_sound(
+    'midi_to_sound',
+    parseMidi(loadBytes(url_or_data_uri)),
+    instrument,
+  );
+}
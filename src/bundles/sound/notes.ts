@@ -0,0 +1,92 @@
+/**
+ * Conversions between letter names, MIDI notes and frequencies, shared by
+ * the sound and stereo_sound bundles.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+/**
+ * Converts a letter name to its corresponding MIDI note.
+ * The letter name is represented in standard pitch notation.
+ * Examples are "A5", "Db3", "C#7".
+ * Refer to <a href="https://i.imgur.com/qGQgmYr.png">this mapping from
+ * letter name to midi notes.
+ *
+ * @param letter_name given letter name
+ * @return the corresponding midi note
+ * @example letter_name_to_midi_note("C4"); // Returns 60
+ */
+export function letter_name_to_midi_note(note: string): number {
+  let res = 12; // C0 is midi note 12
+  const n = note[0].toUpperCase();
+  switch (n) {
+    case 'D':
+      res += 2;
+      break;
+
+    case 'E':
+      res += 4;
+      break;
+
+    case 'F':
+      res += 5;
+      break;
+
+    case 'G':
+      res += 7;
+      break;
+
+    case 'A':
+      res += 9;
+      break;
+
+    case 'B':
+      res += 11;
+      break;
+
+    default:
+      break;
+  }
+
+  if (note.length === 2) {
+    res += parseInt(note[1]) * 12;
+  } else if (note.length === 3) {
+    switch (note[1]) {
+      case '#':
+        res += 1;
+        break;
+
+      case 'b':
+        res -= 1;
+        break;
+
+      default:
+        break;
+    }
+    res += parseInt(note[2]) * 12;
+  }
+  return res;
+}
+
+/**
+ * Converts a MIDI note to its corresponding frequency.
+ *
+ * @param note given MIDI note
+ * @return the frequency of the MIDI note
+ * @example midi_note_to_frequency(69); // Returns 440
+ */
+export function midi_note_to_frequency(note: number): number {
+  // A4 = 440Hz = midi note 69
+  return 440 * 2 ** ((note - 69) / 12);
+}
+
+/**
+ * Converts a letter name to its corresponding frequency.
+ *
+ * @param letter_name given letter name
+ * @return the corresponding frequency
+ * @example letter_name_to_frequency("A4"); // Returns 440
+ */
+export function letter_name_to_frequency(note: string): number {
+  return midi_note_to_frequency(letter_name_to_midi_note(note));
+}
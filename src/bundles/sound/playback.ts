@@ -0,0 +1,275 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import type { ReplResult } from '../../typings/type_helpers';
+import { mixDown } from './render';
+import type { AudioPlayed } from './types';
+import { encodeWav } from './wav';
+
+type PlaybackState = 'playing' | 'paused' | 'stopped';
+
+/**
+ * Handle to a Sound started with play_concurrently.
+ * Playback only starts once the rendered buffer has been loaded, but the
+ * handle can already be paused, seeked or stopped before that.
+ */
+export class SoundPlayback implements ReplResult {
+  private buffer: AudioBuffer | null = null;
+  private source: AudioBufferSourceNode | null = null;
+
+  // Context time at which the start of the sound was (or would have been) played
+  private startTime: number = 0;
+  // Position in seconds while the sound is not actually playing
+  private offset: number = 0;
+
+  private state: PlaybackState = 'playing';
+
+  constructor(
+    private readonly context: AudioContext,
+    public readonly duration: number,
+    private readonly onStop: (playback: SoundPlayback) => void,
+  ) {}
+
+  public toReplString = () => '<SoundPlayback>';
+
+  /**
+   * True if the sound is playing, or will play once it has been rendered
+   */
+  public get isPlaying(): boolean {
+    return this.state === 'playing';
+  }
+
+  /**
+   * Position of playback within the sound, in seconds
+   */
+  public get position(): number {
+    if (this.source !== null) {
+      return Math.min(this.context.currentTime - this.startTime, this.duration);
+    }
+    return this.offset;
+  }
+
+  /**
+   * Supplies the rendered sound, starting playback unless the handle has
+   * been paused or stopped in the meantime
+   */
+  public load(buffer: AudioBuffer): void {
+    this.buffer = buffer;
+    if (this.state === 'playing') {
+      this.startSource(this.offset);
+    }
+  }
+
+  public pause(): void {
+    if (this.state === 'playing') {
+      this.offset = this.position;
+      this.stopSource();
+      this.state = 'paused';
+    }
+  }
+
+  public resume(): void {
+    if (this.state === 'paused') {
+      this.state = 'playing';
+      if (this.buffer !== null) {
+        this.startSource(this.offset);
+      }
+    }
+  }
+
+  public seek(position: number): void {
+    const clamped = Math.max(0, Math.min(position, this.duration));
+    if (this.source !== null) {
+      this.stopSource();
+      this.startSource(clamped);
+    } else {
+      this.offset = clamped;
+    }
+  }
+
+  public stop(): void {
+    if (this.state !== 'stopped') {
+      this.offset = this.position;
+      this.stopSource();
+      this.state = 'stopped';
+      this.onStop(this);
+    }
+  }
+
+  private startSource(position: number): void {
+    const source = this.context.createBufferSource();
+    source.buffer = this.buffer;
+    source.connect(this.context.destination);
+    source.onended = () => {
+      // Only reached when the sound plays to the end, as stopSource
+      // removes this listener before stopping the source
+      this.source = null;
+      source.disconnect(this.context.destination);
+      this.offset = this.duration;
+      this.state = 'stopped';
+      this.onStop(this);
+    };
+    source.start(0, position);
+    this.source = source;
+    this.startTime = this.context.currentTime - position;
+  }
+
+  private stopSource(): void {
+    if (this.source !== null) {
+      this.source.onended = null;
+      this.source.stop();
+      this.source.disconnect(this.context.destination);
+      this.source = null;
+    }
+  }
+}
+
+/**
+ * Makes the AudioPlayed shown by the Sound tabs for channels that are being
+ * rendered. The tabs show the sound once rendering has finished.
+ */
+export function makeAudioPlayed(
+  rendering: Promise<Float32Array[]>,
+  sampleRate: number,
+): AudioPlayed {
+  const audio: AudioPlayed = {
+    toReplString: () => '<AudioPlayed>',
+    dataUri: '',
+    samples: null,
+    sampleRate,
+    rendered: rendering.then((channels) => {
+      audio.samples = channels.length === 1 ? channels[0] : mixDown(channels);
+      audio.dataUri = encodeWav(channels, sampleRate, 16);
+      return audio.dataUri;
+    }),
+  };
+  // Only the tabs report rendering errors, so they must not be unhandled
+  // rejections when no tab is shown
+  audio.rendered.catch(() => {});
+  return audio;
+}
+
+/**
+ * Plays channels that are being rendered once rendering has finished,
+ * returning the handle to the playing sound. The handle is kept in the
+ * given set of playbacks until the sound stops, or until rendering fails
+ * and the error is logged.
+ */
+export function startPlayback(
+  context: AudioContext,
+  rendering: Promise<Float32Array[]>,
+  duration: number,
+  sampleRate: number,
+  playbacks: Set<SoundPlayback>,
+): SoundPlayback {
+  const playback = new SoundPlayback(
+    context,
+    Math.max(duration, 0),
+    (p) => playbacks.delete(p),
+  );
+  if (duration <= 0) {
+    // Nothing to play
+    playback.stop();
+    return playback;
+  }
+
+  playbacks.add(playback);
+  rendering.then((channels) => {
+    const buffer = context.createBuffer(
+      channels.length,
+      channels[0].length,
+      sampleRate,
+    );
+    channels.forEach((samples, c) => {
+      buffer.copyToChannel(samples, c);
+    });
+    playback.load(buffer);
+  }, (error) => {
+    // Later chunks of the sound failed to render, so it can never play
+    playback.stop();
+    console.error(`play_concurrently: error while rendering sound: ${error}`);
+  });
+  return playback;
+}
+
+// Throws if the argument is not a handle returned by play_concurrently
+function check_playback(func_name: string, x: any): void {
+  if (!(x instanceof SoundPlayback)) {
+    throw new Error(
+      `${func_name} is expecting a handle returned by play_concurrently, but encountered ${x}`,
+    );
+  }
+}
+
+/**
+ * Stops the sound with the given handle, leaving other sounds playing.
+ * A stopped sound cannot be resumed.
+ *
+ * @param handle handle returned by play_concurrently
+ * @example const handle = play_concurrently(sine_sound(440, 5));
+ * stop_sound(handle);
+ */
+export function stop_sound(handle: SoundPlayback): void {
+  check_playback('stop_sound', handle);
+  handle.stop();
+}
+
+/**
+ * Pauses the sound with the given handle. Pausing a sound that is
+ * paused or stopped has no effect.
+ *
+ * @param handle handle returned by play_concurrently
+ * @example const handle = play_concurrently(sine_sound(440, 5));
+ * pause_sound(handle);
+ */
+export function pause_sound(handle: SoundPlayback): void {
+  check_playback('pause_sound', handle);
+  handle.pause();
+}
+
+/**
+ * Resumes the paused sound with the given handle from where it was paused.
+ * Resuming a sound that is playing or stopped has no effect.
+ *
+ * @param handle handle returned by play_concurrently
+ * @example const handle = play_concurrently(sine_sound(440, 5));
+ * pause_sound(handle);
+ * resume_sound(handle);
+ */
+export function resume_sound(handle: SoundPlayback): void {
+  check_playback('resume_sound', handle);
+  handle.resume();
+}
+
+/**
+ * Moves playback of the sound with the given handle to the given position
+ * in seconds. Positions outside of the sound are clamped to its start
+ * or end.
+ *
+ * @param handle handle returned by play_concurrently
+ * @param position new position in seconds
+ * @example const handle = play_concurrently(sine_sound(440, 5));
+ * seek_sound(handle, 2.5);
+ */
+export function seek_sound(handle: SoundPlayback, position: number): void {
+  check_playback('seek_sound', handle);
+  if (typeof position !== 'number') {
+    throw new Error(
+      `seek_sound is expecting a number, but encountered ${position}`,
+    );
+  }
+  handle.seek(position);
+}
+
+/**
+ * Returns the current position of playback of the sound with the given
+ * handle, in seconds. Once the sound has played to its end, its duration
+ * is returned.
+ *
+ * @param handle handle returned by play_concurrently
+ * @return the current position in seconds
+ * @example const handle = play_concurrently(sine_sound(440, 5));
+ * get_playback_position(handle);
+ */
+export function get_playback_position(handle: SoundPlayback): number {
+  check_playback('get_playback_position', handle);
+  return handle.position;
+}
@@ -0,0 +1,137 @@
+/**
+ * Microphone recording shared by the sound and stereo_sound bundles.
+ * Each bundle makes its own Recorder, which turns recordings into Sounds
+ * of that bundle.
+ */
+
+// duration of recording signal in milliseconds
+const recording_signal_ms = 100;
+
+// duration of pause after "run" before recording signal is played
+const pre_recording_signal_pause_ms = 200;
+
+// Converts input microphone sound (blob) into array format.
+function convertToArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  const url = URL.createObjectURL(blob);
+  return fetch(url)
+    .then((response) => response.arrayBuffer());
+}
+
+export class Recorder<S> {
+  // permission initially undefined
+  // set to true by granting microphone permission
+  // set to false by denying microphone permission
+  private permission: boolean | undefined;
+
+  private stream: MediaStream | undefined;
+
+  private recordedSound: S | undefined;
+
+  /**
+   * @param playSignal plays the beep at the start and end of each recording
+   * @param toSound makes a Sound from the decoded recording
+   */
+  constructor(
+    private readonly playSignal: () => void,
+    private readonly toSound: (audioBuffer: AudioBuffer) => S,
+  ) {}
+
+  /**
+   * Asks for permission to use the default device microphone
+   */
+  public init(): string {
+    navigator.mediaDevices
+      .getUserMedia({ audio: true })
+      .then(
+        (stream) => {
+          this.permission = true;
+          this.stream = stream;
+        },
+        () => {
+          this.permission = false;
+        },
+      );
+    return 'obtaining recording permission';
+  }
+
+  /**
+   * Starts recording after the buffer in seconds, see `record`
+   */
+  public record(buffer: number): () => () => S {
+    this.checkPermission();
+    const mediaRecorder = new MediaRecorder(this.stream!);
+    setTimeout(() => {
+      this.playSignal();
+      this.start(mediaRecorder);
+    }, recording_signal_ms + buffer * 1000);
+    return () => {
+      mediaRecorder.stop();
+      this.playSignal();
+      return () => this.getRecordedSound();
+    };
+  }
+
+  /**
+   * Records for the duration in seconds after the buffer in seconds,
+   * see `record_for`
+   */
+  public recordFor(duration: number, buffer: number): () => S {
+    this.recordedSound = undefined;
+    const recording_ms = duration * 1000;
+    const pre_recording_pause_ms = buffer * 1000;
+    this.checkPermission();
+    const mediaRecorder = new MediaRecorder(this.stream!);
+
+    // order of events for record_for:
+    // pre-recording-signal pause | recording signal |
+    // pre-recording pause | recording | recording signal
+
+    setTimeout(() => {
+      this.playSignal();
+      setTimeout(() => {
+        this.start(mediaRecorder);
+        setTimeout(() => {
+          mediaRecorder.stop();
+          this.playSignal();
+        }, recording_ms);
+      }, recording_signal_ms + pre_recording_pause_ms);
+    }, pre_recording_signal_pause_ms);
+
+    return () => this.getRecordedSound();
+  }
+
+  // checkPermission is called whenever we try
+  // to record a sound
+  private checkPermission(): void {
+    if (this.permission === undefined) {
+      throw new Error(
+        'Call init_record(); to obtain permission to use microphone',
+      );
+    } else if (this.permission === false) {
+      throw new Error(`Permission has been denied.\n
+		    Re-start browser and call init_record();\n
+		    to obtain permission to use microphone.`);
+    } // (permission === true): do nothing
+  }
+
+  private start(mediaRecorder: MediaRecorder): void {
+    const data: Blob[] = [];
+    mediaRecorder.ondataavailable = (e) => e.data.size && data.push(e.data);
+    mediaRecorder.start();
+    mediaRecorder.onstop = () => {
+      const audioContext = new AudioContext();
+      convertToArrayBuffer(new Blob(data))
+        .then((arrayBuffer) => audioContext.decodeAudioData(arrayBuffer))
+        .then((audioBuffer) => {
+          this.recordedSound = this.toSound(audioBuffer);
+        });
+    };
+  }
+
+  private getRecordedSound(): S {
+    if (this.recordedSound === undefined) {
+      throw new Error('recording still being processed');
+    }
+    return this.recordedSound;
+  }
+}
@@ -0,0 +1,174 @@
+import { head, tail } from 'js-slang/dist/stdlib/list';
+import type { Sound, Wave } from './types';
+
+/**
+ * Number of samples rendered before yielding to the event loop
+ */
+export const CHUNK_SIZE = 16384;
+
+type RenderJob = {
+  sampleRate: number;
+  // One array of samples per channel
+  channels: Float32Array[];
+  // Number of samples at the start of each channel that have been rendered
+  rendered: number;
+  promise?: Promise<Float32Array[]>;
+};
+
+// Rendered samples are remembered for as long as the Sound itself is alive,
+// so playing the same Sound again does not sample its waves again
+const renderCache = new WeakMap<object, RenderJob>();
+
+function getJob(
+  sound: object,
+  numChannels: number,
+  duration: number,
+  sampleRate: number,
+): RenderJob {
+  let job = renderCache.get(sound);
+  if (job === undefined || job.sampleRate !== sampleRate) {
+    const length = Math.ceil(sampleRate * duration);
+    job = {
+      sampleRate,
+      channels: Array.from({ length: numChannels }, () => new Float32Array(length)),
+      rendered: 0,
+    };
+    renderCache.set(sound, job);
+  }
+  return job;
+}
+
+/**
+ * Samples the waves up to (but excluding) the given sample index,
+ * continuing from where the job was left off.
+ * Amplitudes are clipped to [-1, 1].
+ */
+function renderUntil(waves: Wave[], job: RenderJob, end: number): void {
+  const { channels, sampleRate } = job;
+  const stop = Math.min(end, channels[0].length);
+
+  waves.forEach((wave, c) => {
+    const samples = channels[c];
+    let temp: number;
+    let prev_value = job.rendered > 0 ? samples[job.rendered - 1] : 0;
+
+    for (let i = job.rendered; i < stop; i += 1) {
+      temp = wave(i / sampleRate);
+      // clip amplitude
+      if (temp > 1) {
+        samples[i] = 1;
+      } else if (temp < -1) {
+        samples[i] = -1;
+      } else {
+        samples[i] = temp;
+      }
+
+      // smoothen out sudden cut-outs
+      if (samples[i] === 0 && Math.abs(samples[i] - prev_value) > 0.01) {
+        samples[i] = prev_value * 0.999;
+      }
+
+      prev_value = samples[i];
+    }
+  });
+  job.rendered = Math.max(job.rendered, stop);
+}
+
+/**
+ * Renders one channel per wave of the given sound at the given sample rate
+ * in one go. The sound is only used to remember the rendered samples,
+ * so it must always be given with the same waves and duration.
+ */
+export function renderChannelsSync(
+  sound: object,
+  waves: Wave[],
+  duration: number,
+  sampleRate: number,
+): Float32Array[] {
+  const job = getJob(sound, waves.length, duration, sampleRate);
+  renderUntil(waves, job, job.channels[0].length);
+  return job.channels;
+}
+
+/**
+ * Renders one channel per wave of the given sound at the given sample rate
+ * in chunks of CHUNK_SIZE samples, yielding to the event loop between chunks.
+ * The first chunk is rendered synchronously, so errors in the wave functions
+ * are usually thrown to the caller. Errors in later chunks reject the promise.
+ */
+export function renderChannels(
+  sound: object,
+  waves: Wave[],
+  duration: number,
+  sampleRate: number,
+): Promise<Float32Array[]> {
+  const job = getJob(sound, waves.length, duration, sampleRate);
+  if (job.promise !== undefined) {
+    return job.promise;
+  }
+
+  renderUntil(waves, job, CHUNK_SIZE);
+
+  job.promise = new Promise((resolve, reject) => {
+    const step = () => {
+      if (job.rendered >= job.channels[0].length) {
+        resolve(job.channels);
+        return;
+      }
+      try {
+        renderUntil(waves, job, job.rendered + CHUNK_SIZE);
+      } catch (error) {
+        renderCache.delete(sound);
+        reject(error);
+        return;
+      }
+      setTimeout(step, 0);
+    };
+    step();
+  });
+  return job.promise;
+}
+
+/**
+ * Renders the given mono Sound at the given sample rate in one go.
+ */
+export function renderSoundSync(sound: Sound, sampleRate: number): Float32Array {
+  return renderChannelsSync(sound, [head(sound)], tail(sound), sampleRate)[0];
+}
+
+/**
+ * Renders the given mono Sound at the given sample rate in chunks,
+ * see renderChannels.
+ */
+export function renderSound(sound: Sound, sampleRate: number): Promise<Float32Array> {
+  return renderChannels(sound, [head(sound)], tail(sound), sampleRate)
+    .then(([samples]) => samples);
+}
+
+/**
+ * Averages the channels into a single channel.
+ */
+export function mixDown(channels: ArrayLike<number>[]): Float32Array {
+  const mixed = new Float32Array(channels[0].length);
+  channels.forEach((samples) => {
+    for (let i = 0; i < mixed.length; i += 1) {
+      mixed[i] += samples[i] / channels.length;
+    }
+  });
+  return mixed;
+}
+
+/**
+ * Makes a wave that linearly interpolates between the given samples.
+ */
+export function samplesToWave(samples: ArrayLike<number>, sampleRate: number): Wave {
+  return (t) => {
+    const index = t * sampleRate;
+    const lowerIndex = Math.floor(index);
+    const upperIndex = lowerIndex + 1;
+    const ratio = index - lowerIndex;
+    const upper = samples[upperIndex] ? samples[upperIndex] : 0;
+    const lower = samples[lowerIndex] ? samples[lowerIndex] : 0;
+    return lower * (1 - ratio) + upper * ratio;
+  };
+}
@@ -9,11 +9,14 @@
  * 0.01 - First release
  * 0.02 - New faster base64 encoding
  * 0.03 - Support for 16bit samples
+ * 0.04 - Support for 24bit and 32bit float samples
  *
  * Notes:
  *
  * 8 bit data is unsigned: 0..255
  * 16 bit data is signed: âˆ’32,768..32,767
+ * 24 bit data is signed: -8,388,608..8,388,607
+ * 32 bit data is IEEE float: -1.0..1.0
  *
  */
 
@@ -71,12 +74,12 @@ export function RIFFWAVE(this: any, data) {
     format: [0x57, 0x41, 0x56, 0x45], // 8    4    "WAVE" = 0x57415645
     subChunk1Id: [0x66, 0x6d, 0x74, 0x20], // 12   4    "fmt " = 0x666d7420
     subChunk1Size: 16, // 16   4    16 for PCM
-    audioFormat: 1, // 20   2    PCM = 1
+    audioFormat: 1, // 20   2    PCM = 1, IEEE float = 3
     numChannels: 1, // 22   2    Mono = 1, Stereo = 2...
     sampleRate: 8000, // 24   4    8000, 44100...
     byteRate: 0, // 28   4    SampleRate*NumChannels*BitsPerSample/8
     blockAlign: 0, // 32   2    NumChannels*BitsPerSample/8
-    bitsPerSample: 8, // 34   2    8 bits = 8, 16 bits = 16
+    bitsPerSample: 8, // 34   2    8 bits = 8, 16 bits = 16, 24 bits = 24, 32 bits = 32
     subChunk2Id: [0x64, 0x61, 0x74, 0x61], // 36   4    "data" = 0x64617461
     subChunk2Size: 0, // 40   4    data size = NumSamples*NumChannels*BitsPerSample/8
   };
@@ -100,14 +103,39 @@ export function RIFFWAVE(this: any, data) {
     return r;
   }
 
+  function split24bitArray(data) {
+    var r: any[] = [];
+    var j = 0;
+    var len = data.length;
+    for (var i = 0; i < len; i++) {
+      r[j++] = data[i] & 0xff;
+      r[j++] = (data[i] >> 8) & 0xff;
+      r[j++] = (data[i] >> 16) & 0xff;
+    }
+    return r;
+  }
+
+  function splitFloat32Array(data) {
+    return Array.from(new Uint8Array(new Float32Array(data).buffer));
+  }
+
+  function splitData(bitsPerSample, data) {
+    if (bitsPerSample == 16) return split16bitArray(data);
+    if (bitsPerSample == 24) return split24bitArray(data);
+    if (bitsPerSample == 32) return splitFloat32Array(data);
+    return data;
+  }
+
   this.Make = function (data: any) {
     if (data instanceof Array) this.data = data;
     this.header.blockAlign =
       (this.header.numChannels * this.header.bitsPerSample) >> 3;
-    this.header.byteRate = this.header.blockAlign * this.sampleRate;
+    this.header.byteRate = this.header.blockAlign * this.header.sampleRate;
     this.header.subChunk2Size =
       this.data.length * (this.header.bitsPerSample >> 3);
     this.header.chunkSize = 36 + this.header.subChunk2Size;
+    // 32 bit samples are always written as IEEE float
+    this.header.audioFormat = this.header.bitsPerSample == 32 ? 3 : 1;
 
     this.wav = this.header.chunkId.concat(
       u32ToArray(this.header.chunkSize),
@@ -122,7 +150,7 @@ export function RIFFWAVE(this: any, data) {
       u16ToArray(this.header.bitsPerSample),
       this.header.subChunk2Id,
       u32ToArray(this.header.subChunk2Size),
-      this.header.bitsPerSample == 16 ? split16bitArray(this.data) : this.data
+      splitData(this.header.bitsPerSample, this.data)
     );
     this.dataURI = 'data:audio/wav;base64,' + FastBase64.Encode(this.wav);
   };
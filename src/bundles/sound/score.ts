@@ -0,0 +1,141 @@
+import type { NoteEvent, NoteSequence } from './types';
+
+const DEFAULT_TEMPO = 120;
+const DEFAULT_OCTAVE = 4;
+
+const NOTE_OFFSETS: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+const TOKEN_REGEX = /\[[^\]]*\](?::\S*)?|\S+/gu;
+const NOTE_REGEX = /^(?<letter>[A-Ga-g])(?<accidental>[#b]?)(?<octave>-?\d+)?$/u;
+const DURATION_REGEX = /^(?<numerator>\d+(?:\.\d+)?)(?:\/(?<denominator>\d+(?:\.\d+)?))?$/u;
+const TEMPO_REGEX = /^T:(?<bpm>\d+(?:\.\d+)?)$/u;
+
+class ScoreError extends Error {
+  constructor(message: string, token: string, index: number) {
+    super(`invalid score: ${message} in "${token}" at position ${index}`);
+  }
+}
+
+/**
+ * Parses a text score into the notes it contains. A score is a sequence of
+ * tokens separated by whitespace:
+ * - `C4`, `F#3`, `Bb5`: a note, made of a letter, an optional accidental
+ *   and an optional octave. Without an octave, the previous octave is used.
+ * - `R`: a rest.
+ * - `[C4 E G]`: a chord of notes played together.
+ * - `T:90`: sets the tempo in beats per minute, 120 by default.
+ * - `|`: a bar line, which is ignored.
+ *
+ * Notes, rests and chords can be followed by a duration in beats, such as
+ * `C4:2`, `R:0.5` or `[C E G]:3/2`. Without a duration, the previous
+ * duration is used, which is 1 beat at the start of the score.
+ */
+export function parseScore(score: string): NoteSequence {
+  const events: NoteEvent[] = [];
+  let secondsPerBeat = 60 / DEFAULT_TEMPO;
+  let octave = DEFAULT_OCTAVE;
+  let beats = 1;
+  let time = 0;
+
+  const parseNote = (text: string, token: string, index: number): number => {
+    const match = NOTE_REGEX.exec(text);
+    if (match === null) {
+      throw new ScoreError(`unknown note "${text}"`, token, index);
+    }
+    const { letter, accidental, octave: octaveText } = match.groups!;
+    if (octaveText !== undefined) {
+      octave = parseInt(octaveText);
+    }
+    let note = 12 * (octave + 1) + NOTE_OFFSETS[letter.toUpperCase()];
+    if (accidental === '#') {
+      note += 1;
+    } else if (accidental === 'b') {
+      note -= 1;
+    }
+    return note;
+  };
+
+  const parseDuration = (text: string | undefined, token: string, index: number) => {
+    if (text === undefined) {
+      return;
+    }
+    const match = DURATION_REGEX.exec(text);
+    const value = match === null
+      ? NaN
+      : parseFloat(match.groups!.numerator)
+        / (match.groups!.denominator === undefined ? 1 : parseFloat(match.groups!.denominator));
+    if (!(value > 0) || !Number.isFinite(value)) {
+      throw new ScoreError(`invalid duration "${text}"`, token, index);
+    }
+    beats = value;
+  };
+
+  for (const match of score.matchAll(TOKEN_REGEX)) {
+    const token = match[0];
+    const index = match.index!;
+    const tempo = TEMPO_REGEX.exec(token);
+
+    if (token === '|') {
+      // Bar lines only help readability
+    } else if (tempo !== null) {
+      const bpm = parseFloat(tempo.groups!.bpm);
+      if (!(bpm > 0)) {
+        throw new ScoreError('tempo must be positive', token, index);
+      }
+      secondsPerBeat = 60 / bpm;
+    } else {
+      // Split the token into the note, rest or chord and its duration
+      const end = token.startsWith('[') ? token.indexOf(']') + 1 : token.length;
+      if (end === 0) {
+        throw new ScoreError('chord is missing "]"', token, index);
+      }
+      const colon = token.indexOf(':', token.startsWith('[') ? end : 0);
+      if (end < token.length && colon !== end) {
+        throw new ScoreError('expected ":" after chord', token, index);
+      }
+      const body = colon === -1 ? token : token.substring(0, colon);
+      const durationText = colon === -1 ? undefined : token.substring(colon + 1);
+
+      let notes: number[];
+      if (body.startsWith('[')) {
+        notes = body.substring(1, body.length - 1)
+          .trim()
+          .split(/\s+/u)
+          .filter((text) => text !== '')
+          .map((text) => parseNote(text, token, index));
+        if (notes.length === 0) {
+          throw new ScoreError('empty chord', token, index);
+        }
+      } else if (body === 'R' || body === 'r') {
+        notes = [];
+      } else {
+        notes = [parseNote(body, token, index)];
+      }
+      parseDuration(durationText, token, index);
+
+      const duration = beats * secondsPerBeat;
+      for (const note of notes) {
+        events.push({
+          note,
+          start: time,
+          duration,
+          volume: 1,
+        });
+      }
+      time += duration;
+    }
+  }
+
+  return {
+    events,
+    duration: time,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Sounds and the sample rate at which they are played and saved. These
+ * functions do not use the module context, so that the other parts of the
+ * bundle, such as the checks in './assertions.ts', work without it.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import {
+  head,
+  is_pair,
+  pair,
+  tail,
+} from 'js-slang/dist/stdlib/list';
+import type { Sound, Wave } from './types';
+
+let FS: number = 44100; // Output sample rate, see set_sample_rate
+
+/**
+ * Makes a Sound with given wave function and duration.
+ * The wave function is a function: number -> number
+ * that takes in a non-negative input time and returns an amplitude
+ * between -1 and 1.
+ *
+ * @param wave wave function of the sound
+ * @param duration duration of the sound
+ * @return with wave as wave function and duration as duration
+ * @example const s = make_sound(t => Math_sin(2 * Math_PI * 440 * t), 5);
+ */
+export function make_sound(wave: Wave, duration: number): Sound {
+  return pair((t: number) => (t >= duration ? 0 : wave(t)), duration);
+}
+
+/**
+ * Accesses the wave function of a given Sound.
+ *
+ * @param sound given Sound
+ * @return the wave function of the Sound
+ * @example get_wave(make_sound(t => Math_sin(2 * Math_PI * 440 * t), 5)); // Returns t => Math_sin(2 * Math_PI * 440 * t)
+ */
+export function get_wave(sound: Sound): Wave {
+  return head(sound);
+}
+
+/**
+ * Accesses the duration of a given Sound.
+ *
+ * @param sound given Sound
+ * @return the duration of the Sound
+ * @example get_duration(make_sound(t => Math_sin(2 * Math_PI * 440 * t), 5)); // Returns 5
+ */
+export function get_duration(sound: Sound): number {
+  return tail(sound);
+}
+
+/**
+ * Checks if the argument is a Sound
+ *
+ * @param x input to be checked
+ * @return true if x is a Sound, false otherwise
+ * @example is_sound(make_sound(t => 0, 2)); // Returns true
+ */
+export function is_sound(x: any): x is Sound {
+  return (
+    is_pair(x)
+    && typeof get_wave(x) === 'function'
+    && typeof get_duration(x) === 'number'
+  );
+}
+
+/**
+ * Sets the sample rate at which Sounds are played and saved, in samples
+ * per second. Higher sample rates represent high frequencies more
+ * accurately, but take longer to render. The default is 44100.
+ *
+ * @param sample_rate the new sample rate, between 3000 and 768000
+ * @example set_sample_rate(22050);
+ */
+export function set_sample_rate(sample_rate: number): void {
+  if (
+    typeof sample_rate !== 'number'
+    || !Number.isInteger(sample_rate)
+    || sample_rate < 3000
+    || sample_rate > 768000
+  ) {
+    throw new Error(
+      `set_sample_rate is expecting an integer between 3000 and 768000, but encountered ${sample_rate}`,
+    );
+  }
+  FS = sample_rate;
+}
+
+/**
+ * Returns the sample rate at which Sounds are played and saved,
+ * in samples per second.
+ *
+ * @return the current sample rate
+ * @example get_sample_rate(); // Returns 44100
+ */
+export function get_sample_rate(): number {
+  return FS;
+}
@@ -2,6 +2,8 @@ import type { Pair } from 'js-slang/dist/stdlib/list';
 
 export type Wave = (...t: any) => number;
 export type Sound = Pair<Wave, number>;
+// Sound of the stereo_sound bundle, with a left and a right wave
+export type StereoSound = Pair<Pair<Wave, Wave>, number>;
 export type SoundProducer = (...t: any) => Sound;
 export type SoundTransformer = (s: Sound) => Sound;
 export type ErrorLogger = (
@@ -10,5 +12,32 @@ export type ErrorLogger = (
 ) => void;
 export type AudioPlayed = {
   toReplString: () => string;
+  // Empty until the sound has been rendered
   dataUri: string;
+  // Null until the sound has been rendered
+  samples: Float32Array | null;
+  sampleRate: number;
+  // Resolves to the data URI once the sound has been rendered
+  rendered: Promise<string>;
+};
+export type WavBitDepth = 16 | 24 | 32;
+export type WavData = {
+  sampleRate: number;
+  // Average of all channels
+  samples: Float32Array;
+  channels: Float32Array[];
+};
+export type NoteEvent = {
+  // MIDI note number
+  note: number;
+  // Start time and duration in seconds
+  start: number;
+  duration: number;
+  // Relative amplitude between 0 and 1
+  volume: number;
+};
+export type NoteSequence = {
+  events: NoteEvent[];
+  // Duration of the whole sequence in seconds
+  duration: number;
 };
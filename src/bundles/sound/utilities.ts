@@ -0,0 +1,46 @@
+/* eslint-disable no-bitwise */
+
+/**
+ * Converts a base64 data URI into its raw bytes.
+ */
+export function dataUriToBytes(dataUri: string): Uint8Array {
+  const separator = dataUri.indexOf(',');
+  if (!dataUri.startsWith('data:') || separator === -1) {
+    throw new Error('invalid data URI');
+  }
+
+  const meta = dataUri.substring(5, separator);
+  const payload = dataUri.substring(separator + 1);
+  if (!meta.endsWith(';base64')) {
+    const text = decodeURIComponent(payload);
+    return Uint8Array.from(text, (c) => c.charCodeAt(0) & 0xff);
+  }
+
+  const binary = atob(payload);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * Synchronously fetches the bytes at the given URL.
+ * Binary responses cannot be requested synchronously, so the response is
+ * read as text with a charset that maps every byte to a single character.
+ */
+export function fetchBytes(url: string): Uint8Array {
+  const request = new XMLHttpRequest();
+  request.open('GET', url, false);
+  request.overrideMimeType('text/plain; charset=x-user-defined');
+  request.send();
+  if (request.status !== 200 && request.status !== 0) {
+    throw new Error(`failed to load ${url}: ${request.status} ${request.statusText}`);
+  }
+  return Uint8Array.from(request.responseText, (c) => c.charCodeAt(0) & 0xff);
+}
+
+/**
+ * Returns the bytes at the given URL or data URI.
+ */
+export function loadBytes(urlOrDataUri: string): Uint8Array {
+  return urlOrDataUri.startsWith('data:')
+    ? dataUriToBytes(urlOrDataUri)
+    : fetchBytes(urlOrDataUri);
+}
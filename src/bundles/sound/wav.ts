@@ -0,0 +1,183 @@
+/* eslint-disable new-cap, no-bitwise */
+import { mixDown } from './render';
+import { RIFFWAVE } from './riffwave';
+import type { WavBitDepth, WavData } from './types';
+
+// Offsets and identifiers of the RIFF container, see riffwave.ts
+const RIFF_ID = 'RIFF';
+const WAVE_ID = 'WAVE';
+const FMT_ID = 'fmt ';
+const DATA_ID = 'data';
+
+const PCM_FORMAT = 1;
+const FLOAT_FORMAT = 3;
+const EXTENSIBLE_FORMAT = 0xfffe;
+
+function readId(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+}
+
+/**
+ * Quantizes a sample in [-1, 1] to the integer range of the given bit depth.
+ * 32 bit samples are written as floats, so they are returned unchanged.
+ */
+function quantize(sample: number, bitDepth: WavBitDepth): number {
+  switch (bitDepth) {
+    case 16:
+      return Math.floor(sample * 32767.999);
+    case 24:
+      return Math.floor(sample * 8388607.999);
+    default:
+      return sample;
+  }
+}
+
+/**
+ * Encodes channels of samples in the range [-1, 1] as a WAV file and
+ * returns its data URI. All channels must have the same length.
+ */
+export function encodeWav(
+  channels: ArrayLike<number>[],
+  sampleRate: number,
+  bitDepth: WavBitDepth,
+): string {
+  // Samples of all channels are interleaved
+  const data: number[] = [];
+  channels.forEach((samples, c) => {
+    for (let i = 0; i < samples.length; i += 1) {
+      data[i * channels.length + c] = quantize(samples[i], bitDepth);
+    }
+  });
+
+  const riffwave = new RIFFWAVE([]);
+  riffwave.header.sampleRate = sampleRate;
+  riffwave.header.numChannels = channels.length;
+  riffwave.header.bitsPerSample = bitDepth;
+  riffwave.Make(data);
+  return riffwave.dataURI;
+}
+
+/**
+ * Reads a single sample at the given byte offset and scales it to [-1, 1].
+ */
+function readSample(
+  view: DataView,
+  offset: number,
+  format: number,
+  bitsPerSample: number,
+): number {
+  if (format === FLOAT_FORMAT) {
+    return bitsPerSample === 64
+      ? view.getFloat64(offset, true)
+      : view.getFloat32(offset, true);
+  }
+
+  switch (bitsPerSample) {
+    case 8:
+      // 8 bit data is unsigned
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset)
+        | (view.getUint8(offset + 1) << 8)
+        | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(offset, true) / 2147483648;
+    default:
+      throw new Error(`unsupported WAV bit depth: ${bitsPerSample}`);
+  }
+}
+
+/**
+ * Decodes the bytes of a WAV file into its channels, and a mono mix
+ * that averages the channels.
+ */
+export function decodeWav(bytes: Uint8Array): WavData {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (
+    bytes.byteLength < 12
+    || readId(view, 0) !== RIFF_ID
+    || readId(view, 8) !== WAVE_ID
+  ) {
+    throw new Error('not a WAV file: missing RIFF/WAVE header');
+  }
+
+  let format: number | undefined;
+  let numChannels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const chunkId = readId(view, offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const chunkStart = offset + 8;
+
+    if (chunkId === FMT_ID) {
+      format = view.getUint16(chunkStart, true);
+      numChannels = view.getUint16(chunkStart + 2, true);
+      sampleRate = view.getUint32(chunkStart + 4, true);
+      bitsPerSample = view.getUint16(chunkStart + 14, true);
+      if (format === EXTENSIBLE_FORMAT) {
+        // The actual format is the first two bytes of the sub-format GUID
+        format = view.getUint16(chunkStart + 24, true);
+      }
+      if (format !== PCM_FORMAT && format !== FLOAT_FORMAT) {
+        throw new Error(`unsupported WAV format: ${format}`);
+      }
+      if (numChannels === 0) {
+        throw new Error('invalid WAV file: fmt chunk has no channels');
+      }
+      if (sampleRate === 0) {
+        throw new Error('invalid WAV file: fmt chunk has a sample rate of 0');
+      }
+      // Checked here, as empty data chunks never reach readSample
+      if (!(format === FLOAT_FORMAT ? [32, 64] : [8, 16, 24, 32]).includes(bitsPerSample)) {
+        throw new Error(`unsupported WAV bit depth: ${bitsPerSample}`);
+      }
+    } else if (chunkId === DATA_ID) {
+      if (format === undefined) {
+        throw new Error('invalid WAV file: data chunk before fmt chunk');
+      }
+
+      const bytesPerSample = bitsPerSample >> 3;
+      const blockAlign = bytesPerSample * numChannels;
+      // Some encoders write a bogus size for streamed data, so clamp it
+      const dataSize = Math.min(chunkSize, bytes.byteLength - chunkStart);
+      const numFrames = Math.floor(dataSize / blockAlign);
+      const channels: Float32Array[] = [];
+
+      for (let c = 0; c < numChannels; c += 1) {
+        const samples = new Float32Array(numFrames);
+        for (let i = 0; i < numFrames; i += 1) {
+          samples[i] = readSample(
+            view,
+            chunkStart + i * blockAlign + c * bytesPerSample,
+            format,
+            bitsPerSample,
+          );
+        }
+        channels.push(samples);
+      }
+
+      return {
+        sampleRate,
+        samples: mixDown(channels),
+        channels,
+      };
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('invalid WAV file: missing data chunk');
+}
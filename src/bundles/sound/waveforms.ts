@@ -0,0 +1,289 @@
+/**
+ * Primitive sounds, composition operators and envelopes of the sound module.
+ * Like './sounds.ts', they do not use the module context, so that the
+ * stereo_sound bundle can build its own on them.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import {
+  accumulate,
+  head,
+  is_null,
+  length,
+  pair,
+  tail,
+  type List,
+} from 'js-slang/dist/stdlib/list';
+import { adsrEnvelope } from './envelopes';
+import { get_duration, get_wave, make_sound } from './sounds';
+import type { Sound, SoundProducer, SoundTransformer } from './types';
+
+const fourier_expansion_level: number = 5; // fourier expansion level
+
+// Primitive sounds
+
+/**
+ * Makes a noise sound with given duration
+ *
+ * @param duration the duration of the noise sound
+ * @return resulting noise sound
+ * @example noise_sound(5);
+ */
+export function noise_sound(duration: number): Sound {
+  return make_sound((_t) => Math.random() * 2 - 1, duration);
+}
+
+/**
+ * Makes a silence sound with given duration
+ *
+ * @param duration the duration of the silence sound
+ * @return resulting silence sound
+ * @example silence_sound(5);
+ */
+export function silence_sound(duration: number): Sound {
+  return make_sound((_t) => 0, duration);
+}
+
+/**
+ * Makes a sine wave sound with given frequency and duration
+ *
+ * @param freq the frequency of the sine wave sound
+ * @param duration the duration of the sine wave sound
+ * @return resulting sine wave sound
+ * @example sine_sound(440, 5);
+ */
+export function sine_sound(freq: number, duration: number): Sound {
+  return make_sound((t) => Math.sin(2 * Math.PI * t * freq), duration);
+}
+
+/**
+ * Makes a square wave sound with given frequency and duration
+ *
+ * @param freq the frequency of the square wave sound
+ * @param duration the duration of the square wave sound
+ * @return resulting square wave sound
+ * @example square_sound(440, 5);
+ */
+export function square_sound(f: number, duration: number): Sound {
+  function fourier_expansion_square(t: number) {
+    let answer = 0;
+    for (let i = 1; i <= fourier_expansion_level; i += 1) {
+      answer += Math.sin(2 * Math.PI * (2 * i - 1) * f * t) / (2 * i - 1);
+    }
+    return answer;
+  }
+  return make_sound(
+    (t) => (4 / Math.PI) * fourier_expansion_square(t),
+    duration,
+  );
+}
+
+/**
+ * Makes a triangle wave sound with given frequency and duration
+ *
+ * @param freq the frequency of the triangle wave sound
+ * @param duration the duration of the triangle wave sound
+ * @return resulting triangle wave sound
+ * @example triangle_sound(440, 5);
+ */
+export function triangle_sound(freq: number, duration: number): Sound {
+  function fourier_expansion_triangle(t: number) {
+    let answer = 0;
+    for (let i = 0; i < fourier_expansion_level; i += 1) {
+      answer
+        += ((-1) ** i * Math.sin((2 * i + 1) * t * freq * Math.PI * 2))
+        / (2 * i + 1) ** 2;
+    }
+    return answer;
+  }
+  return make_sound(
+    (t) => (8 / Math.PI / Math.PI) * fourier_expansion_triangle(t),
+    duration,
+  );
+}
+
+/**
+ * Makes a sawtooth wave sound with given frequency and duration
+ *
+ * @param freq the frequency of the sawtooth wave sound
+ * @param duration the duration of the sawtooth wave sound
+ * @return resulting sawtooth wave sound
+ * @example sawtooth_sound(440, 5);
+ */
+export function sawtooth_sound(freq: number, duration: number): Sound {
+  function fourier_expansion_sawtooth(t: number) {
+    let answer = 0;
+    for (let i = 1; i <= fourier_expansion_level; i += 1) {
+      answer += Math.sin(2 * Math.PI * i * freq * t) / i;
+    }
+    return answer;
+  }
+  return make_sound(
+    (t) => 1 / 2 - (1 / Math.PI) * fourier_expansion_sawtooth(t),
+    duration,
+  );
+}
+
+// Composition Operators
+
+/**
+ * Makes a new Sound by combining the sounds in a given list
+ * where the second sound is appended to the end of the first sound,
+ * the third sound is appended to the end of the second sound, and
+ * so on. The effect is that the sounds in the list are joined end-to-end
+ *
+ * @param list_of_sounds given list of sounds
+ * @return the combined Sound
+ * @example consecutively(list(sine_sound(200, 2), sine_sound(400, 3)));
+ */
+export function consecutively(list_of_sounds: List): Sound {
+  function consec_two(ss1: Sound, ss2: Sound) {
+    const wave1 = get_wave(ss1);
+    const wave2 = get_wave(ss2);
+    const dur1 = get_duration(ss1);
+    const dur2 = get_duration(ss2);
+    const new_wave = (t: number) => (t < dur1 ? wave1(t) : wave2(t - dur1));
+    return make_sound(new_wave, dur1 + dur2);
+  }
+  return accumulate(consec_two, silence_sound(0), list_of_sounds);
+}
+
+/**
+ * Makes a new Sound by combining the sounds in a given list
+ * where all the sounds are overlapped on top of each other.
+ *
+ * @param list_of_sounds given list of sounds
+ * @return the combined Sound
+ * @example simultaneously(list(sine_sound(200, 2), sine_sound(400, 3)))
+ */
+export function simultaneously(list_of_sounds: List): Sound {
+  function simul_two(ss1: Sound, ss2: Sound) {
+    const wave1 = get_wave(ss1);
+    const wave2 = get_wave(ss2);
+    const dur1 = get_duration(ss1);
+    const dur2 = get_duration(ss2);
+    // new_wave assumes sound discipline (ie, wave(t) = 0 after t > dur)
+    const new_wave = (t: number) => wave1(t) + wave2(t);
+    // new_dur is higher of the two dur
+    const new_dur = dur1 < dur2 ? dur2 : dur1;
+    return make_sound(new_wave, new_dur);
+  }
+
+  const mushed_sounds = accumulate(simul_two, silence_sound(0), list_of_sounds);
+  const normalised_wave = (t: number) => head(mushed_sounds)(t) / length(list_of_sounds);
+  const highest_duration = tail(mushed_sounds);
+  return make_sound(normalised_wave, highest_duration);
+}
+
+/**
+ * Returns an envelope: a function from Sound to Sound.
+ * When the adsr envelope is applied to a Sound, it returns
+ * a new Sound with its amplitude modified according to parameters
+ * The relative amplitude increases from 0 to 1 linearly over the
+ * attack proportion, then decreases from 1 to sustain level over the
+ * decay proportion, and remains at that level until the release
+ * proportion when it decays back to 0.
+ * @param attack_ratio proportion of Sound in attack phase
+ * @param decay_ratio proportion of Sound decay phase
+ * @param sustain_level sustain level between 0 and 1
+ * @param release_ratio proportion of Sound in release phase
+ * @return Envelope a function from Sound to Sound
+ * @example adsr(0.2, 0.3, 0.3, 0.1)(sound);
+ */
+export function adsr(
+  attack_ratio: number,
+  decay_ratio: number,
+  sustain_level: number,
+  release_ratio: number,
+): SoundTransformer {
+  return (sound) => {
+    const wave = get_wave(sound);
+    const duration = get_duration(sound);
+    const envelope = adsrEnvelope(
+      attack_ratio,
+      decay_ratio,
+      sustain_level,
+      release_ratio,
+      duration,
+    );
+    return make_sound((x) => wave(x) * envelope(x), duration);
+  };
+}
+
+/**
+ * Returns a Sound that results from applying a list of envelopes
+ * to a given wave form. The wave form is a Sound generator that
+ * takes a frequency and a duration as arguments and produces a
+ * Sound with the given frequency and duration. Each envelope is
+ * applied to a harmonic: the first harmonic has the given frequency,
+ * the second has twice the frequency, the third three times the
+ * frequency etc. The harmonics are then layered simultaneously to
+ * produce the resulting Sound.
+ * @param waveform function from pair(frequency, duration) to Sound
+ * @param base_frequency frequency of the first harmonic
+ * @param duration duration of the produced Sound, in seconds
+ * @param envelopes – list of envelopes, which are functions from Sound to Sound
+ * @return Sound resulting Sound
+ * @example stacking_adsr(sine_sound, 300, 5, list(adsr(0.1, 0.3, 0.2, 0.5), adsr(0.2, 0.5, 0.6, 0.1), adsr(0.3, 0.1, 0.7, 0.3)));
+ */
+export function stacking_adsr(
+  waveform: SoundProducer,
+  base_frequency: number,
+  duration: number,
+  envelopes: List,
+): Sound {
+  return simultaneously(
+    enveloped_harmonics(waveform, base_frequency, duration, envelopes),
+  );
+}
+
+/**
+ * The harmonics that `stacking_adsr` layers: a list of the Sounds that the
+ * waveform makes for every multiple of the base frequency, with the
+ * envelope for that harmonic applied. The stereo_sound bundle layers them
+ * with its own `simultaneously`.
+ */
+export function enveloped_harmonics<S>(
+  waveform: (freq: number, duration: number) => S,
+  base_frequency: number,
+  duration: number,
+  envelopes: List,
+): List {
+  function zip(lst: List, n: number) {
+    if (is_null(lst)) {
+      return lst;
+    }
+    return pair(pair(n, head(lst)), zip(tail(lst), n + 1));
+  }
+
+  return accumulate(
+    (x: any, y: any) => pair(tail(x)(waveform(base_frequency * head(x), duration)), y),
+    null,
+    zip(envelopes, 1),
+  );
+}
+
+/**
+ * Returns a SoundTransformer which uses its argument
+ * to modulate the phase of a (carrier) sine wave
+ * of given frequency and duration with a given Sound.
+ * Modulating with a low frequency Sound results in a vibrato effect.
+ * Modulating with a Sound with frequencies comparable to
+ * the sine wave frequency results in more complex wave forms.
+ *
+ * @param freq the frequency of the sine wave to be modulated
+ * @param duration the duration of the output soud
+ * @param amount the amount of modulation to apply to the carrier sine wave
+ * @return function which takes in a Sound and returns a Sound
+ * @example phase_mod(440, 5, 1)(sine_sound(220, 5));
+ */
+export function phase_mod(
+  freq: number,
+  duration: number,
+  amount: number,
+): SoundTransformer {
+  return (modulator: Sound) => make_sound(
+    (t) => Math.sin(2 * Math.PI * t * freq + amount * get_wave(modulator)(t)),
+    duration,
+  );
+}
@@ -0,0 +1,165 @@
+import {
+  get_matrix,
+  get_row_notes,
+  matrix_to_sound,
+  matrix_to_string,
+  set_grid_size,
+  set_instrument,
+  set_matrix,
+  set_row_notes,
+  set_scale,
+  set_tempo,
+  string_to_matrix,
+} from '../functions';
+import { head, list, list_to_vector, pair, tail } from '../list';
+
+beforeEach(() => {
+  set_grid_size(16, 16);
+  set_scale('pentatonic', 60);
+});
+
+test('the matrix starts as 16 by 16 squares that are off', () => {
+  const rows = list_to_vector(get_matrix()).map(list_to_vector);
+  expect(rows.length).toBe(16);
+  rows.forEach((row) => {
+    expect(row).toEqual(new Array(16).fill(false));
+  });
+});
+
+test('set_grid_size changes the size of the matrix', () => {
+  set_grid_size(4, 32);
+  const rows = list_to_vector(get_matrix()).map(list_to_vector);
+  expect(rows.length).toBe(4);
+  expect(rows[0].length).toBe(32);
+  expect(list_to_vector(get_row_notes())).toEqual([60, 62, 64, 67]);
+  expect(() => set_grid_size(0, 16)).toThrow(
+    'set_grid_size is expecting a number of rows from 1 to 32, but encountered 0',
+  );
+  expect(() => set_grid_size(16, 100)).toThrow(
+    'set_grid_size is expecting a number of columns from 1 to 64, but encountered 100',
+  );
+});
+
+test('scales continue into higher octaves', () => {
+  set_grid_size(8, 16);
+  set_scale('major', 'A3');
+  expect(list_to_vector(get_row_notes())).toEqual([57, 59, 61, 62, 64, 66, 68, 69]);
+  set_scale('pentatonic', 48);
+  expect(list_to_vector(get_row_notes())).toEqual([48, 50, 52, 55, 57, 60, 62, 64]);
+  expect(() => set_scale('lydian', 60)).toThrow(
+    'set_scale is expecting one of major, minor, pentatonic, minor_pentatonic, blues, chromatic, but encountered lydian',
+  );
+});
+
+test('set_row_notes sets the note of every row from the bottom', () => {
+  set_grid_size(3, 8);
+  set_row_notes(list(36, 38, 42));
+  expect(list_to_vector(get_row_notes())).toEqual([36, 38, 42]);
+  expect(() => set_row_notes(list(36, 38))).toThrow(
+    'set_row_notes is expecting a list of 3 MIDI notes',
+  );
+  set_grid_size(2, 8);
+  expect(list_to_vector(get_row_notes())).toEqual([60, 62]);
+});
+
+test('set_tempo and set_instrument check their arguments', () => {
+  expect(() => set_tempo(0)).toThrow(
+    'set_tempo is expecting a positive number of beats per minute up to 1000, but encountered 0',
+  );
+  expect(() => set_instrument(42 as any)).toThrow(
+    'set_instrument is expecting a function from MIDI note and duration to Sound, but encountered 42',
+  );
+});
+
+describe('sharing patterns', () => {
+  const diagonal = list(
+    list(false, false, false, true),
+    list(false, false, true, false),
+    list(false, true, false, false),
+    list(true, false, false, false),
+  );
+
+  test('matrix_to_string and string_to_matrix are inverses', () => {
+    expect(matrix_to_string(diagonal)).toBe('4x4:hCE');
+    expect(string_to_matrix('4x4:hCE')).toEqual(diagonal);
+
+    set_grid_size(16, 16);
+    const rows = list_to_vector(get_matrix()).map(list_to_vector);
+    rows[3][5] = true;
+    rows[15][0] = true;
+    const pattern = matrix_to_string(list(...rows.map((row) => list(...row))));
+    expect(pattern).toHaveLength(49);
+    expect(list_to_vector(string_to_matrix(pattern)).map(list_to_vector)).toEqual(rows);
+  });
+
+  test('set_matrix sets the squares and size of the matrix', () => {
+    set_matrix(diagonal);
+    expect(get_matrix()).toEqual(diagonal);
+    expect(list_to_vector(get_row_notes())).toEqual([60, 62, 64, 67]);
+  });
+
+  test('rejects matrices and strings that are not patterns', () => {
+    expect(() => set_matrix(list(list(true, false), list(true)))).toThrow(
+      'set_matrix is expecting a list of 1 to 32 rows, each a list of 1 to 64 booleans of the same length',
+    );
+    expect(() => matrix_to_string(list(list(1, 0)))).toThrow(
+      'matrix_to_string is expecting a list of 1 to 32 rows',
+    );
+    expect(() => string_to_matrix('4x4:hC')).toThrow(
+      'string_to_matrix is expecting a string made by matrix_to_string, but encountered 4x4:hC',
+    );
+    expect(() => string_to_matrix('hello')).toThrow('string_to_matrix is expecting');
+  });
+});
+
+describe('matrix_to_sound', () => {
+  // an instrument whose wave is its note, so that notes can be told apart
+  const constant_instrument = (note: number, duration: number) => pair(
+    (t: number) => (t >= 0 && t < duration ? note : 0),
+    duration,
+  );
+
+  test('plays the columns one after another', () => {
+    set_grid_size(3, 4);
+    set_row_notes(list(10, 20, 30));
+    const matrix = list(
+      list(false, true, false, false),
+      list(false, false, false, true),
+      list(false, true, false, false),
+    );
+    const sound = matrix_to_sound(matrix, constant_instrument, 0.5);
+    const wave = head(sound);
+    expect(tail(sound)).toBe(2);
+
+    expect(wave(0.25)).toBe(0);
+    // the bottom and top rows share the volume of the second column
+    expect(wave(0.75)).toBe(20);
+    // and ring out for another column
+    expect(wave(1.25)).toBe(20);
+    expect(wave(1.75)).toBe(20);
+    expect(wave(2)).toBe(0);
+  });
+
+  test('uses the notes of the scale for a matrix of another size', () => {
+    set_grid_size(16, 16);
+    const notes: number[] = [];
+    const recording_instrument = (note: number, duration: number) => {
+      notes.push(note);
+      return constant_instrument(note, duration);
+    };
+    matrix_to_sound(list(list(true), list(true)), recording_instrument, 0.1);
+    expect(notes.sort()).toEqual([60, 62]);
+  });
+
+  test('checks its arguments', () => {
+    expect(() => matrix_to_sound(get_matrix(), 'piano' as any, 0.5)).toThrow(
+      'matrix_to_sound is expecting a function from MIDI note and duration to Sound, but encountered piano',
+    );
+    expect(() => matrix_to_sound(get_matrix(), constant_instrument, 0)).toThrow(
+      'matrix_to_sound is expecting a positive step duration, but encountered 0',
+    );
+    expect(() => matrix_to_sound(list(list(true)), (_note, _duration) => 42 as any, 0.5)).toThrow(
+      'matrix_to_sound is expecting the instrument to return a Sound, but encountered 42',
+    );
+  });
+});
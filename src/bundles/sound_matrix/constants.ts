@@ -0,0 +1,6 @@
+// Number of columns over which every note of the tone matrix rings out
+export const NOTE_COLUMNS: number = 2;
+
+// Largest grid that still fits the tab
+export const MAX_ROWS: number = 32;
+export const MAX_COLUMNS: number = 64;
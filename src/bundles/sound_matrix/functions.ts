@@ -9,367 +9,356 @@
   v2 (2016/2017) Xiao Pu - September 2016 - fit source academy IDE
 */
 
-/* eslint-disable @typescript-eslint/no-unused-vars */
-import type { List } from './types';
-import { list_to_vector, vector_to_list } from './list';
-
-export const ToneMatrix = {
-  initialise_matrix,
-  clear_matrix,
-  randomise_matrix,
-  bindMatrixButtons,
-};
-
-let $tone_matrix: HTMLCanvasElement; // canvas container for tone matrix
-
-const color_white: string = '#ffffff'; // color of the highlighted square
-const color_white_2: string = '#666666'; // color of the adjacent squares
-const color_white_3: string = '#444444'; // color of the squares that are two units from the highlighted square
-const color_on: string = '#cccccc';
-const color_off: string = '#333333';
-
-// the side length of the squares in the matrix
-const square_side_length: number = 18;
-
-// the distance between two adjacent squares in the matrix
-const distance_between_squares: number = 6;
-
-// margin of the canvas
-const margin_length: number = 20;
-
-// the duration for playing one grid is 0.5s
-const grid_duration: number = 0.5;
-// but the duration for playing one entire sound is 1 (which means there will be reverberations)
-const sound_duration: number = 1;
-
-let matrix: boolean[][];
-let timeout_objects: number[] = []; // set_timeout_renamed return type
-
-// given the x, y coordinates of a "click" event
-// return the row and column numbers of the clicked square in an array
-function x_y_to_row_column(x: number, y: number): number[] {
-  const row = Math.floor(
-    (y - margin_length) / (square_side_length + distance_between_squares),
+/* eslint-disable @typescript-eslint/naming-convention */
+import context from 'js-slang/context';
+import { letter_name_to_midi_note, midi_note_to_frequency } from '../sound/notes';
+import { is_sound } from '../sound/sounds';
+import { MAX_COLUMNS, MAX_ROWS, NOTE_COLUMNS } from './constants';
+import {
+  decode_pattern,
+  empty_matrix,
+  encode_pattern,
+  scale_notes,
+  scales,
+  set_grid,
+} from './grid';
+import { head, is_list, list_to_vector, pair, vector_to_list } from './list';
+import type { Instrument, List, Sound, ToneMatrixState } from './types';
+
+// a sine wave that fades out, used until another instrument is set
+function default_instrument(note: number, duration: number) {
+  const frequency = midi_note_to_frequency(note);
+  return pair(
+    (t: number) => (t >= duration
+      ? 0
+      : Math.sin(2 * Math.PI * frequency * t) * Math.exp(-4 * t)),
+    duration,
   );
-  const column = Math.floor(
-    (x - margin_length) / (square_side_length + distance_between_squares),
-  );
-  return [row, column];
 }
 
-// given the row number of a square, return the leftmost coordinate
-function row_to_y(row: number): number {
-  return margin_length + row * (square_side_length + distance_between_squares);
-}
+const state: ToneMatrixState = {
+  matrix: empty_matrix(16, 16),
+  bpm: 120,
+  scale: 'pentatonic',
+  root: 60,
+  notes: scale_notes('pentatonic', 60, 16),
+  instrument: default_instrument,
+};
+context.moduleContexts.sound_matrix.state = state;
 
-// given the column number of a square, return the topmost coordinate
-function column_to_x(column: number): number {
-  return (
-    margin_length + column * (square_side_length + distance_between_squares)
-  );
-}
+let timeout_objects: number[] = []; // set_timeout_renamed return type
 
-// return a list representing a particular row
-function get_row(row: number): List {
-  return vector_to_list(matrix[row]);
+// generate a randomised matrix
+function randomise_matrix(): void {
+  state.matrix = state.matrix.map((row) => row.map(() => Math.random() > 0.9));
 }
 
-// return a list representing a particular column
-function get_column(column: number): List {
-  const result = new Array(16);
-  for (let i = 15; i >= 0; i--) {
-    result[i] = matrix[i][column];
+// return a grid as a list of lists of booleans, from the bottom row to the top row
+function grid_to_list(matrix: boolean[][]): List {
+  const result: List[] = [];
+  for (let i = matrix.length - 1; i >= 0; i--) {
+    result.push(vector_to_list(matrix[i].slice(0)));
   }
   return vector_to_list(result);
 }
 
-function is_on(row: number, column: number): boolean | undefined {
-  if (row < 0 || row > 15 || column < 0 || column > 15) {
-    return undefined;
-  }
-  return matrix[row][column];
-}
-
-// set the color of a particular square
-function set_color(row: number, column: number, color: string): void {
-  if (row < 0 || row > 15 || column < 0 || column > 15) {
-    return;
-  }
-
-  const ctx = $tone_matrix.getContext('2d') as CanvasRenderingContext2D;
-  ctx.fillStyle = color;
-
-  ctx.fillRect(
-    column_to_x(column),
-    row_to_y(row),
-    square_side_length,
-    square_side_length,
+// return the grid of a list of lists of booleans such as the result of get_matrix,
+// or throw an error for the given function if it is not one
+function list_to_grid(func_name: string, matrix: List): boolean[][] {
+  const error = new Error(
+    `${func_name} is expecting a list of 1 to ${MAX_ROWS} rows, each a list of 1 to ${MAX_COLUMNS} booleans of the same length`,
   );
-}
-
-// highlight a given square
-function highlight_color(row: number, column: number, color: string): void {
-  set_color(row, column, color);
-}
-
-// given the square that we are supposed to highlight, color the neighboring squares
-function set_adjacent_color_1(
-  row: number,
-  column: number,
-  color: string,
-): void {
-  if (!is_on(row, column - 1)) {
-    set_color(row, column - 1, color);
-  }
-
-  if (!is_on(row, column + 1)) {
-    set_color(row, column + 1, color);
+  if (!is_list(matrix)) {
+    throw error;
   }
-
-  if (!is_on(row - 1, column)) {
-    set_color(row - 1, column, color);
-  }
-
-  if (!is_on(row + 1, column)) {
-    set_color(row + 1, column, color);
+  const rows: boolean[][] = list_to_vector(matrix)
+    .map((row) => {
+      if (!is_list(row)) {
+        throw error;
+      }
+      return list_to_vector(row);
+    });
+  if (
+    rows.length < 1
+    || rows.length > MAX_ROWS
+    || rows[0].length < 1
+    || rows[0].length > MAX_COLUMNS
+    || rows.some((row) => row.length !== rows[0].length
+      || row.some((square) => typeof square !== 'boolean'))
+  ) {
+    throw error;
   }
+  return rows.reverse();
 }
 
-// given the square that we are supposed to highlight, color the squares 2 units from it
-function set_adjacent_color_2(
-  row: number,
-  column: number,
-  color: string,
-): void {
-  if (!is_on(row, column - 2)) {
-    set_color(row, column - 2, color);
-  }
-
-  if (!is_on(row + 1, column - 1)) {
-    set_color(row + 1, column - 1, color);
-  }
-
-  if (!is_on(row + 2, column)) {
-    set_color(row + 2, column, color);
-  }
-
-  if (!is_on(row + 1, column + 1)) {
-    set_color(row + 1, column + 1, color);
-  }
-
-  if (!is_on(row, column + 2)) {
-    set_color(row, column + 2, color);
-  }
-
-  if (!is_on(row - 1, column + 1)) {
-    set_color(row - 1, column + 1, color);
-  }
-
-  if (!is_on(row - 2, column)) {
-    set_color(row - 2, column, color);
-  }
+// ********** THE FOLLOWING FUNCTIONS ARE EXPOSED TO STUDENTS **********
 
-  if (!is_on(row - 1, column - 1)) {
-    set_color(row - 1, column - 1, color);
-  }
+/**
+ * Returns the current state of the tone matrix as a list of rows, from the
+ * bottom row to the top row. Each row is a list of booleans, from the
+ * leftmost column to the rightmost column, where true means that the
+ * square is on.
+ *
+ * @return list of lists of booleans
+ * @example get_matrix();
+ */
+export function get_matrix(): List {
+  return grid_to_list(state.matrix);
 }
 
-// redraw a matrix according to the current state of the matrix
-function redraw_matrix(): void {
-  for (let i = 15; i >= 0; i--) {
-    for (let j = 15; j >= 0; j--) {
-      if (matrix[i][j]) {
-        set_color(i, j, color_on);
-      } else {
-        set_color(i, j, color_off);
-      }
-    }
-  }
+/**
+ * Sets the squares of the tone matrix, given as a list of rows in the same
+ * way as `get_matrix` returns them: from the bottom row to the top row, each
+ * a list of booleans from the leftmost column to the rightmost column.
+ * The tone matrix takes the size of the given matrix.
+ *
+ * @param matrix list of lists of booleans
+ * @example set_matrix(string_to_matrix("4x4:hCE")); // A diagonal line
+ */
+export function set_matrix(matrix: List): void {
+  set_grid(state, list_to_grid('set_matrix', matrix));
 }
 
-function initialise_matrix($container: HTMLElement): void {
-  if (!$tone_matrix) {
-    $tone_matrix = document.createElement('canvas');
-    $tone_matrix.width = 420;
-    $tone_matrix.height = 420;
-    // the array representing the configuration of the matrix
-    matrix = new Array(16);
-
-    // the visualisation of the matrix itself
-    const ctx = $tone_matrix.getContext('2d') as CanvasRenderingContext2D;
-
-    // draw the initial matrix
-    for (let i = 15; i >= 0; i--) {
-      matrix[i] = new Array(16);
-      for (let j = 15; j >= 0; j--) {
-        set_color(i, j, color_off);
-        matrix[i][j] = false;
-      }
-    }
+/**
+ * Returns a short string that describes the given matrix, such as the result
+ * of `get_matrix`. The string can be shared with others, who can turn it back
+ * into the matrix with `string_to_matrix`.
+ *
+ * @param matrix list of lists of booleans
+ * @return string describing the matrix
+ * @example matrix_to_string(get_matrix());
+ */
+export function matrix_to_string(matrix: List): string {
+  return encode_pattern(list_to_grid('matrix_to_string', matrix));
+}
 
-    bind_events_to_rect($tone_matrix);
+/**
+ * Returns the matrix described by a string made by `matrix_to_string`, or
+ * copied with the "Copy pattern" button of the Sound Matrix tab. The string
+ * starts with the number of rows and columns of the matrix.
+ *
+ * @param pattern string describing a matrix
+ * @return list of lists of booleans, from the bottom row to the top row
+ * @example string_to_matrix("4x4:hCE"); // A diagonal line
+ */
+export function string_to_matrix(pattern: string): List {
+  const matrix = typeof pattern === 'string' ? decode_pattern(pattern) : null;
+  if (matrix === null) {
+    throw new Error(
+      `string_to_matrix is expecting a string made by matrix_to_string, but encountered ${pattern}`,
+    );
   }
-  $tone_matrix.hidden = false;
-  $container.appendChild($tone_matrix);
+  return grid_to_list(matrix);
 }
 
-ToneMatrix.initialise_matrix = initialise_matrix;
-
-// bind the click events to the matrix
-function bind_events_to_rect(c) {
-  c.addEventListener(
-    'click',
-    (event) => {
-      // calculate the x, y coordinates of the click event
-      const rect = c.getBoundingClientRect();
-      const offset_top = rect.top + document.documentElement.scrollTop;
-      const offset_left = rect.left + document.documentElement.scrollLeft;
-      const x = event.pageX - offset_left;
-      const y = event.pageY - offset_top;
-
-      // obtain the row and column numbers of the square clicked
-      const row_column = x_y_to_row_column(x, y);
-      const row = row_column[0];
-      const column = row_column[1];
-
-      if (row < 0 || row > 15 || column < 0 || column > 15) {
-        return;
-      }
-
-      if (matrix[row][column] === undefined || !matrix[row][column]) {
-        matrix[row][column] = true;
-        set_color(row, column, color_on);
-      } else {
-        matrix[row][column] = false;
-        set_color(row, column, color_off);
-      }
-    },
-    false,
-  );
+/**
+ * Turns off all squares of the tone matrix.
+ *
+ * @example clear_matrix();
+ */
+export function clear_matrix(): void {
+  state.matrix = empty_matrix(state.matrix.length, state.matrix[0].length);
 }
 
-function random_animate(): void {
-  for (let i = 5; i >= 0; i--) {
-    const row = Math.floor(Math.random() * 16);
-    const column = Math.floor(Math.random() * 16);
-    if (!is_on(row, column)) {
-      set_color(row, column, color_white_3);
-    }
+/**
+ * Sets the number of rows and columns of the tone matrix, and turns off all
+ * of its squares. The rows play the notes of the current scale, see
+ * `set_scale`. The default size is 16 by 16.
+ *
+ * @param rows number of rows, from 1 to 32
+ * @param columns number of columns, from 1 to 64
+ * @example set_grid_size(8, 32);
+ */
+export function set_grid_size(rows: number, columns: number): void {
+  if (!Number.isInteger(rows) || rows < 1 || rows > MAX_ROWS) {
+    throw new Error(
+      `set_grid_size is expecting a number of rows from 1 to ${MAX_ROWS}, but encountered ${rows}`,
+    );
   }
-
-  for (let j = 10; j >= 0; j--) {
-    const row = Math.floor(Math.random() * 16);
-    const column = Math.floor(Math.random() * 16);
-    if (!is_on(row, column)) {
-      set_color(row, column, color_off);
-    }
+  if (!Number.isInteger(columns) || columns < 1 || columns > MAX_COLUMNS) {
+    throw new Error(
+      `set_grid_size is expecting a number of columns from 1 to ${MAX_COLUMNS}, but encountered ${columns}`,
+    );
   }
+  state.matrix = empty_matrix(rows, columns);
+  state.notes = scale_notes(state.scale, state.root, rows);
 }
 
-function animate_column(n: number): void {
-  if (n < 0 || n > 15) {
-    return;
-  }
-
-  const column = list_to_vector(get_column(n));
-
-  for (let j = 0; j <= 15; j++) {
-    if (column[j]) {
-      // if a particular square is clicked, highlight itself
-      // and the neighboring squares in the animation
-      highlight_color(j, n, color_white);
-      set_adjacent_color_1(j, n, color_white_2);
-      set_adjacent_color_2(j, n, color_white_3);
-    }
+/**
+ * Sets the tempo at which the tone matrix plays, in beats per minute.
+ * Each column lasts one beat. The default tempo is 120 beats per minute,
+ * so that each column lasts half a second.
+ *
+ * @param bpm beats per minute, a positive number up to 1000
+ * @example set_tempo(90);
+ */
+export function set_tempo(bpm: number): void {
+  if (typeof bpm !== 'number' || !(bpm > 0 && bpm <= 1000)) {
+    throw new Error(
+      `set_tempo is expecting a positive number of beats per minute up to 1000, but encountered ${bpm}`,
+    );
   }
+  state.bpm = bpm;
 }
 
-function unanimate_column(n: number): void {
-  if (n < 0 || n > 15) {
-    return;
+/**
+ * Sets the notes played by the rows of the tone matrix to consecutive notes
+ * of a scale, starting from the root note at the bottom row and going up
+ * by octaves if there are more rows than notes in the scale.
+ * The scale is one of "major", "minor", "pentatonic", "minor_pentatonic",
+ * "blues" and "chromatic". The default is the pentatonic scale from C4.
+ *
+ * @param name name of the scale
+ * @param root MIDI note or letter name of the bottom row, such as 57 or "A3"
+ * @example set_scale("minor", "A3");
+ */
+export function set_scale(name: string, root: number | string): void {
+  const names = Object.keys(scales);
+  if (!names.includes(name)) {
+    throw new Error(
+      `set_scale is expecting one of ${names.join(', ')}, but encountered ${name}`,
+    );
   }
-
-  const column = list_to_vector(get_column(n));
-
-  for (let j = 0; j <= 15; j++) {
-    if (column[j]) {
-      highlight_color(j, n, color_on);
-      set_adjacent_color_1(j, n, color_off);
-      set_adjacent_color_2(j, n, color_off);
-    }
+  const note = typeof root === 'string' ? letter_name_to_midi_note(root) : root;
+  if (!Number.isInteger(note)) {
+    throw new Error(
+      `set_scale is expecting a MIDI note or letter name, but encountered ${root}`,
+    );
   }
+  state.scale = name;
+  state.root = note;
+  state.notes = scale_notes(name, note, state.matrix.length);
 }
 
-// generate a randomised matrix
-function randomise_matrix(): void {
-  const ctx = $tone_matrix.getContext('2d');
-  let on: boolean; // the square in the matrix is on or off
-
-  clear_matrix();
-  // draw the randomised matrix
-  for (let i = 15; i >= 0; i--) {
-    for (let j = 15; j >= 0; j--) {
-      on = Math.random() > 0.9;
-      if (on) {
-        set_color(i, j, color_on);
-        matrix[i][j] = true;
-      } else {
-        set_color(i, j, color_off);
-        matrix[i][j] = false;
-      }
-    }
+/**
+ * Sets the MIDI notes played by the rows of the tone matrix, for any notes
+ * that do not fit a scale. The notes are given from the bottom row to the
+ * top row, one for every row. Changing the size of the grid goes back to
+ * the notes of the scale, see `set_scale`.
+ *
+ * @param notes list of MIDI notes, one for every row
+ * @example set_row_notes(list(36, 38, 42, 46, 60, 62, 64, 67));
+ */
+export function set_row_notes(notes: List): void {
+  const vector: any[] = list_to_vector(notes);
+  if (vector.length !== state.matrix.length || !vector.every(Number.isInteger)) {
+    throw new Error(
+      `set_row_notes is expecting a list of ${state.matrix.length} MIDI notes, but encountered ${notes}`,
+    );
   }
+  state.notes = vector.reverse();
 }
 
-ToneMatrix.randomise_matrix = randomise_matrix;
+/**
+ * Returns the MIDI notes played by the rows of the tone matrix, from the
+ * bottom row to the top row.
+ *
+ * @return list of MIDI notes
+ * @example get_row_notes();
+ */
+export function get_row_notes(): List {
+  return vector_to_list([...state.notes].reverse());
+}
 
-function bindMatrixButtons() {
-  const clear = document.getElementById('clear-matrix');
-  if (clear) {
-    clear.addEventListener('click', () => {
-      clear_matrix();
-      const play = document.getElementById('play-matrix');
-      if (play) {
-        play.setAttribute('value', 'Play');
-      }
-    });
+/**
+ * Sets the instrument with which the tone matrix plays its notes.
+ * An instrument is a function from a MIDI note and a duration in seconds
+ * to a Sound, such as `piano` or `plucked_string` from the sound module.
+ * Every note is given two columns to ring out.
+ *
+ * @param instrument function from MIDI note and duration to Sound
+ * @example set_instrument(piano);
+ */
+export function set_instrument(instrument: Instrument): void {
+  if (typeof instrument !== 'function') {
+    throw new Error(
+      `set_instrument is expecting a function from MIDI note and duration to Sound, but encountered ${instrument}`,
+    );
   }
+  state.instrument = instrument;
 }
-ToneMatrix.bindMatrixButtons = bindMatrixButtons;
 
-// ********** THE FOLLOWING FUNCTIONS ARE EXPOSED TO STUDENTS **********
-// return the current state of the matrix, represented by a list of lists of bits
-export function get_matrix(): List {
-  if (!matrix) {
+/**
+ * Returns a Sound of the given matrix, such as the result of `get_matrix`,
+ * played once with the given instrument. The columns are played one after
+ * another from left to right, each lasting the step duration, and the rows
+ * play the notes set with `set_scale` or `set_row_notes`. Like in the
+ * Sound Matrix tab, every note rings out for two columns and the notes of
+ * a column share the volume. The Sound lasts as long as all columns, so
+ * notes in the last column are cut off.
+ *
+ * @param matrix list of lists of booleans, from the bottom row to the top row
+ * @param instrument function from MIDI note and duration to Sound
+ * @param step_duration duration of each column in seconds
+ * @return Sound of the matrix
+ * @example play(matrix_to_sound(get_matrix(), piano, 0.25));
+ */
+export function matrix_to_sound(
+  matrix: List,
+  instrument: Instrument,
+  step_duration: number,
+): Sound {
+  const grid = list_to_grid('matrix_to_sound', matrix);
+  if (typeof instrument !== 'function') {
     throw new Error(
-      'Please activate the tone matrix first by clicking on the tab!',
+      `matrix_to_sound is expecting a function from MIDI note and duration to Sound, but encountered ${instrument}`,
     );
   }
-  const matrix_list = matrix.slice(0);
-  const result: List[] = [];
-  for (let i = 0; i <= 15; i++) {
-    result[i] = vector_to_list(matrix_list[15 - i]);
+  if (typeof step_duration !== 'number' || !(step_duration > 0)) {
+    throw new Error(
+      `matrix_to_sound is expecting a positive step duration, but encountered ${step_duration}`,
+    );
   }
 
-  return vector_to_list(result);
-}
-
-// reset the matrix to the initial state
-export function clear_matrix() {
-  matrix = new Array(16);
-  const ctx = $tone_matrix.getContext('2d');
-
-  // draw the initial matrix
-  for (let i = 15; i >= 0; i--) {
-    matrix[i] = new Array(16);
-    for (let j = 15; j >= 0; j--) {
-      set_color(i, j, color_off);
-      matrix[i][j] = false;
+  const rows = grid.length;
+  const columns = grid[0].length;
+  const notes = rows === state.notes.length
+    ? state.notes
+    : scale_notes(state.scale, state.root, rows);
+
+  // the wave of the note of each row, made once for all columns
+  const note_duration = NOTE_COLUMNS * step_duration;
+  const note_waves = new Map<number, (t: number) => number>();
+  const row_waves = notes.map((note) => {
+    if (!note_waves.has(note)) {
+      const sound = instrument(note, note_duration);
+      if (!is_sound(sound)) {
+        throw new Error(
+          `matrix_to_sound is expecting the instrument to return a Sound, but encountered ${sound}`,
+        );
+      }
+      note_waves.set(note, head(sound));
     }
-  }
+    return note_waves.get(note)!;
+  });
+
+  // the rows that are on in each column, and the volume they share
+  const column_rows = Array.from({ length: columns }, (_, j) => grid
+    .map((row, i) => (row[j] ? i : -1))
+    .filter((i) => i >= 0));
+
+  const duration = columns * step_duration;
+  return pair((t: number) => {
+    if (t < 0 || t >= duration) {
+      return 0;
+    }
+    const current = Math.floor(t / step_duration);
+    let sum = 0;
+    for (let j = Math.max(0, current - NOTE_COLUMNS + 1); j <= current; j++) {
+      const start = j * step_duration;
+      const on = column_rows[j];
+      for (let k = 0; k < on.length; k++) {
+        sum += row_waves[on[k]](t - start) / on.length;
+      }
+    }
+    return sum;
+  }, duration);
 }
 
-ToneMatrix.clear_matrix = clear_matrix;
+export const ToneMatrix = {
+  clear_matrix,
+  randomise_matrix,
+};
 
 const set_time_out_renamed = window.setTimeout;
 
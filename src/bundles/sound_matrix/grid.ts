@@ -0,0 +1,98 @@
+/**
+ * The grid of the tone matrix, shared by the sound_matrix bundle and the
+ * SoundMatrix tab. Grids are arrays of rows from the top row to the bottom
+ * row, unlike the lists of the bundle functions, which start at the bottom.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import type { ToneMatrixState } from './types';
+
+// the number of semitones from the root note to each note of a scale,
+// within one octave
+export const scales: Record<string, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  pentatonic: [0, 2, 4, 7, 9],
+  minor_pentatonic: [0, 3, 5, 7, 10],
+  blues: [0, 3, 5, 6, 7, 10],
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+// characters of a pattern, each of which stands for six squares
+const pattern_digits = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const squares_per_digit = 6;
+
+// the notes of the given number of rows, from the top row to the bottom row
+export function scale_notes(name: string, root: number, rows: number): number[] {
+  const steps = scales[name];
+  const notes: number[] = [];
+  for (let i = 0; i < rows; i++) {
+    const octave = Math.floor(i / steps.length);
+    notes.unshift(root + 12 * octave + steps[i % steps.length]);
+  }
+  return notes;
+}
+
+export function empty_matrix(rows: number, columns: number): boolean[][] {
+  return Array.from({ length: rows }, () => Array.from({ length: columns }, () => false));
+}
+
+// replaces the grid of the state, and when the number of rows changes,
+// goes back to the notes of the scale
+export function set_grid(state: ToneMatrixState, matrix: boolean[][]): void {
+  if (matrix.length !== state.matrix.length) {
+    state.notes = scale_notes(state.scale, state.root, matrix.length);
+  }
+  state.matrix = matrix;
+}
+
+/**
+ * Encodes the grid as its size followed by its squares, row by row, where
+ * each character stands for six squares. A 16 by 16 grid takes 49 characters.
+ */
+export function encode_pattern(matrix: boolean[][]): string {
+  const squares = matrix.flat();
+  let digits = '';
+  for (let i = 0; i < squares.length; i += squares_per_digit) {
+    let value = 0;
+    for (let j = i; j < i + squares_per_digit; j++) {
+      value = value * 2 + (squares[j] ? 1 : 0);
+    }
+    digits += pattern_digits[value];
+  }
+  return `${matrix.length}x${matrix[0].length}:${digits}`;
+}
+
+/**
+ * Decodes a pattern made by encode_pattern, or returns null if the string
+ * is not such a pattern.
+ */
+export function decode_pattern(pattern: string): boolean[][] | null {
+  const match = /^(?<rows>\d+)x(?<columns>\d+):(?<digits>[\w-]*)$/u.exec(pattern.trim());
+  if (!match || !match.groups) {
+    return null;
+  }
+  const rows = Number(match.groups.rows);
+  const columns = Number(match.groups.columns);
+  const { digits } = match.groups;
+  if (
+    rows < 1
+    || columns < 1
+    || digits.length !== Math.ceil((rows * columns) / squares_per_digit)
+  ) {
+    return null;
+  }
+
+  const matrix = empty_matrix(rows, columns);
+  for (let d = 0; d < digits.length; d++) {
+    const value = pattern_digits.indexOf(digits[d]);
+    for (let j = 0; j < squares_per_digit; j++) {
+      const square = d * squares_per_digit + j;
+      if (square < rows * columns) {
+        const bit = Math.floor(value / 2 ** (squares_per_digit - 1 - j)) % 2;
+        matrix[Math.floor(square / columns)][square % columns] = bit === 1;
+      }
+    }
+  }
+  return matrix;
+}
@@ -9,7 +9,20 @@ export {
   // Constructor/Accessors/Typecheck
   ToneMatrix,
   get_matrix,
+  set_matrix,
   clear_matrix,
+  // Sharing patterns
+  matrix_to_string,
+  string_to_matrix,
+  // Grid, tempo, scale and instrument
+  set_grid_size,
+  set_tempo,
+  set_scale,
+  set_row_notes,
+  get_row_notes,
+  set_instrument,
+  // Playing the matrix
+  matrix_to_sound,
   set_timeout,
   clear_all_timeout,
 } from './functions';
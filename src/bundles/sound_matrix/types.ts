@@ -2,3 +2,21 @@ export type Pair<H, T> = [H, T];
 export type EmptyList = null;
 export type NonEmptyList = Pair<any, any>;
 export type List = EmptyList | NonEmptyList;
+
+export type Sound = Pair<(t: number) => number, number>;
+// Function from a MIDI note and a duration in seconds to a Sound
+export type Instrument = (note: number, duration: number) => Sound;
+
+export type ToneMatrixState = {
+  // matrix[row][column] is true if the square is on, with row 0 at the top
+  matrix: boolean[][];
+  // Beats per minute, where each column lasts one beat
+  bpm: number;
+  // Scale from which the notes are computed whenever the number of rows
+  // changes, and the MIDI note of its bottom row
+  scale: string;
+  root: number;
+  // MIDI note of each row, from the top row to the bottom row
+  notes: number[];
+  instrument: Instrument;
+};
@@ -0,0 +1,67 @@
+import { list } from 'js-slang/dist/stdlib/list';
+import * as mono_instruments from '../../sound/instruments';
+import { get_wave, set_sample_rate } from '../../sound/sounds';
+import { echo, low_pass_filter } from '../effects';
+import {
+  adsr,
+  consecutively,
+  get_duration,
+  get_left_wave,
+  get_right_wave,
+  make_stereo_sound,
+  simultaneously,
+  sine_sound,
+  stacking_adsr,
+} from '../functions';
+import { drawbar_organ, piano } from '../instruments';
+
+set_sample_rate(8000);
+
+const left_only = make_stereo_sound((_t) => 1, (_t) => 0, 1);
+const right_only = make_stereo_sound((_t) => 0, (_t) => 1, 2);
+
+describe('composition keeps the channels apart', () => {
+  test('consecutively', () => {
+    const sound = consecutively(list(left_only, right_only));
+    expect(get_duration(sound)).toBe(3);
+    expect([get_left_wave(sound)(0.5), get_right_wave(sound)(0.5)]).toEqual([1, 0]);
+    expect([get_left_wave(sound)(1.5), get_right_wave(sound)(1.5)]).toEqual([0, 1]);
+  });
+
+  test('simultaneously', () => {
+    const sound = simultaneously(list(left_only, right_only));
+    expect(get_duration(sound)).toBe(2);
+    expect([get_left_wave(sound)(0.5), get_right_wave(sound)(0.5)]).toEqual([0.5, 0.5]);
+    expect([get_left_wave(sound)(1.5), get_right_wave(sound)(1.5)]).toEqual([0, 0.5]);
+  });
+
+  test('adsr', () => {
+    const sound = adsr(0.5, 0, 1, 0)(left_only);
+    expect(get_left_wave(sound)(0.25)).toBeCloseTo(0.5);
+    expect(get_right_wave(sound)(0.25)).toBe(0);
+  });
+
+  test('stacking_adsr', () => {
+    const sound = stacking_adsr(sine_sound, 100, 1, list(adsr(0, 0, 1, 0)));
+    expect(get_left_wave(sound)(0.0025)).toBeCloseTo(1);
+    expect(get_right_wave(sound)(0.0025)).toBeCloseTo(1);
+  });
+});
+
+describe('instruments and effects of the sound bundle', () => {
+  test('instruments play on both channels', () => {
+    const expected = get_wave(mono_instruments.piano(60, 1));
+    const sound = piano(60, 1);
+    expect(get_left_wave(sound)(0.1)).toBe(expected(0.1));
+    expect(get_right_wave(sound)(0.1)).toBe(expected(0.1));
+    expect(get_duration(drawbar_organ(list(8))(60, 0.5))).toBe(0.5);
+  });
+
+  test('effects are applied to each channel', () => {
+    // The input and two echoes at t = 0.5
+    const sound = echo(0.25, 0.5, 1)(left_only);
+    expect(get_left_wave(sound)(0.5)).toBeCloseTo(1 + 1 + 0.5);
+    expect(get_right_wave(sound)(0.5)).toBe(0);
+    expect(get_duration(low_pass_filter(800, 0.707)(right_only))).toBe(2);
+  });
+});
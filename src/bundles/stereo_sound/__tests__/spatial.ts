@@ -0,0 +1,153 @@
+import { set_sample_rate } from '../../sound/sounds';
+import {
+  get_left_wave,
+  get_right_wave,
+  make_sound,
+  make_stereo_sound,
+  noise_sound,
+} from '../functions';
+import {
+  binaural,
+  equal_power_pan,
+  itd_pan,
+  ping_pong_delay,
+  stereo_width,
+} from '../spatial';
+import type { Sound } from '../types';
+
+const FS = 8000;
+set_sample_rate(FS);
+
+const constant = make_sound((_t) => 1, 1);
+
+function rms(wave: (t: number) => number, from: number, to: number): number {
+  let sum = 0;
+  let count = 0;
+  for (let t = from; t < to; t += 1 / FS) {
+    sum += wave(t) ** 2;
+    count += 1;
+  }
+  return Math.sqrt(sum / count);
+}
+
+describe('equal_power_pan', () => {
+  test('keeps the total power the same at every position', () => {
+    [-1, -0.3, 0, 0.5, 1].forEach((amount) => {
+      const panned = equal_power_pan(amount)(constant);
+      expect(get_left_wave(panned)(0.5) ** 2 + get_right_wave(panned)(0.5) ** 2)
+        .toBeCloseTo(1);
+    });
+  });
+
+  test('centres and pans hard to either side', () => {
+    expect(get_left_wave(equal_power_pan(0)(constant))(0.5))
+      .toBeCloseTo(Math.SQRT1_2);
+    expect(get_left_wave(equal_power_pan(1)(constant))(0.5))
+      .toBeCloseTo(0);
+    expect(get_right_wave(equal_power_pan(-1)(constant))(0.5))
+      .toBeCloseTo(0);
+  });
+
+  test('rejects amounts outside of -1 to 1', () => {
+    expect(() => equal_power_pan(2))
+      .toThrow('equal_power_pan is expecting amount to be a number from -1 to 1');
+  });
+});
+
+describe('itd_pan', () => {
+  test('delays the ear that faces away', () => {
+    const step = make_sound((t) => (t >= 0.1 ? 1 : 0), 1);
+    const panned = itd_pan(1)(step);
+    expect(get_right_wave(panned)(0.1))
+      .toBe(1);
+    expect(get_left_wave(panned)(0.1003))
+      .toBe(0);
+    expect(get_left_wave(panned)(0.1007))
+      .toBe(1);
+  });
+
+  test('keeps both ears equally loud', () => {
+    const panned = itd_pan(-0.5)(constant);
+    expect(get_left_wave(panned)(0.5))
+      .toBe(get_right_wave(panned)(0.5));
+  });
+});
+
+describe('stereo_width', () => {
+  const wide = make_stereo_sound((_t) => 0.5, (_t) => -0.1, 1);
+
+  test('a width of 0 gives the same wave on both channels', () => {
+    const narrowed = stereo_width(0)(wide);
+    expect(get_left_wave(narrowed)(0.5))
+      .toBeCloseTo(0.2);
+    expect(get_right_wave(narrowed)(0.5))
+      .toBeCloseTo(0.2);
+  });
+
+  test('a width of 1 leaves the sound unchanged', () => {
+    const same = stereo_width(1)(wide);
+    expect(get_left_wave(same)(0.5))
+      .toBeCloseTo(0.5);
+    expect(get_right_wave(same)(0.5))
+      .toBeCloseTo(-0.1);
+  });
+
+  test('a width above 1 exaggerates the difference', () => {
+    const widened = stereo_width(2)(wide);
+    expect(get_left_wave(widened)(0.5))
+      .toBeCloseTo(0.8);
+    expect(get_right_wave(widened)(0.5))
+      .toBeCloseTo(-0.4);
+  });
+});
+
+describe('ping_pong_delay', () => {
+  test('alternates echoes between left and right', () => {
+    // Two samples of amplitude 1 at the start of the sound
+    const impulse = make_sound((t) => (t < 2 / FS ? 1 : 0), 1);
+    const echoed = ping_pong_delay(0.25, 0.5, 0.8)(impulse);
+    const left = get_left_wave(echoed);
+    const right = get_right_wave(echoed);
+    expect(left(0.25 + 1 / FS))
+      .toBeCloseTo(0.8);
+    expect(right(0.25 + 1 / FS))
+      .toBeCloseTo(0);
+    expect(right(0.5 + 1 / FS))
+      .toBeCloseTo(0.4);
+    expect(left(0.5 + 1 / FS))
+      .toBeCloseTo(0);
+    expect(left(0.75 + 1 / FS))
+      .toBeCloseTo(0.2);
+  });
+});
+
+describe('binaural', () => {
+  const noise: Sound = noise_sound(1);
+
+  test('a sound to the right is louder in the right ear', () => {
+    const positioned = binaural((_t) => 90)(noise);
+    expect(rms(get_right_wave(positioned), 0.1, 0.9))
+      .toBeGreaterThan(2 * rms(get_left_wave(positioned), 0.1, 0.9));
+  });
+
+  test('a sound ahead is the same in both ears', () => {
+    const positioned = binaural((_t) => 0)(noise);
+    for (let t = 0; t < 0.1; t += 0.01) {
+      expect(get_left_wave(positioned)(t))
+        .toBeCloseTo(get_right_wave(positioned)(t));
+    }
+  });
+
+  test('follows the angle over time', () => {
+    const moving = binaural((t) => (t < 0.5 ? -90 : 90))(noise);
+    expect(rms(get_left_wave(moving), 0.1, 0.4))
+      .toBeGreaterThan(rms(get_right_wave(moving), 0.1, 0.4));
+    expect(rms(get_right_wave(moving), 0.6, 0.9))
+      .toBeGreaterThan(rms(get_left_wave(moving), 0.6, 0.9));
+  });
+
+  test('rejects angle functions that do not return numbers', () => {
+    expect(() => get_left_wave(binaural((_t) => 'left' as any)(noise))(0))
+      .toThrow('binaural is expecting the angle function to return a number');
+  });
+});
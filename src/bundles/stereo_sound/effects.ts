@@ -0,0 +1,152 @@
+/**
+ * Audio effects for the stereo sounds module. Every effect applies the
+ * effect of the same name in the sound module to the left and the right
+ * channel of a Sound separately, so the channels keep their place.
+ *
+ * Effects that depend on earlier parts of the sound, such as filters and
+ * reverb, sample their input at the sample rate in use when they are applied
+ * (see `set_sample_rate`). All other effects work on the waves directly.
+ * Effects keep the duration of their input, so echoes and reverb tails
+ * beyond the end of the input are cut off. Append a silence_sound to
+ * the input to hear them.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import { on_both_channels } from '../sound/channels';
+import * as mono from '../sound/effects';
+import type { SoundTransformer } from './types';
+
+/**
+ * Returns a SoundTransformer that applies a low-pass filter to a Sound:
+ * frequencies below the cutoff frequency pass through, and higher
+ * frequencies are attenuated. The resonance q controls how sharply the
+ * filter peaks at the cutoff. A q of about 0.707 gives no peak.
+ *
+ * @param cutoff cutoff frequency in Hz
+ * @param q resonance of the filter, a positive number
+ * @return function which takes in a Sound and returns the filtered Sound
+ * @example low_pass_filter(800, 0.707)(sawtooth_sound(220, 2));
+ */
+export function low_pass_filter(cutoff: number, q: number): SoundTransformer {
+  return on_both_channels(mono.low_pass_filter(cutoff, q));
+}
+
+/**
+ * Returns a SoundTransformer that applies a high-pass filter to a Sound:
+ * frequencies above the cutoff frequency pass through, and lower
+ * frequencies are attenuated. The resonance q controls how sharply the
+ * filter peaks at the cutoff. A q of about 0.707 gives no peak.
+ *
+ * @param cutoff cutoff frequency in Hz
+ * @param q resonance of the filter, a positive number
+ * @return function which takes in a Sound and returns the filtered Sound
+ * @example high_pass_filter(2000, 0.707)(noise_sound(2));
+ */
+export function high_pass_filter(cutoff: number, q: number): SoundTransformer {
+  return on_both_channels(mono.high_pass_filter(cutoff, q));
+}
+
+/**
+ * Returns a SoundTransformer that applies a band-pass filter to a Sound:
+ * frequencies close to the center frequency pass through, and frequencies
+ * further away are attenuated. Higher values of q give a narrower band.
+ *
+ * @param center center frequency in Hz
+ * @param q width of the band, a positive number
+ * @return function which takes in a Sound and returns the filtered Sound
+ * @example band_pass_filter(1000, 5)(noise_sound(2));
+ */
+export function band_pass_filter(center: number, q: number): SoundTransformer {
+  return on_both_channels(mono.band_pass_filter(center, q));
+}
+
+/**
+ * Returns a SoundTransformer that adds echoes to a Sound. The Sound is
+ * repeated every delay seconds, and each repetition is quieter than the
+ * previous one by a factor of feedback. The echoes are mixed with the
+ * original Sound according to mix. Echoes quieter than 1/1000 of the
+ * Sound are left out, and at most 100 echoes are added.
+ *
+ * @param delay time between echoes in seconds
+ * @param feedback amplitude of each echo relative to the previous one, between 0 and 1
+ * @param mix amplitude of the first echo relative to the original Sound, between 0 and 1
+ * @return function which takes in a Sound and returns a Sound with echoes
+ * @example echo(0.25, 0.5, 0.6)(piano(60, 2));
+ */
+export function echo(
+  delay: number,
+  feedback: number,
+  mix: number,
+): SoundTransformer {
+  return on_both_channels(mono.echo(delay, feedback, mix));
+}
+
+/**
+ * Returns a SoundTransformer that adds reverberation to a Sound, as if it
+ * was played in a room. The reverb is a Schroeder reverberator: four
+ * parallel comb filters followed by two all-pass filters.
+ *
+ * @param decay_time time in seconds for the reverberation to fall to a thousandth of its amplitude
+ * @param mix proportion of reverberated sound in the result, between 0 and 1
+ * @return function which takes in a Sound and returns a reverberated Sound
+ * @example reverb(1.5, 0.3)(consecutively(list(piano(60, 0.5), silence_sound(1.5))));
+ */
+export function reverb(decay_time: number, mix: number): SoundTransformer {
+  return on_both_channels(mono.reverb(decay_time, mix));
+}
+
+/**
+ * Returns a SoundTransformer that distorts a Sound by soft clipping:
+ * loud parts of the Sound are smoothly squashed instead of being cut off.
+ * Higher drive gives more distortion. Amplitudes of -1 and 1 are kept.
+ *
+ * @param drive amount of distortion, a positive number
+ * @return function which takes in a Sound and returns the distorted Sound
+ * @example soft_clip(5)(sine_sound(220, 2));
+ */
+export function soft_clip(drive: number): SoundTransformer {
+  return on_both_channels(mono.soft_clip(drive));
+}
+
+/**
+ * Returns a SoundTransformer that reduces the fidelity of a Sound,
+ * like early digital audio hardware. The amplitude is rounded to the
+ * given number of bits, and the wave is only sampled at the given sample
+ * rate, holding each sample until the next one.
+ *
+ * @param bits number of bits per sample, a positive integer
+ * @param sample_rate number of samples per second, a positive number
+ * @return function which takes in a Sound and returns the crushed Sound
+ * @example bitcrusher(4, 8000)(sine_sound(440, 2));
+ */
+export function bitcrusher(bits: number, sample_rate: number): SoundTransformer {
+  return on_both_channels(mono.bitcrusher(bits, sample_rate));
+}
+
+/**
+ * Returns a SoundTransformer that makes the volume of a Sound
+ * rise and fall periodically. The volume starts at full and falls to
+ * 1 - depth halfway through each period.
+ *
+ * @param rate number of volume changes per second
+ * @param depth amount of change in volume, between 0 and 1
+ * @return function which takes in a Sound and returns a Sound with tremolo
+ * @example tremolo(5, 0.5)(violin(60, 3));
+ */
+export function tremolo(rate: number, depth: number): SoundTransformer {
+  return on_both_channels(mono.tremolo(rate, depth));
+}
+
+/**
+ * Returns a SoundTransformer that makes the pitch of a Sound
+ * rise and fall periodically, by reading the Sound with a delay that
+ * varies between 0 and depth seconds.
+ *
+ * @param rate number of pitch changes per second
+ * @param depth largest delay in seconds, such as 0.002
+ * @return function which takes in a Sound and returns a Sound with vibrato
+ * @example vibrato(6, 0.002)(violin(60, 3));
+ */
+export function vibrato(rate: number, depth: number): SoundTransformer {
+  return on_both_channels(mono.vibrato(rate, depth));
+}
@@ -6,6 +6,9 @@
  * A Stereo Sound is a `pair(pair(left_wave, right_wave), duration)` where duration is the length of the sound in seconds.
  * The constructor `make_stereo_sound` and accessors `get_left_wave`, `get_right_wave`, and `get_duration` are provided.
  * The `make_sound` constructor from sounds is syntatic sugar for `make_stereo_sounds` with equal waves.
+ * Sounds of the sound bundle can be converted with `to_stereo`, and back with `to_mono`.
+ * The waveforms, composition operators, envelopes, instruments and effects are those of
+ * the sound bundle, applied to both channels.
  *
  * @module stereo_sound
  * @author Koh Shang Hui
@@ -16,29 +19,38 @@
 import {
   accumulate,
   head,
-  is_null,
   is_pair,
-  length,
-  list,
   pair,
   tail,
   type List,
 } from 'js-slang/dist/stdlib/list';
-import { RIFFWAVE } from './riffwave';
+import {
+  from_channels,
+  left_channel,
+  on_both_channels,
+  right_channel,
+  to_stereo,
+} from '../sound/channels';
+import { makeAudioPlayed, startPlayback, type SoundPlayback } from '../sound/playback';
+import { Recorder } from '../sound/recording';
+import { renderChannels, renderChannelsSync, samplesToWave } from '../sound/render';
+import { get_sample_rate } from '../sound/sounds';
+import { loadBytes } from '../sound/utilities';
+import { decodeWav, encodeWav } from '../sound/wav';
+import * as mono from '../sound/waveforms';
+import type { Sound as MonoSound } from '../sound/types';
 import type {
   AudioPlayed,
   Sound,
   SoundProducer,
   SoundTransformer,
+  WavBitDepth,
   Wave,
 } from './types';
 import context from 'js-slang/context';
 
 // Global Constants and Variables
 
-const FS: number = 44100; // Output sample rate
-const fourier_expansion_level: number = 5; // fourier expansion level
-
 const audioPlayed: AudioPlayed[] = [];
 context.moduleContexts.stereo_sound.state = {
   audioPlayed,
@@ -47,8 +59,13 @@ context.moduleContexts.stereo_sound.state = {
 // Singular audio context for all playback functions
 let audioplayer: AudioContext;
 
-// Track if a sound is currently playing
-let isPlaying: boolean;
+// Sounds started with play_concurrently that have not stopped yet
+const playbacks = new Set<SoundPlayback>();
+
+// Check if a sound is currently playing
+function is_playing(): boolean {
+  return [...playbacks].some((playback) => playback.isPlaying);
+}
 
 // Instantiates new audio context
 function init_audioCtx(): void {
@@ -56,97 +73,28 @@ function init_audioCtx(): void {
   // audioplayer = new (window.AudioContext || window.webkitAudioContext)();
 }
 
-// linear decay from 1 to 0 over decay_period
-function linear_decay(decay_period: number): (t: number) => number {
-  return (t) => {
-    if (t > decay_period || t < 0) {
-      return 0;
-    }
-    return 1 - t / decay_period;
-  };
-}
-
 // // ---------------------------------------------
 // // Microphone Functionality
 // // ---------------------------------------------
 
-// permission initially undefined
-// set to true by granting microphone permission
-// set to false by denying microphone permission
-let permission: boolean | undefined;
-
-let recorded_sound: Sound | undefined;
-
-// check_permission is called whenever we try
-// to record a sound
-function check_permission() {
-  if (permission === undefined) {
-    throw new Error(
-      'Call init_record(); to obtain permission to use microphone',
+const recording_signal_duration = 0.1;
+
+// Recordings with two channels keep them, mono recordings
+// are played on both channels
+const recorder = new Recorder<Sound>(
+  () => play(sine_sound(1200, recording_signal_duration)),
+  (audioBuffer) => {
+    const left = audioBuffer.getChannelData(0);
+    const right = audioBuffer.numberOfChannels > 1
+      ? audioBuffer.getChannelData(1)
+      : left;
+    return make_stereo_sound(
+      samplesToWave(left, audioBuffer.sampleRate),
+      samplesToWave(right, audioBuffer.sampleRate),
+      left.length / audioBuffer.sampleRate,
     );
-  } else if (permission === false) {
-    throw new Error(`Permission has been denied.\n
-		    Re-start browser and call init_record();\n
-		    to obtain permission to use microphone.`);
-  } // (permission === true): do nothing
-}
-
-let globalStream: any;
-
-function rememberStream(stream: any) {
-  permission = true;
-  globalStream = stream;
-}
-
-function setPermissionToFalse() {
-  permission = false;
-}
-
-function start_recording(mediaRecorder: MediaRecorder) {
-  const data: any[] = [];
-  mediaRecorder.ondataavailable = (e) => e.data.size && data.push(e.data);
-  mediaRecorder.start();
-  mediaRecorder.onstop = () => process(data);
-}
-
-// there is a beep signal at the beginning and end
-// of each recording
-const recording_signal_duration_ms = 100;
-
-function play_recording_signal() {
-  play(sine_sound(1200, recording_signal_duration_ms / 1000));
-}
-
-// eslint-disable-next-line @typescript-eslint/no-shadow
-function process(data: any[] | undefined) {
-  const audioContext = new AudioContext();
-  const blob = new Blob(data);
-
-  convertToArrayBuffer(blob)
-    .then((arrayBuffer) => audioContext.decodeAudioData(arrayBuffer))
-    .then(save);
-}
-
-// Converts input microphone sound (blob) into array format.
-function convertToArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
-  const url = URL.createObjectURL(blob);
-  return fetch(url)
-    .then((response) => response.arrayBuffer());
-}
-
-function save(audioBuffer: AudioBuffer) {
-  const array = audioBuffer.getChannelData(0);
-  const duration = array.length / FS;
-  recorded_sound = make_sound((t) => {
-    const index = t * FS;
-    const lowerIndex = Math.floor(index);
-    const upperIndex = lowerIndex + 1;
-    const ratio = index - lowerIndex;
-    const upper = array[upperIndex] ? array[upperIndex] : 0;
-    const lower = array[lowerIndex] ? array[lowerIndex] : 0;
-    return lower * (1 - ratio) + upper * ratio;
-  }, duration);
-}
+  },
+);
 
 /**
  * Initialize recording by obtaining permission
@@ -155,10 +103,7 @@ function save(audioBuffer: AudioBuffer) {
  * @returns string "obtaining recording permission"
  */
 export function init_record(): string {
-  navigator.mediaDevices
-    .getUserMedia({ audio: true })
-    .then(rememberStream, setPermissionToFalse);
-  return 'obtaining recording permission';
+  return recorder.init();
 }
 
 /**
@@ -178,23 +123,7 @@ export function init_record(): string {
  * returns a sound promise: a nullary function that returns the recorded sound
  */
 export function record(buffer: number): () => () => Sound {
-  check_permission();
-  const mediaRecorder = new MediaRecorder(globalStream);
-  setTimeout(() => {
-    play_recording_signal();
-    start_recording(mediaRecorder);
-  }, recording_signal_duration_ms + buffer * 1000);
-  return () => {
-    mediaRecorder.stop();
-    play_recording_signal();
-    return () => {
-      if (recorded_sound === undefined) {
-        throw new Error('recording still being processed');
-      } else {
-        return recorded_sound;
-      }
-    };
-  };
+  return recorder.record(buffer);
 }
 
 /**
@@ -211,25 +140,7 @@ export function record(buffer: number): () => () => Sound {
  * @return <CODE>promise</CODE>: nullary function which returns the recorded sound
  */
 export function record_for(duration: number, buffer: number): () => Sound {
-  recorded_sound = undefined;
-  const duration_ms = duration * 1000;
-  check_permission();
-  const mediaRecorder = new MediaRecorder(globalStream);
-  setTimeout(() => {
-    play_recording_signal();
-    start_recording(mediaRecorder);
-    setTimeout(() => {
-      mediaRecorder.stop();
-      play_recording_signal();
-    }, duration_ms);
-  }, recording_signal_duration_ms + buffer * 1000);
-  return () => {
-    if (recorded_sound === undefined) {
-      throw new Error('recording still being processed');
-    } else {
-      return recorded_sound;
-    }
-  };
+  return recorder.recordFor(duration, buffer);
 }
 
 // =============================================================================
@@ -367,6 +278,8 @@ export function play_waves(
 /**
  * Plays the given Sound using the computer’s sound device.
  * The sound is only played if no other sounds are currently being played.
+ * The sound is rendered in the background, and playing the same Sound
+ * again reuses the rendered samples.
  *
  * @param sound the sound to play
  * @return the given sound
@@ -377,7 +290,7 @@ export function play(sound: Sound): AudioPlayed {
   if (!is_sound(sound)) {
     throw new Error(`play is expecting sound, but encountered ${sound}`);
     // If a sound is already playing, terminate execution.
-  } else if (isPlaying) {
+  } else if (is_playing()) {
     throw new Error('play: audio system still playing previous sound');
   } else if (get_duration(sound) < 0) {
     throw new Error('play: duration of sound is negative');
@@ -387,191 +300,149 @@ export function play(sound: Sound): AudioPlayed {
       init_audioCtx();
     }
 
-    const channel: number[] = [];
-    const len = Math.ceil(FS * get_duration(sound));
-
-    let Ltemp: number;
-    let Rtemp: number;
-    let Lprev_value = 0;
-    let Rprev_value = 0;
-
-    const left_wave = get_left_wave(sound);
-    const right_wave = get_right_wave(sound);
-    for (let i = 0; i < len; i += 1) {
-      Ltemp = left_wave(i / FS);
-      // clip amplitude
-      if (Ltemp > 1) {
-        channel[2 * i] = 1;
-      } else if (Ltemp < -1) {
-        channel[2 * i] = -1;
-      } else {
-        channel[2 * i] = Ltemp;
-      }
-
-      // smoothen out sudden cut-outs
-      if (
-        channel[2 * i] === 0
-        && Math.abs(channel[2 * i] - Lprev_value) > 0.01
-      ) {
-        channel[2 * i] = Lprev_value * 0.999;
-      }
-
-      Lprev_value = channel[2 * i];
-
-      Rtemp = right_wave(i / FS);
-      // clip amplitude
-      if (Rtemp > 1) {
-        channel[2 * i + 1] = 1;
-      } else if (Rtemp < -1) {
-        channel[2 * i + 1] = -1;
-      } else {
-        channel[2 * i + 1] = Rtemp;
-      }
-
-      // smoothen out sudden cut-outs
-      if (
-        channel[2 * i + 1] === 0
-        && Math.abs(channel[2 * i] - Rprev_value) > 0.01
-      ) {
-        channel[2 * i + 1] = Rprev_value * 0.999;
-      }
-
-      Rprev_value = channel[2 * i + 1];
-    }
-
-    // quantize
-    for (let i = 0; i < channel.length; i += 1) {
-      channel[i] = Math.floor(channel[i] * 32767.999);
-    }
-
-    const riffwave = new RIFFWAVE([]);
-    riffwave.header.sampleRate = FS;
-    riffwave.header.numChannels = 2;
-    riffwave.header.bitsPerSample = 16;
-    riffwave.Make(channel);
-
-    /*
-    const audio = new Audio(riffwave.dataURI);
-    const source2 = audioplayer.createMediaElementSource(audio);
-    source2.connect(audioplayer.destination);
-
-    // Connect data to output destination
-    isPlaying = true;
-    audio.play();
-    audio.onended = () => {
-      source2.disconnect(audioplayer.destination);
-      isPlaying = false;
-    }; */
-
-    const audio = {
-      toReplString: () => '<AudioPlayed>',
-      dataUri: riffwave.dataURI,
-    };
-
-    audioPlayed.push(audio);
-    return audio;
+    // Render the sound in the background, the Stereo Sound tab shows it once done
+    const sample_rate = get_sample_rate();
+    const soundToPlay = makeAudioPlayed(
+      renderChannels(
+        sound,
+        [get_left_wave(sound), get_right_wave(sound)],
+        get_duration(sound),
+        sample_rate,
+      ),
+      sample_rate,
+    );
+    audioPlayed.push(soundToPlay);
+    return soundToPlay;
   }
 }
 
 /**
  * Plays the given Sound using the computer’s sound device
  * on top of any sounds that are currently playing.
+ * Playback starts once the sound has been rendered in the background.
+ * The returned handle can be used to stop, pause, resume and seek
+ * this sound without affecting other sounds.
  *
  * @param sound the sound to play
- * @example play_concurrently(sine_sound(440, 5));
+ * @return handle to the playing sound
+ * @example const handle = play_concurrently(sine_sound(440, 5));
  */
-export function play_concurrently(sound: Sound): void {
+export function play_concurrently(sound: Sound): SoundPlayback {
   // Type-check sound
   if (!is_sound(sound)) {
     throw new Error(
       `play_concurrently is expecting sound, but encountered ${sound}`,
     );
-  } else if (get_duration(sound) <= 0) {
-    // Do nothing
-  } else {
-    // Instantiate audio context if it has not been instantiated.
-    if (!audioplayer) {
-      init_audioCtx();
-    }
-
-    const channel: number[] = Array[2 * Math.ceil(FS * get_duration(sound))];
-
-    let Ltemp: number;
-    let Rtemp: number;
-    let prev_value = 0;
-
-    const left_wave = get_left_wave(sound);
-
-    for (let i = 0; i < channel.length; i += 2) {
-      Ltemp = left_wave(i / FS);
-      // clip amplitude
-      if (Ltemp > 1) {
-        channel[i] = 1;
-      } else if (Ltemp < -1) {
-        channel[i] = -1;
-      } else {
-        channel[i] = Ltemp;
-      }
+  }
 
-      // smoothen out sudden cut-outs
-      if (channel[i] === 0 && Math.abs(channel[i] - prev_value) > 0.01) {
-        channel[i] = prev_value * 0.999;
-      }
+  // Instantiate audio context if it has not been instantiated.
+  if (!audioplayer) {
+    init_audioCtx();
+  }
 
-      prev_value = channel[i];
-    }
+  // Play the sound once it has been rendered
+  const sample_rate = get_sample_rate();
+  return startPlayback(
+    audioplayer,
+    renderChannels(
+      sound,
+      [get_left_wave(sound), get_right_wave(sound)],
+      get_duration(sound),
+      sample_rate,
+    ),
+    get_duration(sound),
+    sample_rate,
+    playbacks,
+  );
+}
 
-    prev_value = 0;
-    const right_wave = get_right_wave(sound);
-    for (let i = 1; i < channel.length; i += 2) {
-      Rtemp = right_wave(i / FS);
-      // clip amplitude
-      if (Rtemp > 1) {
-        channel[i] = 1;
-      } else if (Rtemp < -1) {
-        channel[i] = -1;
-      } else {
-        channel[i] = Rtemp;
-      }
+/**
+ * Stops all currently playing sounds.
+ * Sounds can still be played afterwards.
+ */
+export function stop(): void {
+  [...playbacks].forEach((playback) => {
+    playback.stop();
+  });
+}
 
-      // smoothen out sudden cut-outs
-      if (channel[i] === 0 && Math.abs(channel[i] - prev_value) > 0.01) {
-        channel[i] = prev_value * 0.999;
-      }
+// WAV files
 
-      prev_value = channel[i];
-    }
+/**
+ * Saves the given Sound as a stereo WAV file, which is downloaded by the
+ * browser under the given name. The samples can be 16 or 24 bit integers,
+ * or 32 bit floating point numbers. If no bit depth is given,
+ * 16 bit samples are used.
+ *
+ * @param sound the sound to save
+ * @param name file name of the WAV file
+ * @param bit_depth bit depth of the samples: 16, 24 or 32
+ * @return the data URI of the WAV file
+ * @example save_wav(sine_sound(440, 5), "sine.wav");
+ */
+export function save_wav(
+  sound: Sound,
+  name: string,
+  bit_depth: WavBitDepth = 16,
+): string {
+  if (!is_sound(sound)) {
+    throw new Error(`save_wav is expecting sound, but encountered ${sound}`);
+  } else if (get_duration(sound) < 0) {
+    throw new Error('save_wav: duration of sound is negative');
+  } else if (bit_depth !== 16 && bit_depth !== 24 && bit_depth !== 32) {
+    throw new Error(
+      `save_wav: bit depth must be 16, 24 or 32, but encountered ${bit_depth}`,
+    );
+  }
 
-    // quantize
-    for (let i = 0; i < channel.length; i += 1) {
-      channel[i] = Math.floor(channel[i] * 32767.999);
-    }
+  const sample_rate = get_sample_rate();
+  const channels = renderChannelsSync(
+    sound,
+    [get_left_wave(sound), get_right_wave(sound)],
+    get_duration(sound),
+    sample_rate,
+  );
+  const dataUri = encodeWav(channels, sample_rate, bit_depth);
 
-    const riffwave = new RIFFWAVE([]);
-    riffwave.header.sampleRate = FS;
-    riffwave.header.numChannels = 2;
-    riffwave.header.bitsPerSample = 16;
-    riffwave.Make(channel);
-    const audio = new Audio(riffwave.dataURI);
-    const source2 = audioplayer.createMediaElementSource(audio);
-    source2.connect(audioplayer.destination);
+  const link = document.createElement('a');
+  link.href = dataUri;
+  link.download = name.toLowerCase()
+    .endsWith('.wav')
+    ? name
+    : `${name}.wav`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
 
-    // Connect data to output destination
-    audio.play();
-    isPlaying = true;
-    audio.onended = () => {
-      source2.disconnect(audioplayer.destination);
-      isPlaying = false;
-    };
-  }
+  return dataUri;
 }
 
 /**
- * Stops all currently playing sounds.
+ * Loads a WAV file from the given URL or data URI, and returns a Sound
+ * whose waves interpolate between the samples of the file.
+ * Mono files are played on both channels, and files with more than
+ * two channels only keep their first two channels.
+ * The URL must allow CORS requests.
+ *
+ * @param url_or_data_uri URL or data URI of the WAV file
+ * @return the Sound stored in the WAV file
+ * @example load_wav("https://example.com/drum.wav");
  */
-export function stop(): void {
-  audioplayer.close();
-  isPlaying = false;
+export function load_wav(url_or_data_uri: string): Sound {
+  if (typeof url_or_data_uri !== 'string') {
+    throw new Error(
+      `load_wav is expecting a string, but encountered ${url_or_data_uri}`,
+    );
+  }
+
+  const { sampleRate, channels } = decodeWav(loadBytes(url_or_data_uri));
+  const left = channels[0];
+  const right = channels.length > 1 ? channels[1] : left;
+  return make_stereo_sound(
+    samplesToWave(left, sampleRate),
+    samplesToWave(right, sampleRate),
+    left.length / sampleRate,
+  );
 }
 
 // Stereo only functions
@@ -644,7 +515,7 @@ export function pan_mod(modulator: Sound): SoundTransformer {
   };
 }
 
-// Primitive sounds
+// Primitive sounds, which play the Sounds of the sound bundle on both channels
 
 /**
  * Makes a noise sound with given duration
@@ -654,7 +525,7 @@ export function pan_mod(modulator: Sound): SoundTransformer {
  * @example noise_sound(5);
  */
 export function noise_sound(duration: number): Sound {
-  return make_sound((_t) => Math.random() * 2 - 1, duration);
+  return to_stereo(mono.noise_sound(duration));
 }
 
 /**
@@ -665,7 +536,7 @@ export function noise_sound(duration: number): Sound {
  * @example silence_sound(5);
  */
 export function silence_sound(duration: number): Sound {
-  return make_sound((_t) => 0, duration);
+  return to_stereo(mono.silence_sound(duration));
 }
 
 /**
@@ -677,7 +548,7 @@ export function silence_sound(duration: number): Sound {
  * @example sine_sound(440, 5);
  */
 export function sine_sound(freq: number, duration: number): Sound {
-  return make_sound((t) => Math.sin(2 * Math.PI * t * freq), duration);
+  return to_stereo(mono.sine_sound(freq, duration));
 }
 
 /**
@@ -688,18 +559,8 @@ export function sine_sound(freq: number, duration: number): Sound {
  * @return resulting square wave sound
  * @example square_sound(440, 5);
  */
-export function square_sound(f: number, duration: number): Sound {
-  function fourier_expansion_square(t: number) {
-    let answer = 0;
-    for (let i = 1; i <= fourier_expansion_level; i += 1) {
-      answer += Math.sin(2 * Math.PI * (2 * i - 1) * f * t) / (2 * i - 1);
-    }
-    return answer;
-  }
-  return make_sound(
-    (t) => (4 / Math.PI) * fourier_expansion_square(t),
-    duration,
-  );
+export function square_sound(freq: number, duration: number): Sound {
+  return to_stereo(mono.square_sound(freq, duration));
 }
 
 /**
@@ -711,19 +572,7 @@ export function square_sound(f: number, duration: number): Sound {
  * @example triangle_sound(440, 5);
  */
 export function triangle_sound(freq: number, duration: number): Sound {
-  function fourier_expansion_triangle(t: number) {
-    let answer = 0;
-    for (let i = 0; i < fourier_expansion_level; i += 1) {
-      answer
-        += ((-1) ** i * Math.sin((2 * i + 1) * t * freq * Math.PI * 2))
-        / (2 * i + 1) ** 2;
-    }
-    return answer;
-  }
-  return make_sound(
-    (t) => (8 / Math.PI / Math.PI) * fourier_expansion_triangle(t),
-    duration,
-  );
+  return to_stereo(mono.triangle_sound(freq, duration));
 }
 
 /**
@@ -735,20 +584,22 @@ export function triangle_sound(freq: number, duration: number): Sound {
  * @example sawtooth_sound(440, 5);
  */
 export function sawtooth_sound(freq: number, duration: number): Sound {
-  function fourier_expansion_sawtooth(t: number) {
-    let answer = 0;
-    for (let i = 1; i <= fourier_expansion_level; i += 1) {
-      answer += Math.sin(2 * Math.PI * i * freq * t) / i;
-    }
-    return answer;
-  }
-  return make_sound(
-    (t) => 1 / 2 - (1 / Math.PI) * fourier_expansion_sawtooth(t),
-    duration,
-  );
+  return to_stereo(mono.sawtooth_sound(freq, duration));
 }
 
-// Composition Operators
+// Composition Operators, which combine the left and right channels separately
+
+// List of the given channel of every Sound in the list
+function channels_of(
+  channel: (sound: Sound) => MonoSound,
+  list_of_sounds: List,
+): List {
+  return accumulate(
+    (sound: Sound, rest: List) => pair(channel(sound), rest),
+    null,
+    list_of_sounds,
+  );
+}
 
 /**
  * Makes a new Sound by combining the sounds in a given list
@@ -761,18 +612,10 @@ export function sawtooth_sound(freq: number, duration: number): Sound {
  * @example consecutively(list(sine_sound(200, 2), sine_sound(400, 3)));
  */
 export function consecutively(list_of_sounds: List): Sound {
-  function stereo_cons_two(sound1: Sound, sound2: Sound) {
-    const Lwave1 = get_left_wave(sound1);
-    const Rwave1 = get_right_wave(sound1);
-    const Lwave2 = get_left_wave(sound2);
-    const Rwave2 = get_right_wave(sound2);
-    const dur1 = get_duration(sound1);
-    const dur2 = get_duration(sound2);
-    const new_left = (t: number) => (t < dur1 ? Lwave1(t) : Lwave2(t - dur1));
-    const new_right = (t: number) => (t < dur1 ? Rwave1(t) : Rwave2(t - dur1));
-    return make_stereo_sound(new_left, new_right, dur1 + dur2);
-  }
-  return accumulate<Sound, Sound>(stereo_cons_two, silence_sound(0), list_of_sounds);
+  return from_channels(
+    mono.consecutively(channels_of(left_channel, list_of_sounds)),
+    mono.consecutively(channels_of(right_channel, list_of_sounds)),
+  );
 }
 
 /**
@@ -784,29 +627,10 @@ export function consecutively(list_of_sounds: List): Sound {
  * @example simultaneously(list(sine_sound(200, 2), sine_sound(400, 3)))
  */
 export function simultaneously(list_of_sounds: List): Sound {
-  function stereo_simul_two(sound1: Sound, sound2: Sound) {
-    const Lwave1 = get_left_wave(sound1);
-    const Rwave1 = get_right_wave(sound1);
-    const Lwave2 = get_left_wave(sound2);
-    const Rwave2 = get_right_wave(sound2);
-    const dur1 = get_duration(sound1);
-    const dur2 = get_duration(sound2);
-    const new_left = (t: number) => Lwave1(t) + Lwave2(t);
-    const new_right = (t: number) => Rwave1(t) + Rwave2(t);
-    const new_dur = dur1 < dur2 ? dur2 : dur1;
-    return make_stereo_sound(new_left, new_right, new_dur);
-  }
-
-  const unnormed = accumulate(
-    stereo_simul_two,
-    silence_sound(0),
-    list_of_sounds,
+  return from_channels(
+    mono.simultaneously(channels_of(left_channel, list_of_sounds)),
+    mono.simultaneously(channels_of(right_channel, list_of_sounds)),
   );
-  const sounds_length = length(list_of_sounds);
-  const normalised_left = (t: number) => head(head(unnormed))(t) / sounds_length;
-  const normalised_right = (t: number) => tail(head(unnormed))(t) / sounds_length;
-  const highest_duration = tail(unnormed);
-  return make_stereo_sound(normalised_left, normalised_right, highest_duration);
 }
 
 /**
@@ -830,38 +654,9 @@ export function adsr(
   sustain_level: number,
   release_ratio: number,
 ): SoundTransformer {
-  return (sound) => {
-    const Lwave = get_left_wave(sound);
-    const Rwave = get_right_wave(sound);
-    const duration = get_duration(sound);
-    const attack_time = duration * attack_ratio;
-    const decay_time = duration * decay_ratio;
-    const release_time = duration * release_ratio;
-
-    function adsrHelper(wave: Wave) {
-      return (x: number) => {
-        if (x < attack_time) {
-          return wave(x) * (x / attack_time);
-        }
-        if (x < attack_time + decay_time) {
-          return (
-            ((1 - sustain_level) * linear_decay(decay_time)(x - attack_time)
-              + sustain_level)
-            * wave(x)
-          );
-        }
-        if (x < duration - release_time) {
-          return wave(x) * sustain_level;
-        }
-        return (
-          wave(x)
-          * sustain_level
-          * linear_decay(release_time)(x - (duration - release_time))
-        );
-      };
-    }
-    return make_stereo_sound(adsrHelper(Lwave), adsrHelper(Rwave), duration);
-  };
+  return on_both_channels(
+    mono.adsr(attack_ratio, decay_ratio, sustain_level, release_ratio),
+  );
 }
 
 /**
@@ -886,19 +681,8 @@ export function stacking_adsr(
   duration: number,
   envelopes: List,
 ): Sound {
-  function zip(lst: List, n: number) {
-    if (is_null(lst)) {
-      return lst;
-    }
-    return pair(pair(n, head(lst)), zip(tail(lst), n + 1));
-  }
-
   return simultaneously(
-    accumulate(
-      (x: any, y: any) => pair(tail(x)(waveform(base_frequency * head(x), duration)), y),
-      null,
-      zip(envelopes, 1),
-    ),
+    mono.enveloped_harmonics(waveform, base_frequency, duration, envelopes),
   );
 }
 
@@ -909,6 +693,7 @@ export function stacking_adsr(
  * Modulating with a low frequency Sound results in a vibrato effect.
  * Modulating with a Sound with frequencies comparable to
  * the sine wave frequency results in more complex wave forms.
+ * Each channel of the result is modulated by the same channel of the Sound.
  *
  * @param freq the frequency of the sine wave to be modulated
  * @param duration the duration of the output soud
@@ -921,196 +706,5 @@ export function phase_mod(
   duration: number,
   amount: number,
 ): SoundTransformer {
-  return (modulator: Sound) => make_stereo_sound(
-    (t) => Math.sin(2 * Math.PI * t * freq + amount * get_left_wave(modulator)(t)),
-    (t) => Math.sin(
-      2 * Math.PI * t * freq + amount * get_right_wave(modulator)(t),
-    ),
-    duration,
-  );
-}
-
-// MIDI conversion functions
-
-/**
- * Converts a letter name to its corresponding MIDI note.
- * The letter name is represented in standard pitch notation.
- * Examples are "A5", "Db3", "C#7".
- * Refer to <a href="https://i.imgur.com/qGQgmYr.png">this mapping from
- * letter name to midi notes.
- *
- * @param letter_name given letter name
- * @return the corresponding midi note
- * @example letter_name_to_midi_note("C4"); // Returns 60
- */
-export function letter_name_to_midi_note(note: string): number {
-  let res = 12; // C0 is midi note 12
-  const n = note[0].toUpperCase();
-  switch (n) {
-    case 'D':
-      res += 2;
-      break;
-
-    case 'E':
-      res += 4;
-      break;
-
-    case 'F':
-      res += 5;
-      break;
-
-    case 'G':
-      res += 7;
-      break;
-
-    case 'A':
-      res += 9;
-      break;
-
-    case 'B':
-      res += 11;
-      break;
-
-    default:
-      break;
-  }
-
-  if (note.length === 2) {
-    res += parseInt(note[1]) * 12;
-  } else if (note.length === 3) {
-    switch (note[1]) {
-      case '#':
-        res += 1;
-        break;
-
-      case 'b':
-        res -= 1;
-        break;
-
-      default:
-        break;
-    }
-    res += parseInt(note[2]) * 12;
-  }
-  return res;
-}
-
-/**
- * Converts a MIDI note to its corresponding frequency.
- *
- * @param note given MIDI note
- * @return the frequency of the MIDI note
- * @example midi_note_to_frequency(69); // Returns 440
- */
-export function midi_note_to_frequency(note: number): number {
-  // A4 = 440Hz = midi note 69
-  return 440 * 2 ** ((note - 69) / 12);
-}
-
-/**
- * Converts a letter name to its corresponding frequency.
- *
- * @param letter_name given letter name
- * @return the corresponding frequency
- * @example letter_name_to_frequency("A4"); // Returns 440
- */
-export function letter_name_to_frequency(note: string): number {
-  return midi_note_to_frequency(letter_name_to_midi_note(note));
-}
-
-// Instruments
-
-/**
- * returns a Sound reminiscent of a bell, playing
- * a given note for a given duration
- * @param note MIDI note
- * @param duration duration in seconds
- * @return Sound resulting bell Sound with given pitch and duration
- * @example bell(40, 1);
- */
-export function bell(note: number, duration: number): Sound {
-  return stacking_adsr(
-    square_sound,
-    midi_note_to_frequency(note),
-    duration,
-    list(
-      adsr(0, 0.6, 0, 0.05),
-      adsr(0, 0.6618, 0, 0.05),
-      adsr(0, 0.7618, 0, 0.05),
-      adsr(0, 0.9071, 0, 0.05),
-    ),
-  );
-}
-
-/**
- * returns a Sound reminiscent of a cello, playing
- * a given note for a given duration
- * @param note MIDI note
- * @param duration duration in seconds
- * @return Sound resulting cello Sound with given pitch and duration
- * @example cello(36, 5);
- */
-export function cello(note: number, duration: number): Sound {
-  return stacking_adsr(
-    square_sound,
-    midi_note_to_frequency(note),
-    duration,
-    list(adsr(0.05, 0, 1, 0.1), adsr(0.05, 0, 1, 0.15), adsr(0, 0, 0.2, 0.15)),
-  );
-}
-
-/**
- * returns a Sound reminiscent of a piano, playing
- * a given note for a given duration
- * @param note MIDI note
- * @param duration duration in seconds
- * @return Sound resulting piano Sound with given pitch and duration
- * @example piano(48, 5);
- */
-export function piano(note: number, duration: number): Sound {
-  return stacking_adsr(
-    triangle_sound,
-    midi_note_to_frequency(note),
-    duration,
-    list(adsr(0, 0.515, 0, 0.05), adsr(0, 0.32, 0, 0.05), adsr(0, 0.2, 0, 0.05)),
-  );
-}
-
-/**
- * returns a Sound reminiscent of a trombone, playing
- * a given note for a given duration
- * @param note MIDI note
- * @param duration duration in seconds
- * @return Sound resulting trombone Sound with given pitch and duration
- * @example trombone(60, 2);
- */
-export function trombone(note: number, duration: number): Sound {
-  return stacking_adsr(
-    square_sound,
-    midi_note_to_frequency(note),
-    duration,
-    list(adsr(0.2, 0, 1, 0.1), adsr(0.3236, 0.6, 0, 0.1)),
-  );
-}
-
-/**
- * returns a Sound reminiscent of a violin, playing
- * a given note for a given duration
- * @param note MIDI note
- * @param duration duration in seconds
- * @return Sound resulting violin Sound with given pitch and duration
- * @example violin(53, 4);
- */
-export function violin(note: number, duration: number): Sound {
-  return stacking_adsr(
-    sawtooth_sound,
-    midi_note_to_frequency(note),
-    duration,
-    list(
-      adsr(0.35, 0, 1, 0.15),
-      adsr(0.35, 0, 1, 0.15),
-      adsr(0.45, 0, 1, 0.15),
-      adsr(0.45, 0, 1, 0.15),
-    ),
-  );
+  return on_both_channels(mono.phase_mod(freq, duration, amount));
 }
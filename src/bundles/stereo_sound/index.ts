@@ -15,6 +15,9 @@ export {
   play_waves,
   play_concurrently,
   stop,
+  // WAV files
+  save_wav,
+  load_wav,
   // Recording
   init_record,
   record,
@@ -32,14 +35,65 @@ export {
   sawtooth_sound,
   triangle_sound,
   square_sound,
-  // MIDI
-  letter_name_to_midi_note,
-  midi_note_to_frequency,
-  letter_name_to_frequency,
+} from './functions';
+
+export { set_sample_rate, get_sample_rate } from '../sound/sounds';
+
+export {
   // Instruments
   bell,
   cello,
   piano,
   trombone,
   violin,
-} from './functions';
+  plucked_string,
+  electric_piano,
+  organ,
+  drawbar_organ,
+  kick_drum,
+  snare_drum,
+  hi_hat,
+} from './instruments';
+
+export {
+  // Filters
+  low_pass_filter,
+  high_pass_filter,
+  band_pass_filter,
+  // Delay-based effects
+  echo,
+  reverb,
+  // Distortion
+  soft_clip,
+  bitcrusher,
+  // Modulation
+  tremolo,
+  vibrato,
+} from './effects';
+
+export {
+  stop_sound,
+  pause_sound,
+  resume_sound,
+  seek_sound,
+  get_playback_position,
+} from '../sound/playback';
+
+export {
+  // MIDI
+  letter_name_to_midi_note,
+  midi_note_to_frequency,
+  letter_name_to_frequency,
+} from '../sound/notes';
+
+export {
+  // Spatialisation
+  binaural,
+  equal_power_pan,
+  itd_pan,
+  ping_pong_delay,
+  stereo_width,
+} from './spatial';
+
+// Conversion from and to the Sounds of the sound bundle
+export { to_mono, to_stereo } from '../sound/channels';
@@ -0,0 +1,177 @@
+/**
+ * Instruments of the stereo sounds module, which play the instruments of
+ * the same name in the sound module on both channels. Every instrument is
+ * a function from a MIDI note and a duration in seconds to a Sound.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import type { List } from 'js-slang/dist/stdlib/list';
+import { to_stereo } from '../sound/channels';
+import * as mono from '../sound/instruments';
+import type { Sound, SoundProducer } from './types';
+
+/**
+ * returns a Sound reminiscent of a bell, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting bell Sound with given pitch and duration
+ * @example bell(40, 1);
+ */
+export function bell(note: number, duration: number): Sound {
+  return to_stereo(mono.bell(note, duration));
+}
+
+/**
+ * returns a Sound reminiscent of a cello, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting cello Sound with given pitch and duration
+ * @example cello(36, 5);
+ */
+export function cello(note: number, duration: number): Sound {
+  return to_stereo(mono.cello(note, duration));
+}
+
+/**
+ * returns a Sound reminiscent of a piano, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting piano Sound with given pitch and duration
+ * @example piano(48, 5);
+ */
+export function piano(note: number, duration: number): Sound {
+  return to_stereo(mono.piano(note, duration));
+}
+
+/**
+ * returns a Sound reminiscent of a trombone, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting trombone Sound with given pitch and duration
+ * @example trombone(60, 2);
+ */
+export function trombone(note: number, duration: number): Sound {
+  return to_stereo(mono.trombone(note, duration));
+}
+
+/**
+ * returns a Sound reminiscent of a violin, playing
+ * a given note for a given duration
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound resulting violin Sound with given pitch and duration
+ * @example violin(53, 4);
+ */
+export function violin(note: number, duration: number): Sound {
+  return to_stereo(mono.violin(note, duration));
+}
+
+/**
+ * Returns a Sound of a plucked string playing the given note for the given
+ * duration, using the Karplus-Strong algorithm: a short burst of noise
+ * circulates in a delay line as long as one period of the note, and is
+ * smoothed a little on every round trip, like a vibrating string that loses
+ * its higher harmonics first.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of a plucked string with given pitch and duration
+ * @example plucked_string(52, 2);
+ */
+export function plucked_string(note: number, duration: number): Sound {
+  return to_stereo(mono.plucked_string(note, duration));
+}
+
+/**
+ * Returns a Sound reminiscent of an electric piano, playing the given note
+ * for the given duration. The sound is made by frequency modulation: a
+ * modulator at the frequency of the note makes the sound bright at first,
+ * and a high, quickly fading modulator adds the metallic strike of the tine.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of an electric piano with given pitch and duration
+ * @example electric_piano(60, 2);
+ */
+export function electric_piano(note: number, duration: number): Sound {
+  return to_stereo(mono.electric_piano(note, duration));
+}
+
+/**
+ * Returns a Sound of a kick drum tuned to the given note, lasting for at
+ * most the given duration. The kick is a sine wave that quickly drops in
+ * pitch, with a click of low-pass filtered noise. MIDI note 36, the kick
+ * drum in General MIDI, gives a pitch of about 55 Hz.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of a kick drum
+ * @example kick_drum(36, 0.5);
+ */
+export function kick_drum(note: number, duration: number): Sound {
+  return to_stereo(mono.kick_drum(note, duration));
+}
+
+/**
+ * Returns a Sound of a snare drum tuned to the given note, lasting for at
+ * most the given duration. The snare is high-pass filtered noise, for the
+ * rattle of the snares, over a short tone for the drum head. MIDI note 38,
+ * the snare drum in General MIDI, gives a head tone of about 185 Hz.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of a snare drum
+ * @example snare_drum(38, 0.3);
+ */
+export function snare_drum(note: number, duration: number): Sound {
+  return to_stereo(mono.snare_drum(note, duration));
+}
+
+/**
+ * Returns a Sound of a closed hi-hat tuned to the given note, lasting for at
+ * most the given duration. The hi-hat is noise with everything below a high
+ * cutoff frequency filtered out. MIDI note 42, the closed hi-hat in
+ * General MIDI, gives a cutoff frequency of 7000 Hz.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of a closed hi-hat
+ * @example hi_hat(42, 0.1);
+ */
+export function hi_hat(note: number, duration: number): Sound {
+  return to_stereo(mono.hi_hat(note, duration));
+}
+
+/**
+ * Returns an organ instrument with the given drawbar settings. Like on a
+ * tonewheel organ, the nine drawbars control the levels of the 16', 5⅓',
+ * 8', 4', 2⅔', 2', 1⅗', 1⅓' and 1' harmonics, from 0 (off) to 8 (loudest).
+ * Missing drawbars at the end of the list are taken as 0.
+ * The instrument is a function from a MIDI note and a duration to a Sound.
+ *
+ * @param drawbars list of up to 9 integers from 0 to 8
+ * @return function from MIDI note and duration to Sound
+ * @example drawbar_organ(list(8, 8, 8))(60, 1);
+ */
+export function drawbar_organ(drawbars: List): SoundProducer {
+  const instrument = mono.drawbar_organ(drawbars);
+  return (note, duration) => to_stereo(instrument(note, duration));
+}
+
+/**
+ * Returns a Sound reminiscent of a tonewheel organ, playing the given note
+ * for the given duration, with the first three drawbars fully out.
+ * Use `drawbar_organ` for other drawbar settings.
+ *
+ * @param note MIDI note
+ * @param duration duration in seconds
+ * @return Sound of an organ with given pitch and duration
+ * @example organ(60, 2);
+ */
+export function organ(note: number, duration: number): Sound {
+  return to_stereo(mono.organ(note, duration));
+}
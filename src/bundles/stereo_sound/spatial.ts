@@ -0,0 +1,320 @@
+/**
+ * Spatialisation for the stereo sounds module. Every function returns a
+ * SoundTransformer, which places a Sound between or around the listener's
+ * ears. Transformers keep the duration of their input.
+ *
+ * Positions are given as angles in degrees, as seen from the listener:
+ * 0 is straight ahead, 90 is to the right, -90 is to the left and
+ * 180 is behind.
+ */
+
+/* eslint-disable @typescript-eslint/naming-convention */
+import { get_sample_rate } from '../sound/sounds';
+import {
+  get_duration,
+  get_left_wave,
+  get_right_wave,
+  make_stereo_sound,
+} from './functions';
+import type { Sound, SoundTransformer, Wave } from './types';
+
+// Radius of an average human head in metres
+const head_radius = 0.0875;
+
+// Speed of sound in air in metres per second
+const speed_of_sound = 343;
+
+// Largest difference in arrival time between the two ears, in seconds,
+// for a sound directly to one side
+const max_itd = (head_radius / speed_of_sound) * (1 + Math.PI / 2);
+
+// Smallest feedback gain still worth computing
+const feedback_threshold = 1e-4;
+
+function check_number(func_name: string, name: string, x: any, min: number, max: number): void {
+  if (typeof x !== 'number' || !(x >= min && x <= max)) {
+    throw new Error(
+      `${func_name} is expecting ${name} to be a number from ${min} to ${max}, but encountered ${x}`,
+    );
+  }
+}
+
+function check_positive(func_name: string, name: string, x: any): void {
+  if (typeof x !== 'number' || !(x > 0)) {
+    throw new Error(
+      `${func_name} is expecting ${name} to be a positive number, but encountered ${x}`,
+    );
+  }
+}
+
+// Average of both channels of the sound
+function mono_wave(sound: Sound): Wave {
+  const left = get_left_wave(sound);
+  const right = get_right_wave(sound);
+  return (t) => (left(t) + right(t)) / 2;
+}
+
+// The wave delayed by the given number of seconds, silent before it starts
+function delayed(wave: Wave, t: number, delay: number): number {
+  return t - delay < 0 ? 0 : wave(t - delay);
+}
+
+/**
+ * Makes a stereo Sound whose samples are computed in order by a generator,
+ * for generators that keep state from one sample to the next. Samples are
+ * computed on demand at the sample rate in use and remembered, and the
+ * waves interpolate between them.
+ */
+function sampled_stereo_sound(
+  duration: number,
+  make_generator: (sample_rate: number) => (t: number) => [number, number],
+): Sound {
+  const sample_rate = get_sample_rate();
+  const generator = make_generator(sample_rate);
+  const length = Math.ceil(duration * sample_rate) + 1;
+
+  let channels: [Float32Array, Float32Array] | undefined;
+  let computed = 0;
+
+  const channel_wave = (c: number): Wave => (t) => {
+    if (channels === undefined) {
+      channels = [new Float32Array(length), new Float32Array(length)];
+    }
+
+    const index = t * sample_rate;
+    const lower = Math.floor(index);
+    if (lower < 0 || lower >= length) {
+      return 0;
+    }
+    const upper = Math.min(lower + 1, length - 1);
+    while (computed <= upper) {
+      const [left, right] = generator(computed / sample_rate);
+      channels[0][computed] = left;
+      channels[1][computed] = right;
+      computed += 1;
+    }
+
+    const samples = channels[c];
+    const ratio = index - lower;
+    return samples[lower] * (1 - ratio) + samples[upper] * ratio;
+  };
+
+  return make_stereo_sound(channel_wave(0), channel_wave(1), duration);
+}
+
+/**
+ * Returns a SoundTransformer that pans a Sound while keeping its loudness
+ * the same at every position. Unlike `pan`, which makes a centred Sound
+ * quieter, the left and right gains follow a quarter of a cosine and a
+ * sine wave, so their powers always add up to the same total.
+ * The input Sound is first squashed to mono.
+ * An amount of `-1` is a hard left pan, `0` is centred, `1` is hard right pan.
+ *
+ * @param amount the pan amount, from -1 to 1
+ * @return a SoundTransformer that pans a Sound
+ * @example equal_power_pan(0.5)(sine_sound(440, 2));
+ */
+export function equal_power_pan(amount: number): SoundTransformer {
+  check_number('equal_power_pan', 'amount', amount, -1, 1);
+  const angle = ((amount + 1) * Math.PI) / 4;
+  const left_gain = Math.cos(angle);
+  const right_gain = Math.sin(angle);
+  return (sound) => {
+    const wave = mono_wave(sound);
+    return make_stereo_sound(
+      (t) => left_gain * wave(t),
+      (t) => right_gain * wave(t),
+      get_duration(sound),
+    );
+  };
+}
+
+/**
+ * Returns a SoundTransformer that places a Sound to one side by making it
+ * arrive at the far ear slightly later than at the near ear, which is how
+ * we tell the direction of low sounds. Both ears hear the Sound equally
+ * loud. The input Sound is first squashed to mono.
+ * An amount of `-1` is fully left, `0` is centred, `1` is fully right,
+ * where fully to one side delays the far ear by about 0.66 milliseconds.
+ *
+ * @param amount the pan amount, from -1 to 1
+ * @return a SoundTransformer that pans a Sound by time delay
+ * @example itd_pan(-1)(sine_sound(300, 2));
+ */
+export function itd_pan(amount: number): SoundTransformer {
+  check_number('itd_pan', 'amount', amount, -1, 1);
+  const delay = Math.abs(amount) * max_itd;
+  const left_delay = amount > 0 ? delay : 0;
+  const right_delay = amount < 0 ? delay : 0;
+  return (sound) => {
+    const wave = mono_wave(sound);
+    return make_stereo_sound(
+      (t) => delayed(wave, t, left_delay),
+      (t) => delayed(wave, t, right_delay),
+      get_duration(sound),
+    );
+  };
+}
+
+/**
+ * Returns a SoundTransformer that changes the stereo width of a Sound.
+ * The Sound is split into its mid (what both channels have in common) and
+ * its side (how they differ), and the side is scaled by the width.
+ * A width of `0` gives a mono Sound, `1` leaves the Sound unchanged and
+ * values above `1` exaggerate the difference between the channels.
+ *
+ * @param width scale of the side signal, a non-negative number
+ * @return a SoundTransformer that changes the stereo width of a Sound
+ * @example stereo_width(2)(make_stereo_sound(t => math_sin(2 * math_PI * 440 * t), t => math_sin(2 * math_PI * 442 * t), 2));
+ */
+export function stereo_width(width: number): SoundTransformer {
+  if (typeof width !== 'number' || !(width >= 0)) {
+    throw new Error(
+      `stereo_width is expecting width to be a non-negative number, but encountered ${width}`,
+    );
+  }
+  return (sound) => {
+    const left = get_left_wave(sound);
+    const right = get_right_wave(sound);
+    const mid = (t: number) => (left(t) + right(t)) / 2;
+    const side = (t: number) => ((left(t) - right(t)) / 2) * width;
+    return make_stereo_sound(
+      (t) => mid(t) + side(t),
+      (t) => mid(t) - side(t),
+      get_duration(sound),
+    );
+  };
+}
+
+/**
+ * Returns a SoundTransformer that adds echoes to a Sound which bounce
+ * between the left and right channels: the first echo is on the left,
+ * the second on the right, and so on. The echoes are every delay seconds,
+ * each quieter than the previous one by a factor of feedback, and are
+ * added to the original Sound according to mix.
+ *
+ * @param delay time between echoes in seconds
+ * @param feedback amplitude of each echo relative to the previous one, between 0 and 1
+ * @param mix amplitude of the first echo relative to the original Sound, between 0 and 1
+ * @return a SoundTransformer that adds ping-pong echoes to a Sound
+ * @example ping_pong_delay(0.25, 0.6, 0.5)(make_sound(t => t < 0.1 ? math_sin(2 * math_PI * 880 * t) : 0, 2));
+ */
+export function ping_pong_delay(
+  delay: number,
+  feedback: number,
+  mix: number,
+): SoundTransformer {
+  check_positive('ping_pong_delay', 'delay', delay);
+  check_number('ping_pong_delay', 'feedback', feedback, 0, 1);
+  check_number('ping_pong_delay', 'mix', mix, 0, 1);
+  return (sound) => {
+    const left = get_left_wave(sound);
+    const right = get_right_wave(sound);
+    const wave = mono_wave(sound);
+
+    // The echoes on one channel: the first one, third one etc. on the left
+    const echoes = (t: number, first: number) => {
+      let result = 0;
+      let gain = mix * feedback ** (first - 1);
+      for (let n = first; t - n * delay >= 0 && gain > feedback_threshold; n += 2) {
+        result += gain * wave(t - n * delay);
+        gain *= feedback * feedback;
+      }
+      return result;
+    };
+
+    return make_stereo_sound(
+      (t) => left(t) + echoes(t, 1),
+      (t) => right(t) + echoes(t, 2),
+      get_duration(sound),
+    );
+  };
+}
+
+/**
+ * Returns a SoundTransformer that places a Sound around the listener's
+ * head, at an angle that can change over time. The input Sound is first
+ * squashed to mono. Each ear hears it with the delay it takes sound to
+ * travel around the head, and the ear facing away hears high frequencies
+ * quieter, as they are shadowed by the head. This follows the spherical
+ * head model of Brown and Duda, a simple head-related transfer function
+ * (HRTF). Listen with headphones for the best effect.
+ *
+ * @param angle function from time in seconds to the angle of the Sound
+ * in degrees: 0 is ahead, 90 to the right, -90 to the left and 180 behind
+ * @return a SoundTransformer that positions a Sound around the head
+ * @example binaural(t => 90 * t)(noise_sound(4)); // Circles the head clockwise
+ */
+export function binaural(angle: (t: number) => number): SoundTransformer {
+  if (typeof angle !== 'function') {
+    throw new Error(
+      `binaural is expecting a function from time to angle, but encountered ${angle}`,
+    );
+  }
+  return (sound) => {
+    const wave = mono_wave(sound);
+    return sampled_stereo_sound(get_duration(sound), (sample_rate) => {
+      // The input is sampled once for both ears, so that they hear the same
+      // Sound even if its wave is random, such as noise
+      const input: number[] = [];
+      const input_at = (t: number) => {
+        const index = t * sample_rate;
+        const lower = Math.floor(index);
+        if (lower < 0) {
+          return 0;
+        }
+        while (input.length <= lower + 1) {
+          input.push(wave(input.length / sample_rate));
+        }
+        const ratio = index - lower;
+        return input[lower] * (1 - ratio) + input[lower + 1] * ratio;
+      };
+
+      // Head shadow filter of each ear, made discrete by the bilinear transform
+      const k = (sample_rate * head_radius) / speed_of_sound;
+      const make_ear = (ear_angle: number) => {
+        let previous_input = 0;
+        let previous_output = 0;
+        return (t: number, source_angle: number) => {
+          // Angle between the source and the direction the ear faces
+          const theta = Math.abs(
+            ((((source_angle - ear_angle) % 360) + 540) % 360) - 180,
+          ) * (Math.PI / 180);
+
+          // Sound reaches the ear around the head when it faces away
+          const delay = theta < Math.PI / 2
+            ? (head_radius / speed_of_sound) * (1 - Math.cos(theta))
+            : (head_radius / speed_of_sound) * (1 + theta - Math.PI / 2);
+
+          // High frequency gain: 2 facing the source, 0.1 at 150 degrees away
+          const alpha = 1.05 + 0.95 * Math.cos((theta * 180) / 150);
+
+          const x = input_at(t - delay);
+          const y = ((1 + alpha * k) * x
+              + (1 - alpha * k) * previous_input
+              - (1 - k) * previous_output)
+            / (1 + k);
+          previous_input = x;
+          previous_output = y;
+          return y;
+        };
+      };
+
+      const left_ear = make_ear(-90);
+      const right_ear = make_ear(90);
+      return (t) => {
+        const source_angle = angle(t);
+        if (typeof source_angle !== 'number') {
+          throw new Error(
+            `binaural is expecting the angle function to return a number, but encountered ${source_angle}`,
+          );
+        }
+        // Both ears together are about as loud as the input
+        return [
+          left_ear(t, source_angle) / 2,
+          right_ear(t, source_angle) / 2,
+        ];
+      };
+    });
+  };
+}
@@ -8,7 +8,4 @@ export type ErrorLogger = (
   error: string | string[],
   isSlangError?: boolean
 ) => void;
-export type AudioPlayed = {
-  toReplString: () => string;
-  dataUri: string;
-};
+export type { AudioPlayed, WavBitDepth } from '../sound/types';
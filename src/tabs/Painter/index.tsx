@@ -1,7 +1,9 @@
 import React from 'react';
-import type { LinePlot } from '../../bundles/painter/painter';
+import { ImageDrawing, type LinePlot } from '../../bundles/painter/painter';
 import type { DebuggerContext } from '../../typings/type_helpers';
 import Modal from '../common/modal_div';
+import PlotExport from '../common/plot_export';
+import PainterCanvas from './painter_canvas';
 
 type Props = {
   children?: never
@@ -31,7 +33,7 @@ class Painter extends React.Component<Props, State> {
   };
 
   public render() {
-    const { context: { moduleContexts: { painter: { state: { drawnPainters } } } } } = this.props.debuggerContext;
+    const { context: { moduleContexts: { painter: { state: { drawnPainters, exportFigure } } } } } = this.props.debuggerContext;
 
     return (
       <div>
@@ -57,17 +59,20 @@ class Painter extends React.Component<Props, State> {
         {
           drawnPainters.map((drawnPainter: any, id:number) => {
             const divId = `plotDiv${id}`;
+            if (ImageDrawing.isImageDrawing(drawnPainter)) {
+              return <PainterCanvas drawing={drawnPainter} key={divId} />;
+            }
             return (
-              <>
+              <div key={divId}>
                 <div onClick={() => this.handleOpen(drawnPainter)}>Click here to open Modal</div>
+                <PlotExport divId={divId} filename={`painter${id}`} exportFigure={exportFigure} />
                 <div
                   id={divId}
                   ref={() => {
-                    console.log(drawnPainter);
                     drawnPainter.draw(divId);
                   }}
                 ></div>
-              </>
+              </div>
             );
           })
         }
@@ -80,7 +85,6 @@ class Painter extends React.Component<Props, State> {
 export default {
   toSpawn(context: DebuggerContext) {
     const drawnPainters = context.context?.moduleContexts?.painter.state.drawnPainters;
-    console.log(drawnPainters);
     return drawnPainters.length > 0;
   },
   body: (debuggerContext: any) => <Painter debuggerContext={debuggerContext} />,
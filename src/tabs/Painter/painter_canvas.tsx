@@ -0,0 +1,61 @@
+import React from 'react';
+import type { ImageDrawing } from '../../bundles/painter/painter';
+
+type PainterCanvasProps = {
+  drawing: ImageDrawing;
+};
+
+type PainterCanvasState = {
+  /** Message of the error thrown while drawing, such as an image that did not load */
+  error: string | null;
+};
+
+// Width and height of the canvas, in pixels
+const canvas_size = 512;
+
+/**
+ * Canvas of a painter that paints images, which is drawn once
+ * all of its images have been loaded
+ */
+export default class PainterCanvas extends React.Component<
+PainterCanvasProps,
+PainterCanvasState
+> {
+  private $canvas: HTMLCanvasElement | null = null;
+
+  constructor(props: PainterCanvasProps | Readonly<PainterCanvasProps>) {
+    super(props);
+    this.state = {
+      error: null,
+    };
+  }
+
+  public componentDidMount() {
+    if (!this.$canvas) {
+      return;
+    }
+    this.props.drawing.draw(this.$canvas)
+      .catch((error) => this.setState({
+        error: error instanceof Error ? error.message : `${error}`,
+      }));
+  }
+
+  public render() {
+    return (
+      <>
+        <canvas
+          ref={(r) => {
+            this.$canvas = r;
+          }}
+          width={canvas_size}
+          height={canvas_size}
+          style={{
+            maxWidth: '100%',
+            background: 'white',
+          }}
+        />
+        {this.state.error && <p style={{ color: 'red' }}>{this.state.error}</p>}
+      </>
+    );
+  }
+}
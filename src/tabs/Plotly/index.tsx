@@ -1,7 +1,10 @@
 import React from 'react';
-import { type DrawnPlot } from '../../bundles/plotly/plotly';
+import { AnimatedPlot, type DrawnPlot, SliderPlot } from '../../bundles/plotly/plotly';
 import { type DebuggerContext } from '../../typings/type_helpers';
 import Modal from '../common/modal_div';
+import PlotExport from '../common/plot_export';
+import PlotAnimation from './plot_animation';
+import PlotSlider from './plot_slider';
 
 type Props = {
   children?: never
@@ -31,7 +34,7 @@ class Plotly extends React.Component<Props, State> {
   };
 
   public render() {
-    const { context: { moduleContexts: { plotly: { state: { drawnPlots } } } } } = this.props.debuggerContext;
+    const { context: { moduleContexts: { plotly: { state: { drawnPlots, exportFigure } } } } } = this.props.debuggerContext;
 
     return (
       <div>
@@ -54,9 +57,29 @@ class Plotly extends React.Component<Props, State> {
         {
           drawnPlots.map((drawnPlot: any, id:number) => {
             const divId = `plotDiv${id}`;
+            const plotExport = (
+              <PlotExport divId={divId} filename={`plot${id}`} exportFigure={exportFigure} />
+            );
+            if (AnimatedPlot.isAnimatedPlot(drawnPlot)) {
+              return (
+                <div key={divId}>
+                  {plotExport}
+                  <PlotAnimation animation={drawnPlot} divId={divId} />
+                </div>
+              );
+            }
+            if (SliderPlot.isSliderPlot(drawnPlot)) {
+              return (
+                <div key={divId}>
+                  {plotExport}
+                  <PlotSlider plot={drawnPlot} divId={divId} />
+                </div>
+              );
+            }
             return (
               <div style={{ height: '80vh' }} key={divId}>
                 <div onClick={() => this.handleOpen(drawnPlot)}>Click here to open Modal</div>
+                {plotExport}
                 <div
                   id={divId}
                   style={{ height: '80vh' }}
@@ -0,0 +1,27 @@
+import React from 'react';
+import type { AnimatedPlot } from '../../bundles/plotly/plotly';
+import AnimationPlayer from '../common/animation_player';
+
+type PlotAnimationProps = {
+  animation: AnimatedPlot;
+  divId: string;
+};
+
+/**
+ * Plotly plot that plays an AnimatedPlot, with the same controls as
+ * the AnimationCanvas of the Curve and Rune tabs
+ */
+export default function PlotAnimation({ animation, divId }: PlotAnimationProps) {
+  return (
+    <AnimationPlayer
+      duration={animation.duration}
+      fps={animation.fps}
+      drawFrame={(timestamp) => animation.drawFrame(divId, timestamp)}
+    >
+      <div
+        id={divId}
+        style={{ height: '70vh' }}
+      />
+    </AnimationPlayer>
+  );
+}
@@ -0,0 +1,79 @@
+import { Slider } from '@blueprintjs/core';
+import React from 'react';
+import type { SliderPlot } from '../../bundles/plotly/plotly';
+
+type PlotSliderProps = {
+  plot: SliderPlot;
+  divId: string;
+};
+
+type PlotSliderState = {
+  /** Current value of the parameter */
+  value: number;
+
+  /** Message of the error thrown while computing the plot */
+  error: string | null;
+};
+
+/**
+ * Plotly plot of a SliderPlot, which is drawn again whenever
+ * the slider of its parameter is moved
+ */
+export default class PlotSlider extends React.Component<
+PlotSliderProps,
+PlotSliderState
+> {
+  constructor(props: PlotSliderProps | Readonly<PlotSliderProps>) {
+    super(props);
+    this.state = {
+      value: props.plot.min,
+      error: null,
+    };
+  }
+
+  public componentDidMount() {
+    this.drawPlot();
+  }
+
+  private drawPlot = () => {
+    try {
+      this.props.plot.drawValue(this.props.divId, this.state.value);
+      this.setState({ error: null });
+    } catch (error) {
+      this.setState({ error: error instanceof Error ? error.message : `${error}` });
+    }
+  };
+
+  private onSliderChange = (value: number) => {
+    this.setState({ value }, this.drawPlot);
+  };
+
+  public render() {
+    const { min, max, step } = this.props.plot;
+    return (
+      <>
+        <div
+          id={this.props.divId}
+          style={{ height: '70vh' }}
+        />
+        {this.state.error && <p style={{ color: 'red' }}>{this.state.error}</p>}
+        <div
+          style={{
+            marginTop: '10px',
+            padding: '10px 30px',
+          }}
+        >
+          <Slider
+            value={this.state.value}
+            onChange={this.onSliderChange}
+            stepSize={step}
+            labelStepSize={(max - min) / 4}
+            labelPrecision={Math.max(0, -Math.floor(Math.log10(step)))}
+            min={min}
+            max={max}
+          />
+        </div>
+      </>
+    );
+  }
+}
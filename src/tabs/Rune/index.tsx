@@ -9,7 +9,7 @@ import MultiItemDisplay from '../common/multi_item_display';
 import { type DebuggerContext } from '../../typings/type_helpers';
 import AnimationCanvas from '../common/animation_canvas';
 import HollusionCanvas from './hollusion_canvas';
-import WebGLCanvas from '../common/webgl_canvas';
+import RuneInspector from './rune_inspector';
 
 export default {
   /**
@@ -49,14 +49,7 @@ export default {
         );
       }
       return (
-        <WebGLCanvas
-          ref={(r) => {
-            if (r) {
-              drawnRune.draw(r);
-            }
-          }}
-          key={elemKey}
-        />
+        <RuneInspector drawnRune={drawnRune} filename={`rune_${i + 1}`} key={elemKey} />
       );
     });
 
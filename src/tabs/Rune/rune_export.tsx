@@ -0,0 +1,46 @@
+import { Button, ButtonGroup } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import React from 'react';
+import type { Rune } from '../../bundles/rune/rune';
+import { runeToPng, runeToSvg, svgSize } from '../../bundles/rune/runes_export';
+
+// Side in pixels of the saved PNG images, larger than the canvas of the tab
+const pngSize = 2048;
+
+type RuneExportProps = {
+  rune: Rune;
+
+  /** Name of the saved files, without extension */
+  filename: string;
+};
+
+function download(url: string, filename: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+}
+
+/**
+ * Buttons that save a drawn rune as an SVG image, or as a PNG image
+ * of a higher resolution than the canvas
+ */
+export default function RuneExport({ rune, filename }: RuneExportProps) {
+  const onSvg = () => {
+    const url = URL.createObjectURL(new Blob([runeToSvg(rune, svgSize)], { type: 'image/svg+xml' }));
+    download(url, `${filename}.svg`);
+    URL.revokeObjectURL(url);
+  };
+  const onPng = () => download(runeToPng(rune, pngSize), `${filename}.png`);
+
+  return (
+    <ButtonGroup minimal>
+      <Button icon={IconNames.DOWNLOAD} onClick={onSvg}>
+        SVG
+      </Button>
+      <Button icon={IconNames.DOWNLOAD} onClick={onPng}>
+        PNG
+      </Button>
+    </ButtonGroup>
+  );
+}
@@ -0,0 +1,365 @@
+import {
+  Button,
+  ButtonGroup,
+  Collapse,
+  Tree,
+  type TreeNodeInfo,
+} from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import { mat4, vec3 } from 'gl-matrix';
+import React from 'react';
+import type { DrawnRune, Rune } from '../../bundles/rune/rune';
+import {
+  findRuneAt,
+  getNodeTriangles,
+  getRuneTree,
+  getRuneTriangles,
+  type RuneNode,
+} from '../../bundles/rune/runes_inspect';
+import WebGLCanvas from '../common/webgl_canvas';
+import RuneExport from './rune_export';
+
+const minZoom = 0.25;
+const maxZoom = 256;
+
+// Zoom of each click on the zoom buttons
+const zoomStep = 2;
+
+const highlightColor = '#FF9800';
+
+/** Zoom and pan of the drawing area, in the coordinates of the canvas from -1 to 1 */
+type View = {
+  zoom: number;
+  pan: [number, number];
+};
+
+const initialView: View = {
+  zoom: 1,
+  pan: [0, 0],
+};
+
+type RuneInspectorProps = {
+  drawnRune: DrawnRune;
+
+  /** Name of the saved files, without extension */
+  filename: string;
+};
+
+function viewMatrix({ zoom, pan }: View): mat4 {
+  const matrix = mat4.fromTranslation(mat4.create(), vec3.fromValues(pan[0], pan[1], 0));
+  return mat4.scale(matrix, matrix, vec3.fromValues(zoom, zoom, 1));
+}
+
+// Zooms the view by the factor, keeping the point (x,y) of the canvas in place
+function zoomView({ zoom, pan }: View, factor: number, x: number, y: number): View {
+  const newZoom = Math.min(maxZoom, Math.max(minZoom, zoom * factor));
+  const scale = newZoom / zoom;
+  return {
+    zoom: newZoom,
+    pan: [x - (x - pan[0]) * scale, y - (y - pan[1]) * scale],
+  };
+}
+
+// The coordinates from -1 to 1 of the canvas at the mouse, with y pointing up
+function canvasPoint(canvas: HTMLCanvasElement, e: { clientX: number; clientY: number }): [number, number] {
+  const rect = canvas.getBoundingClientRect();
+  return [
+    ((e.clientX - rect.left) / rect.width) * 2 - 1,
+    1 - ((e.clientY - rect.top) / rect.height) * 2,
+  ];
+}
+
+function pathKey(path: number[]): string {
+  return path.length === 0 ? 'rune' : path.join('.');
+}
+
+function nodeName({ path }: RuneNode): string {
+  if (path.length === 0) {
+    return 'Rune';
+  }
+  const indices = path.map((i) => i + 1);
+  return `Sub rune ${indices.join(' > ')}`;
+}
+
+function describeRune(rune: Rune): string {
+  const parts: string[] = [];
+  if (rune.vertices.length > 0) {
+    parts.push(`${rune.vertices.length / 12} triangles`);
+  }
+  if (rune.subRunes.length > 0) {
+    parts.push(`${rune.subRunes.length} sub runes`);
+  }
+  if (rune.colors !== null) {
+    parts.push(`color (${Array.from(rune.colors, (c) => c.toFixed(2))
+      .join(', ')})`);
+  }
+  if (rune.gradient !== null) {
+    parts.push(rune.gradient.isRadial ? 'radial gradient' : 'linear gradient');
+  }
+  if (rune.texture !== null) {
+    parts.push('image');
+  }
+  return parts.join(', ');
+}
+
+// The transformation matrix of the rune, row by row
+function MatrixTable({ matrix }: { matrix: mat4 }) {
+  return (
+    <table style={{
+      fontFamily: 'monospace',
+      textAlign: 'right',
+    }}>
+      <tbody>
+        {[0, 1, 2, 3].map((row) => (
+          <tr key={row}>
+            {[0, 1, 2, 3].map((column) => (
+              <td key={column} style={{ paddingRight: 8 }}>
+                {matrix[column * 4 + row].toFixed(3)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * The canvas of a drawn rune, which can be zoomed with the mouse wheel and
+ * panned by dragging, and which highlights the sub rune under the cursor.
+ * Below it is a tree of the sub runes with their transformation matrices.
+ */
+export default function RuneInspector({ drawnRune, filename }: RuneInspectorProps) {
+  const glCanvas = React.useRef<HTMLCanvasElement | null>(null);
+  const overlayCanvas = React.useRef<HTMLCanvasElement | null>(null);
+  const drag = React.useRef<{ start: [number, number]; pan: [number, number]; moved: boolean } | null>(null);
+  const hoverFrame = React.useRef<number | null>(null);
+  const hoverPoint = React.useRef<[number, number]>([0, 0]);
+  const [view, setView] = React.useState(initialView);
+  const [hovered, setHovered] = React.useState<RuneNode | null>(null);
+  const [selected, setSelected] = React.useState<RuneNode | null>(null);
+  const [expanded, setExpanded] = React.useState(() => new Set(['rune']));
+  const [showTree, setShowTree] = React.useState(false);
+  const tree = React.useMemo(() => getRuneTree(drawnRune.rune), [drawnRune]);
+  const triangles = React.useMemo(() => getRuneTriangles(tree), [tree]);
+
+  React.useEffect(() => {
+    if (glCanvas.current) {
+      drawnRune.draw(glCanvas.current, viewMatrix(view));
+    }
+  }, [drawnRune, view]);
+
+  // outlines the hovered or selected rune over the drawing
+  React.useEffect(() => {
+    const canvas = overlayCanvas.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) {
+      return;
+    }
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const node = hovered ?? selected;
+    if (node === null) {
+      return;
+    }
+    const toCanvas = ([x, y]: vec3): [number, number] => [
+      ((view.zoom * x + view.pan[0] + 1) / 2) * canvas.width,
+      ((1 - view.zoom * y - view.pan[1]) / 2) * canvas.height,
+    ];
+    ctx.beginPath();
+    getNodeTriangles(node, triangles)
+      .forEach((triangle) => {
+        const [a, b, c] = triangle.map(toCanvas);
+        ctx.moveTo(...a);
+        ctx.lineTo(...b);
+        ctx.lineTo(...c);
+        ctx.closePath();
+      });
+    ctx.fillStyle = `${highlightColor}40`;
+    ctx.fill();
+    ctx.strokeStyle = highlightColor;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+  }, [hovered, selected, view, triangles]);
+
+  // wheel events are not passive here, so that they do not scroll the page
+  React.useEffect(() => {
+    const canvas = overlayCanvas.current;
+    if (!canvas) {
+      return undefined;
+    }
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const [x, y] = canvasPoint(canvas, e);
+      setView((current) => zoomView(current, Math.exp(-e.deltaY / 500), x, y));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // a hover that is still waiting for its animation frame is dropped
+  const cancelHover = () => {
+    if (hoverFrame.current !== null) {
+      cancelAnimationFrame(hoverFrame.current);
+      hoverFrame.current = null;
+    }
+  };
+
+  React.useEffect(() => cancelHover, []);
+
+  // the point of the drawing area at the mouse
+  const drawingPoint = (e: React.MouseEvent<HTMLCanvasElement>): [number, number] => {
+    const [x, y] = canvasPoint(e.currentTarget, e);
+    return [(x - view.pan[0]) / view.zoom, (y - view.pan[1]) / view.zoom];
+  };
+
+  const runeAt = (e: React.MouseEvent<HTMLCanvasElement>) => findRuneAt(tree, triangles, ...drawingPoint(e));
+
+  // finds the hovered rune at most once per animation frame, at the last
+  // point of the mouse
+  const hoverAt = (point: [number, number]) => {
+    hoverPoint.current = point;
+    if (hoverFrame.current === null) {
+      hoverFrame.current = requestAnimationFrame(() => {
+        hoverFrame.current = null;
+        setHovered(findRuneAt(tree, triangles, ...hoverPoint.current));
+      });
+    }
+  };
+
+  const onMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    drag.current = {
+      start: canvasPoint(e.currentTarget, e),
+      pan: view.pan,
+      moved: false,
+    };
+  };
+
+  const onMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (drag.current === null) {
+      hoverAt(drawingPoint(e));
+      return;
+    }
+    const [x, y] = canvasPoint(e.currentTarget, e);
+    const { start, pan } = drag.current;
+    drag.current.moved = true;
+    setView((current) => ({
+      ...current,
+      pan: [pan[0] + x - start[0], pan[1] + y - start[1]],
+    }));
+  };
+
+  // clicking a rune without dragging selects it and shows it in the tree
+  const onMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (drag.current !== null && !drag.current.moved) {
+      const node = runeAt(e);
+      setSelected(node);
+      if (node !== null) {
+        // expands the runes that contain it
+        setExpanded((current) => new Set([
+          ...current,
+          ...node.path.map((_, i) => pathKey(node.path.slice(0, i))),
+        ]));
+        setShowTree(true);
+      }
+    }
+    drag.current = null;
+  };
+
+  const onMouseLeave = () => {
+    drag.current = null;
+    cancelHover();
+    setHovered(null);
+  };
+
+  const toTreeNode = (node: RuneNode): TreeNodeInfo<RuneNode> => {
+    const key = pathKey(node.path);
+    const isExpanded = expanded.has(key);
+    return {
+      id: key,
+      label: nodeName(node),
+      secondaryLabel: describeRune(node.rune),
+      hasCaret: true,
+      isExpanded,
+      isSelected: selected !== null && pathKey(selected.path) === key,
+      nodeData: node,
+      childNodes: isExpanded
+        ? [
+          {
+            id: `${key}-matrix`,
+            label: <MatrixTable matrix={node.rune.transformMatrix} />,
+            disabled: true,
+          },
+          ...node.children.map(toTreeNode),
+        ]
+        : undefined,
+    };
+  };
+
+  const setNodeExpanded = (node: TreeNodeInfo<RuneNode>, isExpanded: boolean) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (isExpanded) {
+        next.add(String(node.id));
+      } else {
+        next.delete(String(node.id));
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div>
+      <div style={{ position: 'relative' }}>
+        <WebGLCanvas ref={glCanvas} />
+        <WebGLCanvas
+          ref={overlayCanvas}
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            cursor: 'crosshair',
+          }}
+          onMouseDown={onMouseDown}
+          onMouseMove={onMouseMove}
+          onMouseUp={onMouseUp}
+          onMouseLeave={onMouseLeave}
+        />
+      </div>
+      <p>
+        {hovered === null
+          ? 'Scroll to zoom, drag to pan, and click a rune to show it in the tree of sub runes.'
+          : `${nodeName(hovered)}: ${describeRune(hovered.rune)}`}
+      </p>
+      <ButtonGroup minimal>
+        <Button
+          icon={IconNames.ZOOM_IN}
+          onClick={() => setView((current) => zoomView(current, zoomStep, 0, 0))}
+        />
+        <Button
+          icon={IconNames.ZOOM_OUT}
+          onClick={() => setView((current) => zoomView(current, 1 / zoomStep, 0, 0))}
+        />
+        <Button icon={IconNames.ZOOM_TO_FIT} onClick={() => setView(initialView)}>
+          {`${view.zoom.toFixed(2)}x`}
+        </Button>
+        <Button
+          icon={showTree ? IconNames.CHEVRON_UP : IconNames.DIAGRAM_TREE}
+          onClick={() => setShowTree(!showTree)}
+        >
+          Sub runes
+        </Button>
+      </ButtonGroup>
+      <RuneExport rune={drawnRune.rune} filename={filename} />
+      <Collapse isOpen={showTree}>
+        <Tree
+          contents={[toTreeNode(tree)]}
+          onNodeExpand={(node) => setNodeExpanded(node, true)}
+          onNodeCollapse={(node) => setNodeExpanded(node, false)}
+          onNodeClick={(node) => setSelected(node.nodeData ?? null)}
+          onNodeMouseEnter={(node) => setHovered(node.nodeData ?? null)}
+          onNodeMouseLeave={() => setHovered(null)}
+        />
+      </Collapse>
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import classNames from 'classnames';
 import React from 'react';
 import { Button, Classes } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import { MAX_COLUMNS, MAX_ROWS } from '../../bundles/sound_matrix/constants';
+import { decode_pattern, encode_pattern, set_grid } from '../../bundles/sound_matrix/grid';
+import type { ToneMatrixState } from '../../bundles/sound_matrix/types';
+import type { DebuggerContext } from '../../typings/type_helpers';
+import MatrixPlayer from './matrix_player';
 
 /**
  * Tab for Sound Matrix
@@ -8,50 +14,250 @@ import { Button, Classes } from '@blueprintjs/core';
  * @author Koh Shang Hui
  */
 
+const color_white: string = '#ffffff'; // color of the highlighted square
+const color_white_2: string = '#666666'; // color of the adjacent squares
+const color_white_3: string = '#444444'; // color of the squares that are two units from the highlighted square
+const color_on: string = '#cccccc';
+const color_off: string = '#333333';
+const color_playhead: string = '#3d3d3d'; // color of the squares that are off in the playing column
+
+// the side length of the squares in the matrix
+const square_side_length: number = 18;
+
+// the distance between two adjacent squares in the matrix
+const distance_between_squares: number = 6;
+
+// margin of the canvas
+const margin_length: number = 20;
+
+// squares around a highlighted square that ripple with it,
+// with the row and column offsets of each square
+const adjacent_1 = [[0, -1], [0, 1], [-1, 0], [1, 0]];
+const adjacent_2 = [
+  [0, -2], [1, -1], [2, 0], [1, 1], [0, 2], [-1, 1], [-2, 0], [-1, -1],
+];
+
 /**
  * React Component props for the Tab.
  */
 type Props = {
   children?: never;
   className?: never;
-  context?: any;
+  state: ToneMatrixState;
 };
 
 /**
  * React Component state for the Tab.
  */
-type State = {};
+type State = {
+  isPlaying: boolean;
+  error: string | null;
+  message: string | null;
+};
+
+function to_position(index: number): number {
+  return margin_length + index * (square_side_length + distance_between_squares);
+}
 
 /**
  * The main React Component of the Tab.
  */
 class SoundMatrix extends React.Component<Props, State> {
-  private $container: HTMLElement | null = null;
+  private $canvas: HTMLCanvasElement | null = null;
+
+  private readonly player: MatrixPlayer;
 
-  constructor(props) {
+  private frame: number | null = null;
+
+  constructor(props: Props) {
     super(props);
-    this.state = {};
+    this.state = {
+      isPlaying: false,
+      error: null,
+      message: null,
+    };
+    this.player = new MatrixPlayer(props.state);
   }
 
   public componentDidMount() {
-    if ((window as any).ToneMatrix) {
-      (window as any).ToneMatrix.initialise_matrix(this.$container!);
-    }
+    this.draw();
   }
 
-  public shouldComponentUpdate() {
-    return false;
+  public componentWillUnmount() {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+    }
+    this.player.close();
   }
 
   public handleClear = () => {
-    (window as any).ToneMatrix.clear_matrix();
+    const { state } = this.props;
+    state.matrix = state.matrix.map((row) => row.map(() => false));
+    this.draw();
   };
 
   public handleRandomise = () => {
-    (window as any).ToneMatrix.randomise_matrix();
+    const { state } = this.props;
+    state.matrix = state.matrix.map((row) => row.map(() => Math.random() > 0.9));
+    this.draw();
+  };
+
+  // The clipboard is missing outside of secure contexts and in some frames,
+  // in which case the pattern is shown to be copied by hand
+  public handleCopy = () => {
+    const pattern = encode_pattern(this.props.state.matrix);
+    const showPattern = () => this.setState({
+      error: null,
+      message: `Copy this pattern: ${pattern}`,
+    });
+    if (!navigator.clipboard?.writeText) {
+      showPattern();
+      return;
+    }
+    navigator.clipboard.writeText(pattern)
+      .then(
+        () => this.setState({
+          error: null,
+          message: `Copied pattern ${pattern}`,
+        }),
+        showPattern,
+      );
+  };
+
+  public handlePaste = () => {
+    const promptPattern = () => window.prompt('Paste a pattern of the tone matrix') ?? '';
+    if (!navigator.clipboard?.readText) {
+      this.loadPattern(promptPattern());
+      return;
+    }
+    navigator.clipboard.readText()
+      .catch(promptPattern)
+      .then((text) => this.loadPattern(text));
+  };
+
+  private loadPattern = (text: string) => {
+    const matrix = decode_pattern(text);
+    if (
+      matrix === null
+      || matrix.length > MAX_ROWS
+      || matrix[0].length > MAX_COLUMNS
+    ) {
+      this.setState({
+        error: `Not a pattern of the tone matrix: ${text}`,
+        message: null,
+      });
+      return;
+    }
+    set_grid(this.props.state, matrix);
+    this.setState({
+      error: null,
+      message: 'Pasted pattern',
+    });
+    if (this.player.isPlaying) {
+      // The rows may have changed, so their notes are rendered again
+      this.player.start();
+    }
+    this.draw();
+  };
+
+  public handlePlay = () => {
+    if (this.player.isPlaying) {
+      this.player.stop();
+      this.setState({ isPlaying: false }, this.draw);
+      return;
+    }
+    try {
+      this.player.start();
+    } catch (error) {
+      this.setState({
+        error: `The instrument could not play a note: ${error instanceof Error ? error.message : error}`,
+      });
+      return;
+    }
+    this.setState({
+      isPlaying: true,
+      error: null,
+    }, this.animate);
+  };
+
+  public handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const { matrix } = this.props.state;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const step = square_side_length + distance_between_squares;
+    const row = Math.floor((event.clientY - rect.top - margin_length) / step);
+    const column = Math.floor((event.clientX - rect.left - margin_length) / step);
+    if (row < 0 || row >= matrix.length || column < 0 || column >= matrix[0].length) {
+      return;
+    }
+    matrix[row][column] = !matrix[row][column];
+    this.draw();
+  };
+
+  private animate = () => {
+    this.draw();
+    this.frame = this.player.isPlaying ? requestAnimationFrame(this.animate) : null;
+  };
+
+  // redraw the matrix according to its current state,
+  // highlighting the squares that are on in the column being played
+  private draw = () => {
+    const canvas = this.$canvas;
+    if (!canvas) {
+      return;
+    }
+    const { matrix } = this.props.state;
+    const rows = matrix.length;
+    const columns = matrix[0].length;
+    const width = to_position(columns) - distance_between_squares + margin_length;
+    const height = to_position(rows) - distance_between_squares + margin_length;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return;
+    }
+    ctx.clearRect(0, 0, width, height);
+
+    const playing = this.player.currentColumn();
+    const colors = matrix.map((row) => row.map((on) => (on ? color_on : color_off)));
+    const set_color = (row: number, column: number, color: string) => {
+      if (row >= 0 && row < rows && column >= 0 && column < columns && !matrix[row][column]) {
+        colors[row][column] = color;
+      }
+    };
+
+    if (playing >= 0) {
+      for (let i = 0; i < rows; i++) {
+        set_color(i, playing, color_playhead);
+      }
+      for (let i = 0; i < rows; i++) {
+        if (matrix[i][playing]) {
+          // if a particular square is on, highlight itself
+          // and the neighboring squares in the animation
+          colors[i][playing] = color_white;
+          adjacent_1.forEach(([dr, dc]) => {
+            set_color(i + dr, playing + dc, color_white_2);
+          });
+          adjacent_2.forEach(([dr, dc]) => {
+            set_color(i + dr, playing + dc, color_white_3);
+          });
+        }
+      }
+    }
+
+    colors.forEach((row, i) => {
+      row.forEach((color, j) => {
+        ctx.fillStyle = color;
+        ctx.fillRect(to_position(j), to_position(i), square_side_length, square_side_length);
+      });
+    });
   };
 
   public render() {
+    const { bpm, notes } = this.props.state;
     return (
       <div className="sa-tone-matrix">
         <div className="row">
@@ -63,22 +269,42 @@ class SoundMatrix extends React.Component<Props, State> {
               Classes.BUTTON_GROUP,
             )}
           >
+            <Button
+              id="play-matrix"
+              icon={this.state.isPlaying ? IconNames.STOP : IconNames.PLAY}
+              onClick={this.handlePlay}
+            >
+              {this.state.isPlaying ? 'Stop' : 'Play'}
+            </Button>
             <Button id="clear-matrix" onClick={this.handleClear}>
               Clear
             </Button>
             <Button id="randomise-matrix" onClick={this.handleRandomise}>
               Randomise
             </Button>
+            <Button id="copy-matrix" icon={IconNames.DUPLICATE} onClick={this.handleCopy}>
+              Copy pattern
+            </Button>
+            <Button id="paste-matrix" icon={IconNames.CLIPBOARD} onClick={this.handlePaste}>
+              Paste pattern
+            </Button>
           </div>
         </div>
         <div className="row">
-          <div
-            className="col-xs-12"
-            ref={(r) => {
-              this.$container = r;
-            }}
-          />
+          <div className="col-xs-12">
+            <canvas
+              ref={(r) => {
+                this.$canvas = r;
+              }}
+              onClick={this.handleClick}
+            />
+          </div>
         </div>
+        <p>
+          {notes.length} rows × {this.props.state.matrix[0].length} columns at {bpm} beats per minute
+        </p>
+        {this.state.message && <p>{this.state.message}</p>}
+        {this.state.error && <p style={{ color: 'red' }}>{this.state.error}</p>}
       </div>
     );
   }
@@ -87,18 +313,20 @@ class SoundMatrix extends React.Component<Props, State> {
 export default {
   /**
    * This function will be called to determine if the component will be
-   * rendered. Currently spawns when the result in the REPL is "test".
+   * rendered. Spawns whenever the sound_matrix module is imported.
    * @param {DebuggerContext} context
    * @returns {boolean}
    */
-  toSpawn: (context: any) => context.result.value === 'test',
+  toSpawn: (context: DebuggerContext) => context.context?.moduleContexts?.sound_matrix?.state !== undefined,
 
   /**
    * This function will be called to render the module tab in the side contents
    * on Source Academy frontend.
    * @param {DebuggerContext} context
    */
-  body: (context: any) => <SoundMatrix context={context} />,
+  body: (context: DebuggerContext) => (
+    <SoundMatrix state={context.context.moduleContexts.sound_matrix.state} />
+  ),
 
   /**
    * The Tab's icon tooltip in the side contents on Source Academy frontend.
@@ -0,0 +1,164 @@
+import { NOTE_COLUMNS } from '../../bundles/sound_matrix/constants';
+import type { ToneMatrixState } from '../../bundles/sound_matrix/types';
+import { renderSoundSync } from '../../bundles/sound/render';
+
+/**
+ * How far ahead of the audio clock columns are scheduled, in seconds
+ */
+const LOOKAHEAD = 0.1;
+
+/**
+ * How often the scheduler runs, in milliseconds
+ */
+const SCHEDULE_INTERVAL = 25;
+
+type ScheduledColumn = {
+  column: number;
+  time: number;
+};
+
+/**
+ * Plays a tone matrix in a loop, one column after another. Changes to the
+ * squares of the matrix are heard from the next column that is scheduled,
+ * and changes to the tempo, notes or instrument when playback restarts.
+ */
+export default class MatrixPlayer {
+  private audioContext: AudioContext | null = null;
+
+  private gain: GainNode | null = null;
+
+  // Rendered note of each row, from the top row to the bottom row
+  private buffers: AudioBuffer[] = [];
+
+  private timer: number | null = null;
+
+  private nextColumn = 0;
+
+  private nextTime = 0;
+
+  // Columns that have been scheduled but may not have started yet
+  private scheduled: ScheduledColumn[] = [];
+
+  constructor(private readonly state: ToneMatrixState) {}
+
+  public get isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Renders the notes of every row with the instrument, and starts playing
+   * from the first column. Errors thrown by the instrument are passed on.
+   */
+  public start(): void {
+    this.stop();
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+      this.gain = this.audioContext.createGain();
+      this.gain.connect(this.audioContext.destination);
+    }
+    this.buffers = this.renderNotes(this.audioContext);
+
+    this.nextColumn = 0;
+    this.nextTime = this.audioContext.currentTime + 0.05;
+    this.scheduleColumns();
+    this.timer = window.setInterval(this.scheduleColumns, SCHEDULE_INTERVAL);
+  }
+
+  /**
+   * Stops scheduling columns, and silences the notes that are playing.
+   */
+  public stop(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.scheduled = [];
+    if (this.audioContext && this.gain) {
+      // Replace the output, so that the scheduled notes are no longer heard
+      this.gain.disconnect();
+      this.gain = this.audioContext.createGain();
+      this.gain.connect(this.audioContext.destination);
+    }
+  }
+
+  /**
+   * Stops playing and releases the audio device.
+   */
+  public close(): void {
+    this.stop();
+    if (this.audioContext) {
+      this.audioContext.close();
+      this.audioContext = null;
+      this.gain = null;
+    }
+  }
+
+  /**
+   * The column that is being heard, or -1 if the matrix is not playing
+   */
+  public currentColumn(): number {
+    if (!this.audioContext || !this.isPlaying) {
+      return -1;
+    }
+    const now = this.audioContext.currentTime;
+    while (this.scheduled.length > 1 && this.scheduled[1].time <= now) {
+      this.scheduled.shift();
+    }
+    const current = this.scheduled[0];
+    return current !== undefined && current.time <= now ? current.column : -1;
+  }
+
+  private get columnDuration(): number {
+    return 60 / this.state.bpm;
+  }
+
+  private renderNotes(audioContext: AudioContext): AudioBuffer[] {
+    const duration = NOTE_COLUMNS * this.columnDuration;
+    const { sampleRate } = audioContext;
+    const rendered = new Map<number, AudioBuffer>();
+    return this.state.notes.map((note) => {
+      let buffer = rendered.get(note);
+      if (buffer === undefined) {
+        const samples = renderSoundSync(this.state.instrument(note, duration), sampleRate);
+        buffer = audioContext.createBuffer(1, Math.max(1, samples.length), sampleRate);
+        buffer.copyToChannel(samples, 0);
+        rendered.set(note, buffer);
+      }
+      return buffer;
+    });
+  }
+
+  private scheduleColumns = () => {
+    const { audioContext, gain } = this;
+    if (!audioContext || !gain) {
+      return;
+    }
+    const { matrix } = this.state;
+    const columns = matrix[0].length;
+
+    while (this.nextTime < audioContext.currentTime + LOOKAHEAD) {
+      const column = this.nextColumn % columns;
+      const rows = matrix
+        .map((row, i) => (row[column] ? i : -1))
+        .filter((i) => i >= 0 && i < this.buffers.length);
+
+      // Like simultaneously, the notes of a column share the volume
+      const columnGain = audioContext.createGain();
+      columnGain.gain.value = 1 / Math.max(1, rows.length);
+      columnGain.connect(gain);
+      rows.forEach((i) => {
+        const source = audioContext.createBufferSource();
+        source.buffer = this.buffers[i];
+        source.connect(columnGain);
+        source.start(this.nextTime);
+      });
+
+      this.scheduled.push({
+        column,
+        time: this.nextTime,
+      });
+      this.nextColumn = column + 1;
+      this.nextTime += this.columnDuration;
+    }
+  };
+}
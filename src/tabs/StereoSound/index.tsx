@@ -1,6 +1,7 @@
 import React from 'react';
 import type { DebuggerContext } from '../../typings/type_helpers';
 import MultiItemDisplay from '../common/multi_item_display';
+import SoundPlayer from '../common/sound_player';
 
 /**
  * Tab for Source Academy Sounds Module
@@ -14,7 +15,7 @@ export default {
    * rendered.
    * @returns {boolean}
    */
-  toSpawn(context: any) {
+  toSpawn(context: DebuggerContext) {
     const audioPlayed = context.context?.moduleContexts?.stereo_sound?.state?.audioPlayed;
     return audioPlayed.length > 0;
   },
@@ -25,20 +26,15 @@ export default {
    */
   body(context: DebuggerContext) {
     const audioPlayed = context.context?.moduleContexts.stereo_sound.state.audioPlayed;
-    const elements = audioPlayed.map((audio) => (
-      <audio
-        src={audio.dataUri}
-        controls
-        id="sound-tab-player"
-        style={{ width: '100%' }}
-      />
-    ));
+    const elements = audioPlayed.map((audio) => <SoundPlayer audio={audio} />);
 
     return (
       <div>
         <p id="sound-default-text">
           The sound tab gives you control over your custom sounds. You can play,
-          pause, adjust the volume and download your sounds.
+          pause, adjust the volume and download your sounds. Below each sound
+          are its waveform, its spectrum at the current playback position and
+          its spectrogram, with both channels mixed together.
           <br />
           <br />
           <MultiItemDisplay elements={elements} />
@@ -0,0 +1,326 @@
+import { Button, Icon, Slider, Switch } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import { Tooltip2 } from '@blueprintjs/popover2';
+import React from 'react';
+
+type AnimationPlayerProps = {
+  /** Duration of the animation in seconds */
+  duration: number;
+
+  /** Number of frames drawn per second */
+  fps: number;
+
+  /**
+   * Draws the frame at the given time in seconds, and throws if the frame
+   * could not be computed
+   */
+  drawFrame: (timestamp: number) => void;
+
+  /** The element that the frames are drawn on */
+  children: React.ReactNode;
+};
+
+type AnimationPlayerState = {
+  /** Timestamp of the animation in milliseconds */
+  animTimestamp: number;
+
+  /** Boolean value indicating if the animation is playing */
+  isPlaying: boolean;
+
+  /** Previous value of `isPlaying` */
+  wasPlaying: boolean;
+
+  /** Boolean value indicating if auto play is selected */
+  autoPlay: boolean;
+
+  /** Message of the error thrown while drawing a frame */
+  error: string | null;
+};
+
+/**
+ * Plays an animation drawn by the given `drawFrame` on its children, with
+ * play, reset and auto play controls and a slider for the timestamp
+ */
+export default class AnimationPlayer extends React.Component<
+AnimationPlayerProps,
+AnimationPlayerState
+> {
+  /**
+   * The duration of one frame in milliseconds
+   */
+  private readonly frameDuration: number;
+
+  /**
+   * The duration of the entire animation
+   */
+  private readonly animationDuration: number;
+
+  /**
+   * Last timestamp since the previous `requestAnimationFrame` call
+   */
+  private callbackTimestamp: number | null;
+
+  /**
+   * Whether the component is shown, so that frames can be drawn
+   */
+  private mounted = false;
+
+  constructor(props: AnimationPlayerProps | Readonly<AnimationPlayerProps>) {
+    super(props);
+
+    this.state = {
+      animTimestamp: 0,
+      isPlaying: false,
+      wasPlaying: false,
+      autoPlay: true,
+      error: null,
+    };
+
+    this.frameDuration = 1000 / props.fps;
+    this.animationDuration = Math.round(props.duration * 1000);
+    this.callbackTimestamp = null;
+  }
+
+  public componentDidMount() {
+    this.mounted = true;
+    this.drawFrame();
+  }
+
+  public componentWillUnmount() {
+    this.mounted = false;
+  }
+
+  /**
+   * Draws the frame at the current timestamp, and stops the animation
+   * if the frame could not be drawn
+   */
+  private drawFrame = () => {
+    try {
+      this.props.drawFrame(this.state.animTimestamp / 1000);
+    } catch (error) {
+      this.setState({
+        isPlaying: false,
+        error: error instanceof Error ? error.message : `${error}`,
+      });
+    }
+  };
+
+  private reqFrame = () => requestAnimationFrame(this.animationCallback);
+
+  private startAnimation = () => this.setState(
+    {
+      isPlaying: true,
+    },
+    this.reqFrame,
+  );
+
+  private stopAnimation = () => this.setState(
+    {
+      isPlaying: false,
+    },
+    () => {
+      this.callbackTimestamp = null;
+    },
+  );
+
+  /**
+   * Callback to use with `requestAnimationFrame`
+   */
+  private animationCallback = (timeInMs: number) => {
+    if (!this.mounted || !this.state.isPlaying) return;
+
+    if (!this.callbackTimestamp) {
+      this.callbackTimestamp = timeInMs;
+      this.drawFrame();
+      this.reqFrame();
+      return;
+    }
+
+    const currentFrame = timeInMs - this.callbackTimestamp;
+
+    if (currentFrame < this.frameDuration) {
+      // Not time to draw a new frame yet
+      this.reqFrame();
+      return;
+    }
+
+    this.callbackTimestamp = timeInMs;
+    if (this.state.animTimestamp >= this.animationDuration) {
+      // Animation has ended
+      if (this.state.autoPlay) {
+        // If autoplay is active, reset the animation
+        this.setState(
+          {
+            animTimestamp: 0,
+          },
+          this.reqFrame,
+        );
+      } else {
+        // Otherwise, stop the animation
+        this.stopAnimation();
+      }
+    } else {
+      // Animation hasn't ended, so just draw the next frame
+      this.setState(
+        (prev) => ({
+          animTimestamp: Math.min(prev.animTimestamp + currentFrame, this.animationDuration),
+        }),
+        () => {
+          this.drawFrame();
+          this.reqFrame();
+        },
+      );
+    }
+  };
+
+  /**
+   * Play button click handler
+   */
+  private onPlayButtonClick = () => {
+    if (this.state.isPlaying) {
+      this.stopAnimation();
+    } else {
+      this.startAnimation();
+    }
+  };
+
+  /**
+   * Reset button click handler
+   */
+  private onResetButtonClick = () => {
+    this.setState(
+      {
+        animTimestamp: 0,
+      },
+      () => {
+        if (!this.state.isPlaying) this.drawFrame();
+      },
+    );
+  };
+
+  /**
+   * Slider value change handler
+   * @param newValue New value of the slider
+   */
+  private onSliderChange = (newValue: number) => {
+    this.callbackTimestamp = null;
+    this.setState(
+      (prev) => ({
+        wasPlaying: prev.isPlaying,
+        isPlaying: false,
+        animTimestamp: newValue,
+      }),
+      this.drawFrame,
+    );
+  };
+
+  /**
+   * Handler triggered when the slider is clicked off
+   */
+  private onSliderRelease = () => {
+    this.setState(
+      (prev) => ({
+        isPlaying: prev.wasPlaying,
+      }),
+      () => {
+        if (!this.state.isPlaying) {
+          this.callbackTimestamp = null;
+        } else {
+          this.reqFrame();
+        }
+      },
+    );
+  };
+
+  /**
+   * Auto play switch handler
+   */
+  private autoPlaySwitchChanged = () => {
+    this.setState((prev) => ({
+      autoPlay: !prev.autoPlay,
+    }));
+  };
+
+  public render() {
+    const buttons = (
+      <div
+        style={{
+          marginLeft: '20px',
+          marginRight: '20px',
+          display: 'flex',
+          flexDirection: 'row',
+          justifyContent: 'space-between',
+        }}
+      >
+        <div
+          style={{
+            marginRight: '20px',
+          }}
+        >
+          <Tooltip2 content={this.state.isPlaying ? 'Pause' : 'Play'}>
+            <Button onClick={this.onPlayButtonClick}>
+              <Icon
+                icon={this.state.isPlaying ? IconNames.PAUSE : IconNames.PLAY}
+              />
+            </Button>
+          </Tooltip2>
+        </div>
+        <Tooltip2 content="Reset">
+          <Button onClick={this.onResetButtonClick}>
+            <Icon icon={IconNames.RESET} />
+          </Button>
+        </Tooltip2>
+      </div>
+    );
+
+    const animSlider = (
+      <div
+        style={{
+          marginTop: '7px',
+          flexGrow: 1,
+        }}
+      >
+        <Slider
+          value={this.state.animTimestamp}
+          onChange={this.onSliderChange}
+          onRelease={this.onSliderRelease}
+          stepSize={1}
+          labelRenderer={false}
+          min={0}
+          max={this.animationDuration}
+        />
+      </div>
+    );
+
+    return (
+      <>
+        {this.props.children}
+        {this.state.error && <p style={{ color: 'red' }}>{this.state.error}</p>}
+        <div
+          style={{
+            display: 'flex',
+            marginTop: '10px',
+            padding: '10px',
+            flexDirection: 'row',
+            justifyContent: 'stretch',
+            alignContent: 'center',
+          }}
+        >
+          {buttons}
+          {animSlider}
+          <Switch
+            style={{
+              marginLeft: '20px',
+              marginRight: '20px',
+              marginTop: '5px',
+              whiteSpace: 'nowrap',
+            }}
+            label="Auto Play"
+            onChange={this.autoPlaySwitchChanged}
+            checked={this.state.autoPlay}
+          />
+        </div>
+      </>
+    );
+  }
+}
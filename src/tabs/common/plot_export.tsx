@@ -0,0 +1,72 @@
+import { Button, ButtonGroup } from '@blueprintjs/core';
+import { IconNames } from '@blueprintjs/icons';
+import React from 'react';
+import type { ExportFormat, FigureExporter } from '../../bundles/plotly/export';
+
+type PlotExportProps = {
+  /** Id of the div in which the plot is drawn */
+  divId: string;
+
+  /** Name of the saved files, without extension */
+  filename: string;
+
+  /** Saves the plot, from the state of the module that drew it */
+  exportFigure: FigureExporter;
+};
+
+type PlotExportState = {
+  /** Message of the error thrown while saving the plot */
+  error: string | null;
+};
+
+const formats: [ExportFormat, string][] = [
+  ['png', 'PNG'],
+  ['svg', 'SVG'],
+  ['json', 'JSON'],
+];
+
+/**
+ * Buttons that save a drawn Plotly plot as a PNG or SVG image,
+ * or as the JSON of its data and layout
+ */
+export default class PlotExport extends React.Component<
+PlotExportProps,
+PlotExportState
+> {
+  constructor(props: PlotExportProps | Readonly<PlotExportProps>) {
+    super(props);
+    this.state = {
+      error: null,
+    };
+  }
+
+  private onExport = (format: ExportFormat) => {
+    const { divId, filename, exportFigure } = this.props;
+    exportFigure(divId, format, filename)
+      .then(
+        () => this.setState({ error: null }),
+        (error) => this.setState({
+          error: `Could not save the plot: ${error instanceof Error ? error.message : error}`,
+        }),
+      );
+  };
+
+  public render() {
+    return (
+      <>
+        <ButtonGroup minimal>
+          {formats.map(([format, label]) => (
+            <Button
+              key={format}
+              icon={IconNames.DOWNLOAD}
+              onClick={() => this.onExport(format)}
+            >
+              {label}
+            </Button>
+          ))}
+        </ButtonGroup>
+        {this.state.error && <p style={{ color: 'red' }}>{this.state.error}</p>}
+      </>
+    );
+  }
+}
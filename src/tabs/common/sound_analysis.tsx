@@ -0,0 +1,244 @@
+import React from 'react';
+import { magnitudeSpectrum, SPECTRUM_SIZE } from '../../bundles/sound/fft';
+
+const WIDTH = 512;
+const WAVEFORM_HEIGHT = 80;
+const SPECTRUM_HEIGHT = 100;
+const SPECTROGRAM_HEIGHT = 128;
+
+// Magnitudes are drawn on a decibel scale between these levels
+const MIN_DB = -90;
+const MAX_DB = 0;
+
+// Limit on the number of spectrogram columns computed for long sounds
+const MAX_SPECTROGRAM_COLUMNS = 4096;
+
+// Number of spectrogram columns computed before yielding to the event loop
+const SPECTROGRAM_CHUNK_COLUMNS = 64;
+
+const canvasStyle = {
+  width: '100%',
+  display: 'block',
+  marginTop: 5,
+  backgroundColor: 'black',
+} as React.CSSProperties;
+
+type Props = {
+  samples: Float32Array;
+  sampleRate: number;
+  audioRef: React.RefObject<HTMLAudioElement>;
+};
+
+// Level between 0 and 1 of the given magnitude on the decibel scale
+function level(magnitude: number): number {
+  const db = 20 * Math.log10(magnitude + 1e-12);
+  return Math.min(1, Math.max(0, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+}
+
+// Renders a min/max overview of the samples into an image, with one column
+// of pixels per part of the samples, which is drawn once per sound
+function makeWaveformImage(samples: Float32Array): HTMLCanvasElement {
+  const image = document.createElement('canvas');
+  image.width = WIDTH;
+  image.height = WAVEFORM_HEIGHT;
+  const ctx = image.getContext('2d')!;
+  ctx.fillStyle = '#48aff0';
+  const perColumn = samples.length / WIDTH;
+  const middle = WAVEFORM_HEIGHT / 2;
+  for (let x = 0; x < WIDTH; x += 1) {
+    let min = 0;
+    let max = 0;
+    const end = Math.min(samples.length, Math.ceil((x + 1) * perColumn));
+    for (let i = Math.floor(x * perColumn); i < end; i += 1) {
+      min = Math.min(min, samples[i]);
+      max = Math.max(max, samples[i]);
+    }
+    ctx.fillRect(x, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+  }
+  return image;
+}
+
+// Draws the overview of the samples, with a line at the playhead
+function drawWaveform(
+  canvas: HTMLCanvasElement,
+  image: HTMLCanvasElement,
+  progress: number,
+) {
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, WIDTH, WAVEFORM_HEIGHT);
+  ctx.drawImage(image, 0, 0);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(Math.floor(progress * WIDTH), 0, 1, WAVEFORM_HEIGHT);
+}
+
+// Draws the magnitude spectrum around the given sample as a bar graph
+function drawSpectrum(
+  canvas: HTMLCanvasElement,
+  samples: Float32Array,
+  sample: number,
+) {
+  const ctx = canvas.getContext('2d')!;
+  ctx.clearRect(0, 0, WIDTH, SPECTRUM_HEIGHT);
+  ctx.fillStyle = '#3dcc91';
+  const magnitudes = magnitudeSpectrum(samples, sample - SPECTRUM_SIZE / 2);
+  const perColumn = (magnitudes.length - 1) / WIDTH;
+  for (let x = 0; x < WIDTH; x += 1) {
+    let max = 0;
+    const end = Math.ceil((x + 1) * perColumn);
+    for (let k = Math.floor(x * perColumn); k < end; k += 1) {
+      max = Math.max(max, magnitudes[k]);
+    }
+    const height = level(max) * SPECTRUM_HEIGHT;
+    ctx.fillRect(x, SPECTRUM_HEIGHT - height, 1, height);
+  }
+}
+
+// Renders the spectrogram of the samples into an image, with one column
+// of pixels per window and low frequencies at the bottom. The columns are
+// computed in chunks, yielding to the event loop in between like the
+// rendering of sounds, and onChunk is called after each chunk. Returns a
+// function that stops the rendering.
+function renderSpectrogramImage(
+  image: HTMLCanvasElement,
+  samples: Float32Array,
+  hop: number,
+  onChunk: () => void,
+): () => void {
+  const ctx = image.getContext('2d')!;
+  let start = 0;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const step = () => {
+    const end = Math.min(image.width, start + SPECTROGRAM_CHUNK_COLUMNS);
+    const data = ctx.createImageData(end - start, SPECTROGRAM_HEIGHT);
+    for (let x = 0; x < data.width; x += 1) {
+      const magnitudes = magnitudeSpectrum(samples, (start + x) * hop);
+      const perRow = (magnitudes.length - 1) / SPECTROGRAM_HEIGHT;
+      for (let y = 0; y < SPECTROGRAM_HEIGHT; y += 1) {
+        let max = 0;
+        const rowEnd = Math.ceil((y + 1) * perRow);
+        for (let k = Math.floor(y * perRow); k < rowEnd; k += 1) {
+          max = Math.max(max, magnitudes[k]);
+        }
+        const value = level(max);
+        const offset = ((SPECTROGRAM_HEIGHT - 1 - y) * data.width + x) * 4;
+        // Black through purple and orange to yellow
+        data.data[offset] = Math.min(255, value * 2 * 255);
+        data.data[offset + 1] = Math.max(0, value * 2 - 1) * 255;
+        data.data[offset + 2] = Math.max(0, Math.sin(value * Math.PI)) * 160;
+        data.data[offset + 3] = 255;
+      }
+    }
+    ctx.putImageData(data, start, 0);
+    start = end;
+    onChunk();
+    if (start < image.width) {
+      timeout = setTimeout(step, 0);
+    }
+  };
+  timeout = setTimeout(step, 0);
+  return () => clearTimeout(timeout);
+}
+
+// Draws the part of the spectrogram that ends at the given column, so that
+// the spectrogram scrolls to the left as the sound plays
+function drawSpectrogram(
+  canvas: HTMLCanvasElement,
+  image: HTMLCanvasElement,
+  column: number,
+) {
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingEnabled = false;
+  ctx.clearRect(0, 0, WIDTH, SPECTROGRAM_HEIGHT);
+  const start = Math.max(0, Math.floor(column) - WIDTH);
+  const width = Math.min(WIDTH, image.width - start);
+  ctx.drawImage(
+    image,
+    start,
+    0,
+    width,
+    SPECTROGRAM_HEIGHT,
+    0,
+    0,
+    width,
+    SPECTROGRAM_HEIGHT,
+  );
+}
+
+/**
+ * Waveform overview, magnitude spectrum and scrolling spectrogram of a
+ * played sound, following the playback position of the given audio element
+ */
+export default function SoundAnalysis({
+  samples,
+  sampleRate,
+  audioRef,
+}: Props) {
+  const waveformRef = React.useRef<HTMLCanvasElement>(null);
+  const spectrumRef = React.useRef<HTMLCanvasElement>(null);
+  const spectrogramRef = React.useRef<HTMLCanvasElement>(null);
+
+  React.useEffect(() => {
+    const hop = Math.max(
+      SPECTRUM_SIZE / 4,
+      Math.ceil(samples.length / MAX_SPECTROGRAM_COLUMNS),
+    );
+    const waveform = makeWaveformImage(samples);
+    const image = document.createElement('canvas');
+    image.width = Math.max(1, Math.ceil(samples.length / hop));
+    image.height = SPECTROGRAM_HEIGHT;
+
+    let lastPosition = -1;
+    const stopRendering = renderSpectrogramImage(image, samples, hop, () => {
+      // Shows the new columns of the spectrogram
+      lastPosition = -1;
+    });
+    let animId: number;
+    const draw = () => {
+      const position = audioRef.current?.currentTime ?? 0;
+      if (position !== lastPosition) {
+        lastPosition = position;
+        const sample = Math.round(position * sampleRate);
+        drawWaveform(
+          waveformRef.current!,
+          waveform,
+          samples.length > 0 ? sample / samples.length : 0,
+        );
+        drawSpectrum(spectrumRef.current!, samples, sample);
+        drawSpectrogram(spectrogramRef.current!, image, sample / hop);
+      }
+      animId = requestAnimationFrame(draw);
+    };
+    draw();
+
+    return () => {
+      cancelAnimationFrame(animId);
+      stopRendering();
+    };
+  }, [samples, sampleRate]);
+
+  return (
+    <div>
+      <canvas
+        ref={waveformRef}
+        width={WIDTH}
+        height={WAVEFORM_HEIGHT}
+        style={canvasStyle}
+        title="Waveform"
+      />
+      <canvas
+        ref={spectrumRef}
+        width={WIDTH}
+        height={SPECTRUM_HEIGHT}
+        style={canvasStyle}
+        title={`Spectrum from 0 to ${sampleRate / 2} Hz`}
+      />
+      <canvas
+        ref={spectrogramRef}
+        width={WIDTH}
+        height={SPECTROGRAM_HEIGHT}
+        style={canvasStyle}
+        title="Spectrogram"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Spinner, SpinnerSize } from '@blueprintjs/core';
+import React from 'react';
+import type { AudioPlayed } from '../../bundles/sound/types';
+import SoundAnalysis from './sound_analysis';
+
+/**
+ * Audio player and analysis for a played sound, shown once the sound has
+ * been rendered
+ */
+export default function SoundPlayer({ audio }: { audio: AudioPlayed }) {
+  const [dataUri, setDataUri] = React.useState(audio.dataUri);
+  const [error, setError] = React.useState<string | null>(null);
+  const audioRef = React.useRef<HTMLAudioElement>(null);
+
+  React.useEffect(() => {
+    let mounted = true;
+    audio.rendered
+      .then((uri) => {
+        if (mounted) setDataUri(uri);
+      })
+      .catch((e) => {
+        if (mounted) setError(`${e}`);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [audio]);
+
+  if (error !== null) {
+    return <p>Error while rendering sound: {error}</p>;
+  }
+
+  if (dataUri === '') {
+    return <Spinner size={SpinnerSize.SMALL} />;
+  }
+
+  return (
+    <div>
+      <audio
+        ref={audioRef}
+        src={dataUri}
+        controls
+        id="sound-tab-player"
+        style={{ width: '100%' }}
+      />
+      {audio.samples !== null && (
+        <SoundAnalysis
+          samples={audio.samples}
+          sampleRate={audio.sampleRate}
+          audioRef={audioRef}
+        />
+      )}
+    </div>
+  );
+}